@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { endSession } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+export async function POST() {
+  try {
+    return await endSession(NextResponse.json({ success: true }));
+  } catch (error) {
+    console.error("Failed to sign out", error);
+    return toErrorResponse(error, "Unable to sign out.");
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    return NextResponse.json(user, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    return toErrorResponse(error, "Unable to read the session.");
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { startSession } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { CredentialsPayload } from "@/lib/types";
+import { createUser } from "@/lib/users";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const payload = await readJsonBody<CredentialsPayload>(request);
+    const user = await createUser(payload);
+    return await startSession(NextResponse.json(user, { status: 201 }), user);
+  } catch (error) {
+    console.error("Failed to create account", error);
+    return toErrorResponse(error, "Unable to create the account.");
+  }
+}
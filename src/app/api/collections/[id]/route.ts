@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { CollectionPayload } from "@/lib/types";
+import {
+  deleteCollection,
+  getCollectionWithVideos,
+  updateCollection,
+} from "@/lib/video-collections";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:read");
+    const { id } = await context.params;
+    return NextResponse.json(await getCollectionWithVideos(id, user));
+  } catch (error) {
+    console.error("Failed to load collection", error);
+    return toErrorResponse(error, "Unable to load the collection.");
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const payload = await readJsonBody<CollectionPayload>(request);
+    const { id } = await context.params;
+    return NextResponse.json(await updateCollection(id, payload, user));
+  } catch (error) {
+    console.error("Failed to update collection", error);
+    return toErrorResponse(error, "Unable to update the collection.");
+  }
+}
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    await deleteCollection(id, user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete collection", error);
+    return toErrorResponse(error, "Unable to delete the collection.");
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { removeVideoFromCollection } from "@/lib/video-collections";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    videoId: string;
+  }>;
+};
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id, videoId } = await context.params;
+    return NextResponse.json(
+      await removeVideoFromCollection(id, videoId, user)
+    );
+  } catch (error) {
+    console.error("Failed to remove video from collection", error);
+    return toErrorResponse(
+      error,
+      "Unable to remove the video from the collection."
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import { addVideoToCollection } from "@/lib/video-collections";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { videoId } = await readJsonBody<{ videoId?: string }>(request);
+    const { id } = await context.params;
+    return NextResponse.json(
+      await addVideoToCollection(id, videoId ?? "", user)
+    );
+  } catch (error) {
+    console.error("Failed to add video to collection", error);
+    return toErrorResponse(error, "Unable to add the video to the collection.");
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { CollectionPayload } from "@/lib/types";
+import { createCollection, listCollections } from "@/lib/video-collections";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const user = await requireUser("videos:read");
+    return NextResponse.json(await listCollections(user));
+  } catch (error) {
+    console.error("Failed to list collections", error);
+    return toErrorResponse(error, "Unable to list collections.");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser("videos:write");
+    const payload = await readJsonBody<CollectionPayload>(request);
+    return NextResponse.json(await createCollection(payload, user), {
+      status: 201,
+    });
+  } catch (error) {
+    console.error("Failed to create collection", error);
+    return toErrorResponse(error, "Unable to create the collection.");
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { cancelVideoJob } from "@/lib/video-processing";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function POST(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    return NextResponse.json(await cancelVideoJob(id, user));
+  } catch (error) {
+    console.error("Failed to cancel job", error);
+    return toErrorResponse(error, "Unable to cancel the job.");
+  }
+}
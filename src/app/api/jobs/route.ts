@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { listVideoJobs, parseJobFilters } from "@/lib/video-processing";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser("videos:read");
+    const filters = parseJobFilters(request.nextUrl.searchParams);
+    return NextResponse.json(await listVideoJobs(filters, user));
+  } catch (error) {
+    console.error("Failed to list jobs", error);
+    return toErrorResponse(error, "Unable to list jobs.");
+  }
+}
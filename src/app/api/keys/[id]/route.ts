@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revokeApiKey } from "@/lib/api-keys";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await context.params;
+    await revokeApiKey(id, user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to revoke API key", error);
+    return toErrorResponse(error, "Unable to revoke the API key.");
+  }
+}
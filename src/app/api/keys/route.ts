@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createApiKey, listApiKeys } from "@/lib/api-keys";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { CreateApiKeyPayload } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    return NextResponse.json(await listApiKeys(user));
+  } catch (error) {
+    console.error("Failed to list API keys", error);
+    return toErrorResponse(error, "Unable to list API keys.");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser();
+    const payload = await readJsonBody<CreateApiKeyPayload>(request);
+    const created = await createApiKey(payload, user);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create API key", error);
+    return toErrorResponse(error, "Unable to create the API key.");
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { toErrorResponse } from "@/lib/errors";
+import { buildOEmbed } from "@/lib/oembed";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  try {
+    const embed = await buildOEmbed(request.nextUrl.searchParams);
+    return NextResponse.json(embed, {
+      headers: { "Access-Control-Allow-Origin": "*" },
+    });
+  } catch (error) {
+    console.error("Failed to build oEmbed response", error);
+    return toErrorResponse(error, "Unable to describe the video.");
+  }
+}
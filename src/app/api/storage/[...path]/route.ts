@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+const PRIVATE_PREFIXES = ["auth/", "videos/"];
+
+type RouteContext = {
+  params: Promise<{
+    path: string[];
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const storage = getStorage();
+    if (storage.driver === "vercel-blob") {
+      return NextResponse.json(
+        { error: "Files are served directly by Vercel Blob." },
+        { status: 404 }
+      );
+    }
+
+    const { path } = await context.params;
+    const pathname = path.join("/");
+    if (PRIVATE_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+      return NextResponse.json({ error: "File not found." }, { status: 404 });
+    }
+    const object = await storage.head(pathname);
+    const body = object ? await storage.read(pathname) : null;
+    if (!object || !body) {
+      return NextResponse.json({ error: "File not found." }, { status: 404 });
+    }
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": object.contentType,
+        "Content-Length": `${object.size}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to serve stored file", error);
+    return NextResponse.json(
+      { error: "Unable to read the requested file." },
+      { status: 500 }
+    );
+  }
+}
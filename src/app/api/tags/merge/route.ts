@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { MergeTagsPayload } from "@/lib/types";
+import { mergeTags } from "@/lib/video-tags";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser("videos:write");
+    const payload = await readJsonBody<MergeTagsPayload>(request);
+    return NextResponse.json(await mergeTags(user, payload));
+  } catch (error) {
+    console.error("Failed to merge tags", error);
+    return toErrorResponse(error, "Unable to merge the tags.");
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { normalizeTagCase } from "@/lib/video-tags";
+
+export const runtime = "nodejs";
+
+export async function POST() {
+  try {
+    const user = await requireUser("videos:write");
+    return NextResponse.json(await normalizeTagCase(user));
+  } catch (error) {
+    console.error("Failed to normalize tags", error);
+    return toErrorResponse(error, "Unable to normalize tags.");
+  }
+}
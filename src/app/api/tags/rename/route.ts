@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { RenameTagPayload } from "@/lib/types";
+import { mergeTags } from "@/lib/video-tags";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser("videos:write");
+    const { from, to, ignoreCase } =
+      await readJsonBody<RenameTagPayload>(request);
+    return NextResponse.json(
+      await mergeTags(user, {
+        sources: from === undefined ? [] : [from],
+        target: to,
+        ignoreCase,
+      })
+    );
+  } catch (error) {
+    console.error("Failed to rename tag", error);
+    return toErrorResponse(error, "Unable to rename the tag.");
+  }
+}
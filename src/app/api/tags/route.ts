@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { listTags } from "@/lib/video-tags";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser("videos:read");
+    const query = request.nextUrl.searchParams.get("q") ?? "";
+    return NextResponse.json(await listTags(user, query));
+  } catch (error) {
+    console.error("Failed to list tags", error);
+    return toErrorResponse(error, "Unable to list tags.");
+  }
+}
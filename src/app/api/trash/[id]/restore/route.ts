@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { restoreVideoRecord } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function POST(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:delete");
+    const { id } = await context.params;
+    return NextResponse.json(await restoreVideoRecord(id, user));
+  } catch (error) {
+    console.error("Failed to restore video", error);
+    return toErrorResponse(error, "Unable to restore the video.");
+  }
+}
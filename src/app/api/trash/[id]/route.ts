@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { purgeTrashedVideoRecord } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:delete");
+    const { id } = await context.params;
+    await purgeTrashedVideoRecord(id, user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to permanently delete video", error);
+    return toErrorResponse(error, "Unable to permanently delete the video.");
+  }
+}
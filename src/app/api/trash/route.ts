@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { emptyTrash, listTrash } from "@/lib/video-trash";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const user = await requireUser("videos:read");
+    return NextResponse.json(await listTrash(user));
+  } catch (error) {
+    console.error("Failed to list trash", error);
+    return toErrorResponse(error, "Unable to load the trash.");
+  }
+}
+
+export async function DELETE() {
+  try {
+    const user = await requireUser("videos:delete");
+    return NextResponse.json(await emptyTrash(user));
+  } catch (error) {
+    console.error("Failed to empty trash", error);
+    return toErrorResponse(error, "Unable to empty the trash.");
+  }
+}
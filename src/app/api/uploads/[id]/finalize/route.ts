@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { finalizeUploadSession } from "@/lib/upload-sessions";
+import { enqueueVideoProcessing } from "@/lib/video-processing";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function POST(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    const video = await finalizeUploadSession(id, user);
+    return NextResponse.json(await enqueueVideoProcessing(video), {
+      status: 201,
+    });
+  } catch (error) {
+    console.error("Failed to finalize upload", error);
+    return toErrorResponse(error, "Unable to finalize the upload.");
+  }
+}
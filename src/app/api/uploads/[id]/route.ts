@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { RequestError, toErrorResponse } from "@/lib/errors";
+import {
+  abortUploadSession,
+  appendUploadChunk,
+  getUploadSession,
+} from "@/lib/upload-sessions";
+import type { UploadSession } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+const uploadHeaders = (session: UploadSession) => ({
+  "Upload-Offset": `${session.offset}`,
+  "Upload-Length": `${session.size}`,
+  "Cache-Control": "no-store",
+});
+
+export async function HEAD(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    const session = await getUploadSession(id, user);
+    return new Response(null, { headers: uploadHeaders(session) });
+  } catch (error) {
+    return new Response(null, {
+      status: error instanceof RequestError ? error.status : 500,
+    });
+  }
+}
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    const session = await getUploadSession(id, user);
+    return NextResponse.json(session, { headers: uploadHeaders(session) });
+  } catch (error) {
+    console.error("Failed to read upload session", error);
+    return toErrorResponse(error, "Unable to read the upload.");
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    const offset = Number(request.headers.get("Upload-Offset"));
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: "A valid Upload-Offset header is required." },
+        { status: 400 }
+      );
+    }
+
+    const chunk = await request.arrayBuffer();
+    const session = await appendUploadChunk(id, offset, chunk, user);
+    return new Response(null, {
+      status: 204,
+      headers: uploadHeaders(session),
+    });
+  } catch (error) {
+    console.error("Failed to append upload chunk", error);
+    return toErrorResponse(error, "Unable to store the upload chunk.", {
+      headers:
+        error instanceof RequestError && typeof error.details.offset === "number"
+          ? { "Upload-Offset": `${error.details.offset}` }
+          : undefined,
+    });
+  }
+}
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    await abortUploadSession(id, user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to abort upload", error);
+    return toErrorResponse(error, "Unable to cancel the upload.");
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { CreateUploadPayload } from "@/lib/types";
+import {
+  MAX_UPLOAD_CHUNK_SIZE,
+  createUploadSession,
+} from "@/lib/upload-sessions";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser("videos:write");
+    const payload = await readJsonBody<CreateUploadPayload>(request);
+    const session = await createUploadSession(payload, user);
+    return NextResponse.json(session, {
+      status: 201,
+      headers: {
+        Location: `/api/uploads/${session.id}`,
+        "Upload-Offset": `${session.offset}`,
+        "Upload-Length": `${session.size}`,
+        "Upload-Max-Chunk-Size": `${MAX_UPLOAD_CHUNK_SIZE}`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to create upload session", error);
+    return toErrorResponse(error, "Unable to start the upload.");
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import { getStorage } from "@/lib/storage";
+import type { UpdateCaptionPayload } from "@/lib/types";
+import { authorizeVideoAccess } from "@/lib/video-access";
+import { removeVideoCaption, updateVideoCaption } from "@/lib/video-captions";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    captionId: string;
+  }>;
+};
+
+const notFound = () =>
+  NextResponse.json({ error: "Caption track not found." }, { status: 404 });
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, captionId } = await context.params;
+    const record = await authorizeVideoAccess(id, {
+      grant: request.nextUrl.searchParams.get("grant"),
+    });
+    const caption = record.captions?.find((entry) => entry.id === captionId);
+    if (!caption) {
+      return notFound();
+    }
+
+    const body = await getStorage().read(caption.storagePath);
+    if (!body) {
+      return notFound();
+    }
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/vtt; charset=utf-8",
+        "Content-Language": caption.language,
+        "Cache-Control":
+          record.visibility === "public"
+            ? "public, max-age=300"
+            : "private, no-cache",
+        ...(record.visibility === "public"
+          ? {}
+          : { "X-Robots-Tag": "noindex" }),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to serve captions", error);
+    return toErrorResponse(error, "Unable to load the captions.");
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id, captionId } = await context.params;
+    const payload = await readJsonBody<UpdateCaptionPayload>(request);
+    return NextResponse.json(
+      await updateVideoCaption(id, captionId, payload, user)
+    );
+  } catch (error) {
+    console.error("Failed to update captions", error);
+    return toErrorResponse(error, "Unable to update the captions.");
+  }
+}
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id, captionId } = await context.params;
+    await removeVideoCaption(id, captionId, user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete captions", error);
+    return toErrorResponse(error, "Unable to delete the captions.");
+  }
+}
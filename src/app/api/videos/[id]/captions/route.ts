@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import {
+  MAX_CAPTION_SIZE,
+  addVideoCaption,
+  assertCaptionSize,
+  listVideoCaptions,
+} from "@/lib/video-captions";
+
+export const runtime = "nodejs";
+
+const MULTIPART_OVERHEAD_ALLOWANCE = 64 * 1024;
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:read");
+    const { id } = await context.params;
+    return NextResponse.json(await listVideoCaptions(id, user));
+  } catch (error) {
+    console.error("Failed to list captions", error);
+    return toErrorResponse(error, "Unable to load the captions.");
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > MAX_CAPTION_SIZE + MULTIPART_OVERHEAD_ALLOWANCE) {
+      assertCaptionSize(contentLength);
+    }
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          error: "A WebVTT or SRT file must be provided.",
+          code: "missing_file",
+          field: "file",
+        },
+        { status: 400 }
+      );
+    }
+
+    assertCaptionSize(file.size);
+    const caption = await addVideoCaption(
+      id,
+      {
+        fileName: file.name,
+        bytes: new Uint8Array(await file.arrayBuffer()),
+        language: formData.get("language")?.toString(),
+        label: formData.get("label")?.toString(),
+      },
+      user
+    );
+    return NextResponse.json(caption, { status: 201 });
+  } catch (error) {
+    console.error("Failed to upload captions", error);
+    return toErrorResponse(error, "Unable to save the captions.");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import {
+  listVideoChapters,
+  replaceVideoChapters,
+} from "@/lib/video-chapters";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:read");
+    const { id } = await context.params;
+    return NextResponse.json(await listVideoChapters(id, user));
+  } catch (error) {
+    console.error("Failed to list chapters", error);
+    return toErrorResponse(error, "Unable to load the chapters.");
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    const payload = await readJsonBody<{ chapters?: unknown }>(request);
+    return NextResponse.json(
+      await replaceVideoChapters(id, payload?.chapters, user)
+    );
+  } catch (error) {
+    console.error("Failed to save chapters", error);
+    return toErrorResponse(error, "Unable to save the chapters.");
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { UpdateCommentPayload } from "@/lib/types";
+import {
+  removeVideoComment,
+  updateVideoComment,
+} from "@/lib/video-comments";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    commentId: string;
+  }>;
+};
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id, commentId } = await context.params;
+    const payload = await readJsonBody<UpdateCommentPayload>(request);
+    return NextResponse.json(
+      await updateVideoComment(id, commentId, payload, user)
+    );
+  } catch (error) {
+    console.error("Failed to update comment", error);
+    return toErrorResponse(error, "Unable to update the comment.");
+  }
+}
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id, commentId } = await context.params;
+    await removeVideoComment(id, commentId, user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete comment", error);
+    return toErrorResponse(error, "Unable to delete the comment.");
+  }
+}
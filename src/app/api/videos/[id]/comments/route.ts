@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { CreateCommentPayload } from "@/lib/types";
+import { addVideoComment, listVideoComments } from "@/lib/video-comments";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:read");
+    const { id } = await context.params;
+    return NextResponse.json(await listVideoComments(id, user));
+  } catch (error) {
+    console.error("Failed to list comments", error);
+    return toErrorResponse(error, "Unable to load the comments.");
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    const payload = await readJsonBody<CreateCommentPayload>(request);
+    const comment = await addVideoComment(id, payload, user);
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    console.error("Failed to add comment", error);
+    return toErrorResponse(error, "Unable to add the comment.");
+  }
+}
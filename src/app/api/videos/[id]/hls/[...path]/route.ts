@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { toErrorResponse } from "@/lib/errors";
+import { getStorage } from "@/lib/storage";
+import { authorizeVideoAccess, startVideoPlayback } from "@/lib/video-access";
+import { renditionPrefix } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    path: string[];
+  }>;
+};
+
+const MASTER_PLAYLIST = "master.m3u8";
+const VARIANT_FILE_PATTERN = /^(index\.m3u8|segment-\d+\.ts)$/;
+
+const isRenditionPath = (path: string[]) =>
+  path.length === 1
+    ? path[0] === MASTER_PLAYLIST
+    : path.length === 2 &&
+      /^\d+p$/.test(path[0]) &&
+      VARIANT_FILE_PATTERN.test(path[1]);
+
+const notFound = () =>
+  NextResponse.json({ error: "Rendition not found." }, { status: 404 });
+
+const appendGrant = (playlist: string, grant: string) =>
+  playlist
+    .split("\n")
+    .map((line) =>
+      line && !line.startsWith("#")
+        ? `${line.trim()}?grant=${encodeURIComponent(grant)}`
+        : line
+    )
+    .join("\n");
+
+const authorizePlaylist = async (
+  request: NextRequest,
+  id: string,
+  isMaster: boolean
+) => {
+  const grant = request.nextUrl.searchParams.get("grant");
+  const token = request.nextUrl.searchParams.get("token");
+  if (isMaster && token && !grant) {
+    return startVideoPlayback(id, token);
+  }
+  return { record: await authorizeVideoAccess(id, { grant }), grant };
+};
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, path } = await context.params;
+    if (!isRenditionPath(path)) {
+      return notFound();
+    }
+    const fileName = path.join("/");
+    const { record, grant } = await authorizePlaylist(
+      request,
+      id,
+      fileName === MASTER_PLAYLIST
+    );
+    if (record.renditions?.status !== "ready") {
+      return notFound();
+    }
+
+    const body = await getStorage().read(`${renditionPrefix(id)}${fileName}`);
+    if (!body) {
+      return notFound();
+    }
+    const isPlaylist = fileName.endsWith(".m3u8");
+    const headers: Record<string, string> = {
+      "Content-Type": isPlaylist
+        ? "application/vnd.apple.mpegurl"
+        : "video/mp2t",
+      "Cache-Control":
+        record.visibility === "public"
+          ? `public, max-age=${isPlaylist ? 300 : 86400}`
+          : "private, no-cache",
+      ...(record.visibility === "public" ? {} : { "X-Robots-Tag": "noindex" }),
+    };
+    if (isPlaylist && grant) {
+      const playlist = await new Response(body).text();
+      return new Response(appendGrant(playlist, grant), { headers });
+    }
+    return new Response(body, { headers });
+  } catch (error) {
+    console.error("Failed to serve HLS rendition", error);
+    return toErrorResponse(error, "Unable to load the rendition.");
+  }
+}
@@ -0,0 +1,92 @@
+import { createHash } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { matchesEtag } from "@/lib/http-range";
+import { getStorage } from "@/lib/storage";
+import { authorizeVideoAccess } from "@/lib/video-access";
+import {
+  assertPosterSize,
+  readPosterBody,
+  removeVideoPoster,
+  uploadVideoPoster,
+} from "@/lib/video-posters";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+const notFound = () =>
+  NextResponse.json({ error: "Poster not found." }, { status: 404 });
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const record = await authorizeVideoAccess(id, {
+      grant: request.nextUrl.searchParams.get("grant"),
+    });
+    if (!record.poster) {
+      return notFound();
+    }
+
+    const etag = `"${createHash("sha1")
+      .update(record.poster.storagePath)
+      .digest("base64url")}"`;
+    const headers: Record<string, string> = {
+      "Content-Type": record.poster.contentType,
+      ETag: etag,
+      "Cache-Control":
+        record.visibility === "public"
+          ? "public, max-age=86400"
+          : "private, no-cache",
+      ...(record.visibility === "public" ? {} : { "X-Robots-Tag": "noindex" }),
+    };
+    const ifNoneMatch = request.headers.get("if-none-match");
+    if (ifNoneMatch && matchesEtag(ifNoneMatch, etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    const body = await getStorage().read(record.poster.storagePath);
+    if (!body) {
+      return notFound();
+    }
+    return new Response(body, { headers });
+  } catch (error) {
+    console.error("Failed to serve poster", error);
+    return toErrorResponse(error, "Unable to load the poster.");
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    assertPosterSize(Number(request.headers.get("content-length")) || 0);
+    const bytes = await readPosterBody(request.body);
+    const video = await uploadVideoPoster(
+      id,
+      bytes,
+      request.nextUrl.searchParams.get("time"),
+      user
+    );
+    return NextResponse.json(video);
+  } catch (error) {
+    console.error("Failed to upload poster", error);
+    return toErrorResponse(error, "Unable to save the poster.");
+  }
+}
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    return NextResponse.json(await removeVideoPoster(id, user));
+  } catch (error) {
+    console.error("Failed to remove poster", error);
+    return toErrorResponse(error, "Unable to remove the poster.");
+  }
+}
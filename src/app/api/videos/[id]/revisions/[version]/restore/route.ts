@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { restoreVideoRevision } from "@/lib/video-store";
+import { toVersionEtag } from "@/lib/video-version";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    version: string;
+  }>;
+};
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id, version } = await context.params;
+    const restored = await restoreVideoRevision(
+      id,
+      Number(version),
+      user,
+      request.headers.get("if-match")
+    );
+    return NextResponse.json(restored, {
+      headers: { ETag: toVersionEtag(restored) },
+    });
+  } catch (error) {
+    console.error("Failed to restore revision", error);
+    return toErrorResponse(error, "Unable to restore the revision.");
+  }
+}
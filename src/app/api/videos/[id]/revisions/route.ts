@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { listVideoRevisions } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:read");
+    const { id } = await context.params;
+    return NextResponse.json(await listVideoRevisions(id, user));
+  } catch (error) {
+    console.error("Failed to list revisions", error);
+    return toErrorResponse(error, "Unable to load the revision history.");
+  }
+}
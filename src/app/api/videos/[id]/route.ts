@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { UpdateVideoPayload } from "@/lib/types";
 import {
   deleteVideoRecord,
+  getVideoRecord,
   updateVideoRecord,
 } from "@/lib/video-store";
+import { toVersionEtag } from "@/lib/video-version";
 
 export const runtime = "nodejs";
 
@@ -12,31 +17,48 @@ type RouteContext = {
   }>;
 };
 
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:read");
+    const { id } = await context.params;
+    const video = await getVideoRecord(id, user);
+    return NextResponse.json(video, {
+      headers: { ETag: toVersionEtag(video) },
+    });
+  } catch (error) {
+    console.error("Failed to load video", error);
+    return toErrorResponse(error, "Unable to load the requested video.");
+  }
+}
+
 export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
-    const payload = await request.json();
+    const user = await requireUser("videos:write");
+    const payload = await readJsonBody<UpdateVideoPayload>(request);
     const { id } = await context.params;
-    const updated = await updateVideoRecord(id, payload);
-    return NextResponse.json(updated);
+    const updated = await updateVideoRecord(
+      id,
+      payload,
+      user,
+      request.headers.get("if-match")
+    );
+    return NextResponse.json(updated, {
+      headers: { ETag: toVersionEtag(updated) },
+    });
   } catch (error) {
     console.error("Failed to update video metadata", error);
-    return NextResponse.json(
-      { error: "Unable to update the video metadata." },
-      { status: 500 }
-    );
+    return toErrorResponse(error, "Unable to update the video metadata.");
   }
 }
 
 export async function DELETE(_: NextRequest, context: RouteContext) {
   try {
+    const user = await requireUser("videos:delete");
     const { id } = await context.params;
-    await deleteVideoRecord(id);
-    return NextResponse.json({ success: true });
+    const trashed = await deleteVideoRecord(id, user);
+    return NextResponse.json({ success: true, deletedAt: trashed.deletedAt });
   } catch (error) {
     console.error("Failed to delete video", error);
-    return NextResponse.json(
-      { error: "Unable to delete the requested video." },
-      { status: 500 }
-    );
+    return toErrorResponse(error, "Unable to delete the requested video.");
   }
 }
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { revokeShareLink } from "@/lib/share-links";
+import { getVideoRecord } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    shareId: string;
+  }>;
+};
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id, shareId } = await context.params;
+    const video = await getVideoRecord(id, user);
+    await revokeShareLink(video.id, shareId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to revoke share link", error);
+    return toErrorResponse(error, "Unable to revoke the share link.");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import { createShareLink, listShareLinks } from "@/lib/share-links";
+import type { CreateShareLinkPayload } from "@/lib/types";
+import { getVideoRecord } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:read");
+    const { id } = await context.params;
+    const video = await getVideoRecord(id, user);
+    return NextResponse.json(await listShareLinks(video.id));
+  } catch (error) {
+    console.error("Failed to list share links", error);
+    return toErrorResponse(error, "Unable to list share links.");
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const payload = await readJsonBody<CreateShareLinkPayload>(request);
+    const { id } = await context.params;
+    const video = await getVideoRecord(id, user);
+    const link = await createShareLink(video.id, payload);
+    return NextResponse.json(link, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create share link", error);
+    return toErrorResponse(error, "Unable to create the share link.");
+  }
+}
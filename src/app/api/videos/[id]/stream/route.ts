@@ -0,0 +1,116 @@
+import { createHash } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { toErrorResponse } from "@/lib/errors";
+import {
+  isNotModifiedSince,
+  matchesEtag,
+  parseRangeHeader,
+} from "@/lib/http-range";
+import { getStorage } from "@/lib/storage";
+import type { PersistedVideoRecord } from "@/lib/types";
+import { authorizeVideoAccess } from "@/lib/video-access";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+const toEtag = (record: PersistedVideoRecord) =>
+  `"${createHash("sha1")
+    .update(`${record.storagePath}:${record.size}`)
+    .digest("base64url")}"`;
+
+const streamVideo = async (
+  request: NextRequest,
+  context: RouteContext,
+  includeBody: boolean
+) => {
+  const { id } = await context.params;
+  const rangeHeader = request.headers.get("range");
+  const record = await authorizeVideoAccess(id, {
+    grant: request.nextUrl.searchParams.get("grant"),
+  });
+
+  const etag = toEtag(record);
+  const lastModified = new Date(record.createdAt);
+  const headers: Record<string, string> = {
+    "Accept-Ranges": "bytes",
+    "Content-Type": record.contentType,
+    ETag: etag,
+    "Last-Modified": lastModified.toUTCString(),
+    "Cache-Control":
+      record.visibility === "public"
+        ? "public, max-age=300"
+        : "private, no-cache",
+    ...(record.visibility === "public" ? {} : { "X-Robots-Tag": "noindex" }),
+  };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (
+    ifNoneMatch
+      ? matchesEtag(ifNoneMatch, etag)
+      : isNotModifiedSince(request.headers.get("if-modified-since"), lastModified)
+  ) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const ifRange = request.headers.get("if-range");
+  const rangeRequest =
+    ifRange && ifRange.trim() !== etag
+      ? ({ kind: "full" } as const)
+      : parseRangeHeader(rangeHeader, record.size);
+
+  if (rangeRequest.kind === "unsatisfiable") {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, "Content-Range": `bytes */${record.size}` },
+    });
+  }
+
+  const range = rangeRequest.kind === "partial" ? rangeRequest.range : null;
+  const length = range ? range.end - range.start + 1 : record.size;
+  const responseHeaders = {
+    ...headers,
+    "Content-Length": `${length}`,
+    ...(range
+      ? { "Content-Range": `bytes ${range.start}-${range.end}/${record.size}` }
+      : {}),
+  };
+  const status = range ? 206 : 200;
+  if (!includeBody) {
+    return new Response(null, { status, headers: responseHeaders });
+  }
+
+  const body = await getStorage().read(
+    record.storagePath,
+    range ?? undefined
+  );
+  if (!body) {
+    return NextResponse.json(
+      { error: "The video file is missing." },
+      { status: 404 }
+    );
+  }
+  return new Response(body, { status, headers: responseHeaders });
+};
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    return await streamVideo(request, context, true);
+  } catch (error) {
+    console.error("Failed to stream video", error);
+    return toErrorResponse(error, "Unable to stream the video.");
+  }
+}
+
+export async function HEAD(request: NextRequest, context: RouteContext) {
+  try {
+    return await streamVideo(request, context, false);
+  } catch (error) {
+    console.error("Failed to stream video", error);
+    return toErrorResponse(error, "Unable to stream the video.");
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { toErrorResponse } from "@/lib/errors";
+import { getStorage } from "@/lib/storage";
+import { THUMBNAIL_TRACK_FILE } from "@/lib/thumbnail-track";
+import { authorizeVideoAccess } from "@/lib/video-access";
+import { thumbnailPrefix } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    file: string;
+  }>;
+};
+
+const SPRITE_FILE_PATTERN = /^sprite-\d{3}\.jpg$/;
+
+const notFound = () =>
+  NextResponse.json({ error: "Thumbnail not found." }, { status: 404 });
+
+const appendGrant = (track: string, grant: string) =>
+  track.replace(
+    /^(sprite-\d{3}\.jpg)(#xywh=)/gm,
+    `$1?grant=${encodeURIComponent(grant)}$2`
+  );
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, file } = await context.params;
+    const isTrack = file === THUMBNAIL_TRACK_FILE;
+    if (!isTrack && !SPRITE_FILE_PATTERN.test(file)) {
+      return notFound();
+    }
+    const grant = request.nextUrl.searchParams.get("grant");
+    const record = await authorizeVideoAccess(id, { grant });
+    if (!record.thumbnails) {
+      return notFound();
+    }
+
+    const body = await getStorage().read(`${thumbnailPrefix(id)}${file}`);
+    if (!body) {
+      return notFound();
+    }
+    const headers: Record<string, string> = {
+      "Content-Type": isTrack ? "text/vtt; charset=utf-8" : "image/jpeg",
+      "Cache-Control":
+        record.visibility === "public"
+          ? "public, max-age=86400"
+          : "private, no-cache",
+      ...(record.visibility === "public" ? {} : { "X-Robots-Tag": "noindex" }),
+    };
+    if (isTrack && grant) {
+      const track = await new Response(body).text();
+      return new Response(appendGrant(track, grant), { headers });
+    }
+    return new Response(body, { headers });
+  } catch (error) {
+    console.error("Failed to serve thumbnails", error);
+    return toErrorResponse(error, "Unable to load the thumbnails.");
+  }
+}
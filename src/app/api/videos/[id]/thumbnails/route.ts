@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { requestThumbnails } from "@/lib/video-processing";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function POST(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("videos:write");
+    const { id } = await context.params;
+    const video = await requestThumbnails(id, user);
+    return NextResponse.json(video, { status: 202 });
+  } catch (error) {
+    console.error("Failed to start thumbnail generation", error);
+    return toErrorResponse(error, "Unable to start thumbnail generation.");
+  }
+}
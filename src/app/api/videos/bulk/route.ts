@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { authorizeScope, requirePrincipal } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { BulkOperationPayload } from "@/lib/types";
+import {
+  BULK_OPERATION_SCOPES,
+  parseBulkOperation,
+  runBulkOperation,
+} from "@/lib/video-bulk";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const principal = await requirePrincipal();
+    const payload = await readJsonBody<BulkOperationPayload>(request);
+    const operation = parseBulkOperation(payload.operation);
+    const user = authorizeScope(
+      principal,
+      BULK_OPERATION_SCOPES[operation.type]
+    );
+    return NextResponse.json(await runBulkOperation(payload, operation, user));
+  } catch (error) {
+    console.error("Failed to run bulk operation", error);
+    return toErrorResponse(error, "Unable to run the bulk operation.");
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { backfillMediaInfo } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin();
+    const force = request.nextUrl.searchParams.get("force") === "true";
+    const result = await backfillMediaInfo({ force });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to backfill media info", error);
+    return toErrorResponse(error, "Unable to probe the video library.");
+  }
+}
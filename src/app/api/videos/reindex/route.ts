@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { rebuildVideoIndex } from "@/lib/video-store";
+
+export const runtime = "nodejs";
+
+export async function POST() {
+  try {
+    await requireAdmin();
+    const records = await rebuildVideoIndex();
+    return NextResponse.json({ indexed: records.length });
+  } catch (error) {
+    console.error("Failed to rebuild video index", error);
+    return toErrorResponse(error, "Unable to rebuild the video index.");
+  }
+}
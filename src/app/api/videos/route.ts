@@ -1,45 +1,62 @@
-import { NextResponse } from "next/server";
-import { createVideoRecord, listVideoRecords } from "@/lib/video-store";
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { assertSizeAllowed, getUploadPolicy } from "@/lib/upload-policy";
+import { parseVideoQuery, queryVideoRecords } from "@/lib/video-query";
+import { enqueueVideoProcessing } from "@/lib/video-processing";
+import { createVideoRecord } from "@/lib/video-store";
 
 export const runtime = "nodejs";
 
-export async function GET() {
+const MULTIPART_OVERHEAD_ALLOWANCE = 1024 * 1024;
+
+export async function GET(request: NextRequest) {
   try {
-    const videos = await listVideoRecords();
-    return NextResponse.json(videos);
+    const user = await requireUser("videos:read");
+    const query = parseVideoQuery(request.nextUrl.searchParams);
+    const page = await queryVideoRecords(query, user);
+    return NextResponse.json(page);
   } catch (error) {
     console.error("Failed to list videos", error);
-    return NextResponse.json(
-      { error: "Unable to list uploaded videos." },
-      { status: 500 }
-    );
+    return toErrorResponse(error, "Unable to list uploaded videos.");
   }
 }
 
 export async function POST(request: Request) {
   try {
+    const user = await requireUser("videos:write");
+    const policy = getUploadPolicy();
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > policy.maxFileSize + MULTIPART_OVERHEAD_ALLOWANCE) {
+      assertSizeAllowed(contentLength, policy);
+    }
+
     const formData = await request.formData();
     const file = formData.get("file");
     if (!(file instanceof File)) {
       return NextResponse.json(
-        { error: "A valid video file must be provided." },
+        {
+          error: "A valid video file must be provided.",
+          code: "missing_file",
+          field: "file",
+        },
         { status: 400 }
       );
     }
 
     const video = await createVideoRecord({
       file,
+      ownerId: user.id,
       title: formData.get("title")?.toString(),
       description: formData.get("description")?.toString(),
       tags: formData.get("tags")?.toString(),
     });
 
-    return NextResponse.json(video, { status: 201 });
+    return NextResponse.json(await enqueueVideoProcessing(video), {
+      status: 201,
+    });
   } catch (error) {
     console.error("Failed to upload video", error);
-    return NextResponse.json(
-      { error: "Unable to upload the video." },
-      { status: 500 }
-    );
+    return toErrorResponse(error, "Unable to upload the video.");
   }
 }
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { redeliverWebhook } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+    deliveryId: string;
+  }>;
+};
+
+export async function POST(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("webhooks:manage");
+    const { id, deliveryId } = await context.params;
+    return NextResponse.json(await redeliverWebhook(id, deliveryId, user), {
+      status: 202,
+    });
+  } catch (error) {
+    console.error("Failed to redeliver webhook", error);
+    return toErrorResponse(error, "Unable to redeliver the webhook.");
+  }
+}
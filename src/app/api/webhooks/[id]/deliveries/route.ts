@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { listWebhookDeliveries } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("webhooks:manage");
+    const { id } = await context.params;
+    return NextResponse.json(await listWebhookDeliveries(id, user));
+  } catch (error) {
+    console.error("Failed to list webhook deliveries", error);
+    return toErrorResponse(error, "Unable to list the webhook deliveries.");
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { WebhookPayload } from "@/lib/types";
+import { deleteWebhook, getWebhook, updateWebhook } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{
+    id: string;
+  }>;
+};
+
+export async function GET(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("webhooks:manage");
+    const { id } = await context.params;
+    return NextResponse.json(await getWebhook(id, user));
+  } catch (error) {
+    console.error("Failed to load webhook", error);
+    return toErrorResponse(error, "Unable to load the webhook.");
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("webhooks:manage");
+    const payload = await readJsonBody<WebhookPayload>(request);
+    const { id } = await context.params;
+    return NextResponse.json(await updateWebhook(id, payload, user));
+  } catch (error) {
+    console.error("Failed to update webhook", error);
+    return toErrorResponse(error, "Unable to update the webhook.");
+  }
+}
+
+export async function DELETE(_: NextRequest, context: RouteContext) {
+  try {
+    const user = await requireUser("webhooks:manage");
+    const { id } = await context.params;
+    await deleteWebhook(id, user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete webhook", error);
+    return toErrorResponse(error, "Unable to delete the webhook.");
+  }
+}
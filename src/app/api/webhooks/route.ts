@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { readJsonBody, toErrorResponse } from "@/lib/errors";
+import type { WebhookPayload } from "@/lib/types";
+import { createWebhook, listWebhooks } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const user = await requireUser("webhooks:manage");
+    return NextResponse.json(await listWebhooks(user));
+  } catch (error) {
+    console.error("Failed to list webhooks", error);
+    return toErrorResponse(error, "Unable to list webhooks.");
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser("webhooks:manage");
+    const payload = await readJsonBody<WebhookPayload>(request);
+    return NextResponse.json(await createWebhook(payload, user), {
+      status: 201,
+    });
+  } catch (error) {
+    console.error("Failed to create webhook", error);
+    return toErrorResponse(error, "Unable to create the webhook.");
+  }
+}
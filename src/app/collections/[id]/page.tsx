@@ -0,0 +1,73 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { CollectionPlayer } from "@/components/collection-player";
+import { getCurrentUser } from "@/lib/auth";
+import { RequestError } from "@/lib/errors";
+import { getCollectionWithVideos } from "@/lib/video-collections";
+import { toPosterSource } from "@/lib/video-urls";
+
+export const revalidate = 0;
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function CollectionPage({ params }: PageProps) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+  const collection = await getCollectionWithVideos(id, user).catch((error) => {
+    if (error instanceof RequestError && error.status === 404) notFound();
+    throw error;
+  });
+  const cover = collection.videos.find(
+    (video) => video.id === collection.coverVideoId
+  );
+  const coverSrc = cover ? toPosterSource(cover) : null;
+
+  return (
+    <main className="min-h-screen bg-neutral-950 px-6 py-10 text-neutral-100 md:px-12">
+      <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+        <Link
+          href="/"
+          className="text-sm text-neutral-400 hover:text-neutral-200"
+        >
+          ← Back to library
+        </Link>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+          {coverSrc && (
+            <div
+              role="img"
+              aria-label={`Cover for ${collection.title}`}
+              className="aspect-video w-48 shrink-0 rounded-xl bg-neutral-900 bg-cover bg-center"
+              style={{ backgroundImage: `url(${coverSrc})` }}
+            />
+          )}
+          <div className="flex flex-col gap-2">
+            <h1 className="text-2xl font-semibold">{collection.title}</h1>
+            <p className="text-sm text-neutral-400">
+              {collection.videos.length} video
+              {collection.videos.length === 1 ? "" : "s"}
+            </p>
+            {collection.description && (
+              <p className="whitespace-pre-line text-sm text-neutral-300">
+                {collection.description}
+              </p>
+            )}
+          </div>
+        </div>
+        {collection.videos.length === 0 ? (
+          <p className="text-sm text-neutral-400">
+            This collection has no videos yet.
+          </p>
+        ) : (
+          <CollectionPlayer videos={collection.videos} />
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,68 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { EmbedPlayer } from "@/components/embed-player";
+import { RequestError } from "@/lib/errors";
+import { startVideoPlayback } from "@/lib/video-access";
+import {
+  toCaptionTracks,
+  toHlsSource,
+  toPosterSource,
+  toStreamPath,
+} from "@/lib/video-urls";
+
+export const revalidate = 0;
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  robots: { index: false },
+};
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const readFlag = (value: string | string[] | undefined) =>
+  value === "1" || value === "true";
+
+const readStart = (value: string | string[] | undefined) => {
+  const seconds = Number(typeof value === "string" ? value : 0);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 0;
+};
+
+export default async function EmbedPage({ params, searchParams }: PageProps) {
+  const { id } = await params;
+  const query = await searchParams;
+  const token = typeof query.token === "string" ? query.token : null;
+
+  let playback;
+  try {
+    playback = await startVideoPlayback(id, token);
+  } catch (error) {
+    if (!(error instanceof RequestError)) throw error;
+    if (error.status === 404) notFound();
+    return (
+      <main className="flex h-screen items-center justify-center bg-black px-6 text-sm text-neutral-300">
+        {error.message}
+      </main>
+    );
+  }
+
+  const { record, grant } = playback;
+  return (
+    <main className="h-screen w-screen overflow-hidden bg-black">
+      <EmbedPlayer
+        videoId={record.id}
+        src={toStreamPath(record.id, grant)}
+        hlsSrc={toHlsSource(record, grant)}
+        posterSrc={toPosterSource(record, grant)}
+        captions={toCaptionTracks(record, grant)}
+        title={record.title}
+        start={readStart(query.t)}
+        autoplay={readFlag(query.autoplay)}
+        muted={readFlag(query.muted)}
+        loop={readFlag(query.loop)}
+      />
+    </main>
+  );
+}
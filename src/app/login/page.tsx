@@ -0,0 +1,19 @@
+import { redirect } from "next/navigation";
+import { SignInForm } from "@/components/sign-in-form";
+import { getCurrentUser } from "@/lib/auth";
+import { isSignupAllowed } from "@/lib/users";
+
+export const revalidate = 0;
+export const dynamic = "force-dynamic";
+
+export default async function Login() {
+  if (await getCurrentUser()) {
+    redirect("/");
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-100 via-white to-indigo-100 px-6 py-12 text-neutral-900">
+      <SignInForm allowSignup={await isSignupAllowed()} />
+    </main>
+  );
+}
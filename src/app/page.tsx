@@ -1,19 +1,47 @@
+import { redirect } from "next/navigation";
 import { Suspense } from "react";
+import { ApiKeyManager } from "@/components/api-key-manager";
 import { VideoManager } from "@/components/video-manager";
-import { listVideoRecords } from "@/lib/video-store";
+import { listApiKeys } from "@/lib/api-keys";
+import { getCurrentUser } from "@/lib/auth";
+import { isFfmpegAvailable } from "@/lib/ffmpeg";
+import { getUploadPolicy } from "@/lib/upload-policy";
+import type { VideoPage } from "@/lib/types";
+import { parseVideoQuery, queryVideoRecords } from "@/lib/video-query";
 
 export const revalidate = 0;
 export const dynamic = "force-dynamic";
 
 export default async function Home() {
-  const videos = await listVideoRecords().catch(() => []);
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const emptyPage: VideoPage = {
+    items: [],
+    nextCursor: null,
+    total: 0,
+    totalSize: 0,
+  };
+  const initialPage = await queryVideoRecords(
+    parseVideoQuery(new URLSearchParams()),
+    user
+  ).catch(() => emptyPage);
+  const apiKeys = await listApiKeys(user).catch(() => []);
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-slate-100 via-white to-indigo-100 px-6 py-12 text-neutral-900 md:px-12">
       <div className="mx-auto w-full max-w-6xl">
         <Suspense fallback={<p className="text-sm text-neutral-500">Loading video manager…</p>}>
-          <VideoManager initialVideos={videos} />
+          <VideoManager
+            initialPage={initialPage}
+            user={user}
+            uploadPolicy={getUploadPolicy()}
+            canTranscode={await isFfmpegAvailable()}
+          />
         </Suspense>
+        <ApiKeyManager initialKeys={apiKeys} />
       </div>
     </main>
   );
@@ -0,0 +1,180 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { VideoPlayer } from "@/components/video-player";
+import { RequestError } from "@/lib/errors";
+import { getSiteUrl } from "@/lib/site-url";
+import type { PersistedVideoRecord } from "@/lib/types";
+import { getUser } from "@/lib/users";
+import { startVideoPlayback } from "@/lib/video-access";
+import {
+  toCaptionTracks,
+  toEmbedPath,
+  toHlsSource,
+  toPosterSource,
+  toStreamPath,
+  toWatchPath,
+} from "@/lib/video-urls";
+
+export const revalidate = 0;
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ token?: string | string[] }>;
+};
+
+type WatchResult =
+  | { record: PersistedVideoRecord; grant: string | null; error?: undefined }
+  | { record?: undefined; grant?: undefined; error: RequestError };
+
+const loadVideo = cache(
+  async (id: string, token: string | null): Promise<WatchResult> => {
+    try {
+      return await startVideoPlayback(id, token);
+    } catch (error) {
+      if (error instanceof RequestError) return { error };
+      throw error;
+    }
+  }
+);
+
+const readRequest = async ({ params, searchParams }: PageProps) => {
+  const { id } = await params;
+  const { token } = await searchParams;
+  return { id, token: typeof token === "string" ? token : null };
+};
+
+export async function generateMetadata(props: PageProps): Promise<Metadata> {
+  const { id, token } = await readRequest(props);
+  const { record, grant } = await loadVideo(id, token);
+  if (!record) {
+    return { title: "Video unavailable", robots: { index: false } };
+  }
+
+  const siteUrl = await getSiteUrl();
+  const watchUrl = `${siteUrl}${toWatchPath(record.id, token)}`;
+  const streamUrl = `${siteUrl}${toStreamPath(record.id, grant)}`;
+  const posterSrc = toPosterSource(record, grant);
+  const description =
+    record.description.slice(0, 200) || `Watch ${record.title}.`;
+
+  return {
+    metadataBase: new URL(siteUrl),
+    title: record.title,
+    description,
+    robots: { index: record.visibility === "public" && !token },
+    alternates: {
+      canonical: watchUrl,
+      types: {
+        "application/json+oembed": `/api/oembed?url=${encodeURIComponent(
+          watchUrl
+        )}`,
+      },
+    },
+    openGraph: {
+      type: "video.other",
+      url: watchUrl,
+      title: record.title,
+      description,
+      ...(posterSrc
+        ? {
+            images: [
+              {
+                url: `${siteUrl}${posterSrc}`,
+                width: record.media?.width,
+                height: record.media?.height,
+              },
+            ],
+          }
+        : {}),
+      videos: [
+        {
+          url: streamUrl,
+          secureUrl: streamUrl.startsWith("https:") ? streamUrl : undefined,
+          type: record.contentType,
+          width: record.media?.width,
+          height: record.media?.height,
+        },
+      ],
+    },
+    twitter: {
+      card: "player",
+      title: record.title,
+      description,
+      players: {
+        playerUrl: `${siteUrl}${toEmbedPath(record.id, token)}`,
+        streamUrl,
+        width: record.media?.width ?? 1280,
+        height: record.media?.height ?? 720,
+      },
+    },
+  };
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  share_link_expired: "This share link has expired.",
+  share_link_exhausted: "This share link has reached its view limit.",
+  invalid_share_link: "This share link is invalid or has been revoked.",
+};
+
+export default async function WatchPage(props: PageProps) {
+  const { id, token } = await readRequest(props);
+  const { record, grant, error } = await loadVideo(id, token);
+  if (!record) {
+    if (error.status === 404) notFound();
+    return (
+      <main className="flex min-h-screen items-center justify-center bg-neutral-950 px-6 text-neutral-200">
+        <p className="text-lg font-medium">
+          {ERROR_MESSAGES[`${error.details.code}`] ?? error.message}
+        </p>
+      </main>
+    );
+  }
+
+  const owner = await getUser(record.ownerId);
+  return (
+    <main className="min-h-screen bg-neutral-950 px-6 py-10 text-neutral-100 md:px-12">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-6">
+        <div className="overflow-hidden rounded-2xl bg-black shadow-lg">
+          <VideoPlayer
+            controls
+            playsInline
+            preload="metadata"
+            className="aspect-video w-full"
+            src={toStreamPath(record.id, grant)}
+            hlsSrc={toHlsSource(record, grant)}
+            poster={toPosterSource(record, grant) ?? undefined}
+            captions={toCaptionTracks(record, grant)}
+          />
+        </div>
+        <div className="flex flex-col gap-3">
+          <h1 className="text-2xl font-semibold">{record.title}</h1>
+          <p className="text-sm text-neutral-400">
+            {owner ? `${owner.username} · ` : ""}
+            {new Intl.DateTimeFormat("en", { dateStyle: "medium" }).format(
+              new Date(record.createdAt)
+            )}
+          </p>
+          {record.description && (
+            <p className="whitespace-pre-line text-sm text-neutral-300">
+              {record.description}
+            </p>
+          )}
+          {record.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {record.tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="rounded-full bg-neutral-800 px-3 py-1 text-xs font-medium text-neutral-300"
+                >
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import type { ApiKeyScope, ApiKeySummary } from "@/lib/types";
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "videos:read": "Read videos",
+  "videos:write": "Upload and edit videos",
+  "videos:delete": "Delete videos",
+  "webhooks:manage": "Manage webhooks",
+};
+
+const EXPIRY_OPTIONS = {
+  "": "Never expires",
+  "30": "Expires in 30 days",
+  "90": "Expires in 90 days",
+  "365": "Expires in 1 year",
+} as const;
+
+type ExpiryOption = keyof typeof EXPIRY_OPTIONS;
+
+const formatDate = (value: string | null, fallback: string) =>
+  value
+    ? new Intl.DateTimeFormat("en", {
+        dateStyle: "medium",
+        timeStyle: "short",
+      }).format(new Date(value))
+    : fallback;
+
+type Props = {
+  initialKeys: ApiKeySummary[];
+};
+
+export const ApiKeyManager = ({ initialKeys }: Props) => {
+  const [keys, setKeys] = useState(initialKeys);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["videos:read"]);
+  const [expiry, setExpiry] = useState<ExpiryOption>("90");
+  const [creating, setCreating] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingRevoke, setPendingRevoke] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiKeyScope) =>
+    setScopes((prev) =>
+      prev.includes(scope)
+        ? prev.filter((value) => value !== scope)
+        : [...prev, scope]
+    );
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresAt: expiry
+            ? new Date(
+                Date.now() + Number(expiry) * 24 * 60 * 60 * 1000
+              ).toISOString()
+            : null,
+        }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to create the API key.");
+      }
+      const created: { key: ApiKeySummary; token: string } =
+        await response.json();
+      setKeys((prev) => [created.key, ...prev]);
+      setCreatedToken(created.token);
+      setName("");
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unexpected error");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (id: string) => {
+    setPendingRevoke(id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/keys/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to revoke the API key.");
+      }
+      setKeys((prev) => prev.filter((key) => key.id !== id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unexpected error");
+    } finally {
+      setPendingRevoke(null);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-neutral-200 bg-white/70 p-8 shadow-sm backdrop-blur-sm">
+      <h2 className="text-xl font-semibold text-neutral-900">API keys</h2>
+      <p className="text-sm text-neutral-600">
+        Authenticate scripts against the REST API with{" "}
+        <code className="rounded bg-neutral-100 px-1">
+          Authorization: Bearer &lt;key&gt;
+        </code>
+        .
+      </p>
+
+      <form
+        className="mt-6 flex flex-col gap-4 lg:flex-row lg:items-end"
+        onSubmit={handleCreate}
+      >
+        <label className="flex flex-1 flex-col gap-2 text-sm font-medium text-neutral-700">
+          Name
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="CI uploader"
+            maxLength={100}
+            className="rounded-xl border border-neutral-300 px-4 py-2.5 text-sm text-neutral-900 shadow-inner focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+        </label>
+        <fieldset className="flex flex-wrap gap-3 text-sm text-neutral-700">
+          {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map((scope) => (
+            <label key={scope} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </fieldset>
+        <select
+          value={expiry}
+          onChange={(event) => setExpiry(event.target.value as ExpiryOption)}
+          className="rounded-xl border border-neutral-300 bg-white px-3 py-2.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        >
+          {Object.entries(EXPIRY_OPTIONS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={creating || scopes.length === 0}
+          className="rounded-xl bg-indigo-600 px-4 py-2.5 text-sm font-semibold text-white shadow hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
+        >
+          {creating ? "Creating…" : "Create key"}
+        </button>
+      </form>
+
+      {error && <p className="mt-4 text-sm font-medium text-red-600">{error}</p>}
+
+      {createdToken && (
+        <div className="mt-6 flex flex-col gap-3 rounded-2xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-900">
+          <p className="font-medium">
+            Copy this key now. It will not be shown again.
+          </p>
+          <code className="break-all rounded-lg bg-white px-3 py-2 text-xs text-neutral-900">
+            {createdToken}
+          </code>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                navigator.clipboard
+                  .writeText(createdToken)
+                  .catch(() =>
+                    alert("Copy to clipboard is not available in this browser.")
+                  );
+              }}
+              className="rounded-lg border border-emerald-300 px-3 py-1.5 text-sm font-medium hover:bg-emerald-100"
+            >
+              Copy key
+            </button>
+            <button
+              type="button"
+              onClick={() => setCreatedToken(null)}
+              className="rounded-lg px-3 py-1.5 text-sm font-medium hover:bg-emerald-100"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {keys.length === 0 ? (
+        <p className="mt-6 text-sm text-neutral-500">No API keys yet.</p>
+      ) : (
+        <ul className="mt-6 divide-y divide-neutral-200 rounded-2xl border border-neutral-200 bg-white">
+          {keys.map((key) => {
+            const expired =
+              key.expiresAt !== null &&
+              new Date(key.expiresAt).getTime() <= Date.now();
+            return (
+              <li
+                key={key.id}
+                className="flex flex-col gap-2 p-4 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="flex flex-col gap-1">
+                  <p className="text-sm font-medium text-neutral-900">
+                    {key.name}{" "}
+                    <code className="text-xs text-neutral-500">
+                      {key.prefix}…
+                    </code>
+                    {expired && (
+                      <span className="ml-2 rounded-md bg-red-50 px-2 py-0.5 text-xs font-medium text-red-600">
+                        Expired
+                      </span>
+                    )}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {key.scopes.map((scope) => (
+                      <span
+                        key={scope}
+                        className="rounded-md bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-600"
+                      >
+                        {scope}
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-neutral-500">
+                    Created {formatDate(key.createdAt, "")} · Last used{" "}
+                    {formatDate(key.lastUsedAt, "never")} ·{" "}
+                    {key.expiresAt
+                      ? `${expired ? "Expired" : "Expires"} ${formatDate(key.expiresAt, "")}`
+                      : "No expiry"}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => revoke(key.id)}
+                  disabled={pendingRevoke === key.id}
+                  className="rounded-lg border border-red-200 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {pendingRevoke === key.id ? "Revoking…" : "Revoke"}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
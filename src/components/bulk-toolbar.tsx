@@ -0,0 +1,226 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import type {
+  BulkItemResult,
+  BulkOperation,
+  BulkOperationResult,
+  VideoVisibility,
+} from "@/lib/types";
+
+type BulkAction = "addTags" | "removeTags" | "visibility" | "delete";
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  addTags: "Add tags",
+  removeTags: "Remove tags",
+  visibility: "Set visibility",
+  delete: "Move to Trash",
+};
+
+const VISIBILITY_OPTIONS: VideoVisibility[] = ["private", "unlisted", "public"];
+
+const toTags = (value: string) =>
+  value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+type Props = {
+  selectedCount: number;
+  loadedCount: number;
+  matchingCount: number;
+  allMatching: boolean;
+  pending: boolean;
+  result: BulkOperationResult | null;
+  titleFor: (id: string) => string;
+  onSelectLoaded: () => void;
+  onSelectMatching: () => void;
+  onClear: () => void;
+  onRun: (operation: BulkOperation) => Promise<void>;
+};
+
+export const BulkToolbar = ({
+  selectedCount,
+  loadedCount,
+  matchingCount,
+  allMatching,
+  pending,
+  result,
+  titleFor,
+  onSelectLoaded,
+  onSelectMatching,
+  onClear,
+  onRun,
+}: Props) => {
+  const [action, setAction] = useState<BulkAction>("addTags");
+  const [tags, setTags] = useState("");
+  const [visibility, setVisibility] = useState<VideoVisibility>("private");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const count = allMatching ? matchingCount : selectedCount;
+  const failures =
+    result?.results.filter(
+      (item): item is Extract<BulkItemResult, { ok: false }> => !item.ok
+    ) ?? [];
+
+  const toOperation = (): BulkOperation | null => {
+    switch (action) {
+      case "addTags":
+      case "removeTags":
+        return toTags(tags).length > 0
+          ? { type: action, tags: toTags(tags) }
+          : null;
+      case "visibility":
+        return { type: "setField", field: "visibility", value: visibility };
+      case "delete":
+        return { type: "delete" };
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const operation = toOperation();
+    if (!operation) return;
+    if (operation.type === "delete" && !confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+    setConfirmingDelete(false);
+    await onRun(operation);
+    setTags("");
+  };
+
+  if (count === 0 && !result) {
+    return (
+      <div className="mt-6 flex items-center gap-3 text-sm text-neutral-500">
+        <button
+          type="button"
+          onClick={onSelectLoaded}
+          disabled={loadedCount === 0}
+          className="rounded-lg border border-neutral-300 px-3 py-1.5 font-medium text-neutral-700 hover:bg-neutral-100 disabled:opacity-60"
+        >
+          Select all
+        </button>
+        <span>or tick videos below to change several at once.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sticky top-4 z-10 mt-6 flex flex-col gap-3 rounded-2xl border border-indigo-200 bg-indigo-50/95 p-4 text-sm shadow-sm backdrop-blur">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium text-indigo-900">
+          {allMatching
+            ? `All ${matchingCount} matching videos selected`
+            : `${selectedCount} selected`}
+        </span>
+        {!allMatching && matchingCount > selectedCount && (
+          <button
+            type="button"
+            onClick={onSelectMatching}
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Select all {matchingCount} matching
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            setConfirmingDelete(false);
+            onClear();
+          }}
+          className="font-medium text-neutral-600 hover:text-neutral-800"
+        >
+          {count > 0 ? "Clear selection" : "Dismiss"}
+        </button>
+      </div>
+      {count > 0 && (
+        <form
+          onSubmit={handleSubmit}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <select
+            value={action}
+            onChange={(event) => {
+              setAction(event.target.value as BulkAction);
+              setConfirmingDelete(false);
+            }}
+            aria-label="Bulk action"
+            className="rounded-lg border border-neutral-300 bg-white px-3 py-1.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          >
+            {(Object.keys(ACTION_LABELS) as BulkAction[]).map((key) => (
+              <option key={key} value={key}>
+                {ACTION_LABELS[key]}
+              </option>
+            ))}
+          </select>
+          {(action === "addTags" || action === "removeTags") && (
+            <input
+              value={tags}
+              onChange={(event) => setTags(event.target.value)}
+              placeholder="Comma-separated tags"
+              aria-label="Tags"
+              className="min-w-0 flex-1 rounded-lg border border-neutral-300 bg-white px-3 py-1.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+          )}
+          {action === "visibility" && (
+            <select
+              value={visibility}
+              onChange={(event) =>
+                setVisibility(event.target.value as VideoVisibility)
+              }
+              aria-label="Visibility"
+              className="rounded-lg border border-neutral-300 bg-white px-3 py-1.5 text-sm capitalize text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            >
+              {VISIBILITY_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            type="submit"
+            disabled={pending || !toOperation()}
+            className={`rounded-lg px-3 py-1.5 font-medium text-white disabled:cursor-not-allowed disabled:opacity-60 ${
+              action === "delete"
+                ? "bg-red-600 hover:bg-red-500"
+                : "bg-indigo-600 hover:bg-indigo-500"
+            }`}
+          >
+            {pending
+              ? "Applying…"
+              : confirmingDelete
+                ? `Confirm: move ${count} to Trash`
+                : `Apply to ${count}`}
+          </button>
+          {confirmingDelete && (
+            <button
+              type="button"
+              onClick={() => setConfirmingDelete(false)}
+              className="rounded-lg border border-neutral-300 bg-white px-3 py-1.5 font-medium text-neutral-700 hover:bg-neutral-100"
+            >
+              Cancel
+            </button>
+          )}
+        </form>
+      )}
+      {result && (
+        <div className="flex flex-col gap-1 text-xs">
+          <p className={failures.length > 0 ? "text-amber-800" : "text-emerald-700"}>
+            {result.succeeded} succeeded
+            {failures.length > 0 ? `, ${failures.length} failed` : ""}.
+          </p>
+          {failures.length > 0 && (
+            <ul className="flex flex-col gap-0.5 text-red-700">
+              {failures.map((item) => (
+                <li key={item.id}>
+                  {titleFor(item.id)}: {item.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
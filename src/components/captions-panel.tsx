@@ -0,0 +1,150 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import type { VideoCaption, VideoRecord } from "@/lib/types";
+
+type Props = {
+  video: VideoRecord;
+  onChange: (video: VideoRecord) => void;
+};
+
+export const CaptionsPanel = ({ video, onChange }: Props) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [language, setLanguage] = useState("en");
+  const [label, setLabel] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [pendingRemove, setPendingRemove] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const captions = video.captions ?? [];
+
+  const handleUpload = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    if (!file) {
+      setError("Choose a WebVTT or SRT file first.");
+      return;
+    }
+    setUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("language", language);
+      formData.append("label", label);
+      const response = await fetch(`/api/videos/${video.id}/captions`, {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to upload the captions.");
+      }
+      const created: VideoCaption = await response.json();
+      onChange({ ...video, captions: [...captions, created] });
+      setFile(null);
+      setLabel("");
+      form.reset();
+    } catch (uploadError) {
+      setError(
+        uploadError instanceof Error
+          ? uploadError.message
+          : "Unable to upload the captions."
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const remove = async (captionId: string) => {
+    setPendingRemove(captionId);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/videos/${video.id}/captions/${captionId}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to delete the captions.");
+      }
+      onChange({
+        ...video,
+        captions: captions.filter((caption) => caption.id !== captionId),
+      });
+    } catch (removeError) {
+      setError(
+        removeError instanceof Error
+          ? removeError.message
+          : "Unable to delete the captions."
+      );
+    } finally {
+      setPendingRemove(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-neutral-50 p-3">
+      <p className="text-sm font-medium text-neutral-700">Captions</p>
+      {captions.length === 0 ? (
+        <p className="text-xs text-neutral-500">No caption tracks yet.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {captions.map((caption) => (
+            <li
+              key={caption.id}
+              className="flex items-center justify-between gap-2 rounded-lg bg-white px-3 py-2 text-xs text-neutral-600"
+            >
+              <span>
+                <span className="font-medium text-neutral-900">
+                  {caption.label}
+                </span>{" "}
+                · {caption.language} · {caption.cueCount} cues
+              </span>
+              <button
+                type="button"
+                onClick={() => remove(caption.id)}
+                disabled={pendingRemove === caption.id}
+                className="rounded-md bg-red-50 px-2 py-1 font-medium text-red-600 hover:bg-red-100 disabled:opacity-60"
+              >
+                {pendingRemove === caption.id ? "Removing…" : "Remove"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form
+        className="flex flex-wrap items-center gap-2"
+        onSubmit={handleUpload}
+      >
+        <input
+          type="file"
+          accept=".vtt,.srt,text/vtt,application/x-subrip"
+          onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+          className="w-full text-xs text-neutral-600 file:mr-3 file:rounded-md file:border-0 file:bg-indigo-50 file:px-2 file:py-1 file:text-xs file:font-medium file:text-indigo-600"
+        />
+        <input
+          value={language}
+          onChange={(event) => setLanguage(event.target.value)}
+          placeholder="Language (e.g. en)"
+          aria-label="Caption language"
+          className="w-24 rounded-lg border border-neutral-300 px-2 py-1.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        <input
+          value={label}
+          onChange={(event) => setLabel(event.target.value)}
+          placeholder="Label (optional)"
+          aria-label="Caption label"
+          maxLength={80}
+          className="min-w-0 flex-1 rounded-lg border border-neutral-300 px-2 py-1.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        <button
+          type="submit"
+          disabled={uploading}
+          className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
+        >
+          {uploading ? "Uploading…" : "Add captions"}
+        </button>
+      </form>
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
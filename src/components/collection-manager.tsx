@@ -0,0 +1,282 @@
+"use client";
+
+import Link from "next/link";
+import { type FormEvent, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import type { CollectionPayload, VideoCollection } from "@/lib/types";
+import { toCollectionPath } from "@/lib/video-urls";
+
+const inputClassName =
+  "rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200";
+
+type CollectionFields = {
+  title: string;
+  description: string;
+};
+
+const emptyFields: CollectionFields = { title: "", description: "" };
+
+type Props = {
+  collections: VideoCollection[] | null;
+  activeId: string;
+  onChange: () => void;
+  onShow: (id: string) => void;
+};
+
+export const CollectionManager = ({
+  collections,
+  activeId,
+  onChange,
+  onShow,
+}: Props) => {
+  const [creating, setCreating] = useState<CollectionFields>(emptyFields);
+  const [editing, setEditing] = useState<
+    (CollectionFields & { id: string }) | null
+  >(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(
+    null
+  );
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (
+    input: string,
+    method: string,
+    body: CollectionPayload | null,
+    fallback: string
+  ) => {
+    setPending(true);
+    setError(null);
+    try {
+      const response = await fetch(input, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        throw await readApiError(response, fallback);
+      }
+      onChange();
+      return true;
+    } catch (sendError) {
+      setError(sendError instanceof Error ? sendError.message : fallback);
+      return false;
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (
+      await send(
+        "/api/collections",
+        "POST",
+        creating,
+        "Unable to create the collection."
+      )
+    ) {
+      setCreating(emptyFields);
+    }
+  };
+
+  const handleSave = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editing) return;
+    if (
+      await send(
+        `/api/collections/${editing.id}`,
+        "PATCH",
+        { title: editing.title, description: editing.description },
+        "Unable to update the collection."
+      )
+    ) {
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setConfirmingDelete(null);
+    if (
+      (await send(
+        `/api/collections/${id}`,
+        "DELETE",
+        null,
+        "Unable to delete the collection."
+      )) &&
+      id === activeId
+    ) {
+      onShow("");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <form
+        onSubmit={handleCreate}
+        className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)_auto]"
+      >
+        <input
+          value={creating.title}
+          onChange={(event) =>
+            setCreating((prev) => ({ ...prev, title: event.target.value }))
+          }
+          placeholder="Collection title"
+          aria-label="Collection title"
+          maxLength={200}
+          className={inputClassName}
+        />
+        <input
+          value={creating.description}
+          onChange={(event) =>
+            setCreating((prev) => ({
+              ...prev,
+              description: event.target.value,
+            }))
+          }
+          placeholder="Description (optional)"
+          aria-label="Collection description"
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={pending || !creating.title.trim()}
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
+        >
+          Create Collection
+        </button>
+      </form>
+
+      {collections && collections.length === 0 ? (
+        <p className="text-sm text-neutral-500">
+          No collections yet. Create one, then add videos from the library.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {(collections ?? []).map((collection) => (
+            <li
+              key={collection.id}
+              className="rounded-lg border border-neutral-200 bg-white px-4 py-3 text-sm"
+            >
+              {editing?.id === collection.id ? (
+                <form onSubmit={handleSave} className="flex flex-col gap-2">
+                  <input
+                    value={editing.title}
+                    onChange={(event) =>
+                      setEditing({ ...editing, title: event.target.value })
+                    }
+                    aria-label={`Title for ${collection.title}`}
+                    maxLength={200}
+                    className={inputClassName}
+                    autoFocus
+                  />
+                  <textarea
+                    value={editing.description}
+                    onChange={(event) =>
+                      setEditing({
+                        ...editing,
+                        description: event.target.value,
+                      })
+                    }
+                    aria-label={`Description for ${collection.title}`}
+                    rows={2}
+                    className={inputClassName}
+                  />
+                  <div className="flex gap-3">
+                    <button
+                      type="submit"
+                      disabled={pending}
+                      className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditing(null)}
+                      className="text-xs font-medium text-neutral-500 hover:text-neutral-700"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium text-neutral-900">
+                      {collection.title}
+                    </p>
+                    <p className="truncate text-xs text-neutral-500">
+                      {collection.videoIds.length} video
+                      {collection.videoIds.length === 1 ? "" : "s"}
+                      {collection.description
+                        ? ` · ${collection.description}`
+                        : ""}
+                    </p>
+                  </div>
+                  <Link
+                    href={toCollectionPath(collection.id)}
+                    className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Play
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onShow(activeId === collection.id ? "" : collection.id)
+                    }
+                    className="text-xs font-medium text-neutral-600 hover:text-neutral-800"
+                  >
+                    {activeId === collection.id
+                      ? "Show All Videos"
+                      : "Show in Library"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setEditing({
+                        id: collection.id,
+                        title: collection.title,
+                        description: collection.description,
+                      })
+                    }
+                    className="text-xs font-medium text-neutral-600 hover:text-neutral-800"
+                  >
+                    Edit
+                  </button>
+                  {confirmingDelete === collection.id ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(collection.id)}
+                        disabled={pending}
+                        className="text-xs font-medium text-red-600 hover:text-red-500"
+                      >
+                        Confirm Delete
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmingDelete(null)}
+                        className="text-xs font-medium text-neutral-500 hover:text-neutral-700"
+                      >
+                        Keep
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingDelete(collection.id)}
+                      className="text-xs font-medium text-red-600 hover:text-red-500"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
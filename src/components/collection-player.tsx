@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { VideoPlayer } from "@/components/video-player";
+import { formatTimecode } from "@/lib/timecode";
+import type { VideoRecord } from "@/lib/types";
+import {
+  toCaptionTracks,
+  toHlsSource,
+  toPosterSource,
+  toStreamPath,
+} from "@/lib/video-urls";
+
+type Props = {
+  videos: VideoRecord[];
+};
+
+export const CollectionPlayer = ({ videos }: Props) => {
+  const [index, setIndex] = useState(0);
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  const [started, setStarted] = useState(false);
+  const current = videos[Math.min(index, videos.length - 1)];
+
+  const play = (next: number) => {
+    setIndex(next);
+    setStarted(true);
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_20rem]">
+      <div className="flex flex-col gap-4">
+        <div className="overflow-hidden rounded-2xl bg-black shadow-lg">
+          <VideoPlayer
+            key={current.id}
+            controls
+            playsInline
+            autoPlay={started}
+            preload="metadata"
+            className="aspect-video w-full"
+            src={toStreamPath(current.id)}
+            hlsSrc={toHlsSource(current)}
+            poster={toPosterSource(current) ?? undefined}
+            captions={toCaptionTracks(current)}
+            onPlay={() => setStarted(true)}
+            onEnded={() => {
+              if (autoAdvance && index < videos.length - 1) play(index + 1);
+            }}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <h2 className="text-xl font-semibold">{current.title}</h2>
+          {current.description && (
+            <p className="whitespace-pre-line text-sm text-neutral-300">
+              {current.description}
+            </p>
+          )}
+        </div>
+      </div>
+      <aside className="flex flex-col gap-3">
+        <div className="flex items-center justify-between text-sm text-neutral-400">
+          <span>
+            {index + 1} / {videos.length}
+          </span>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={autoAdvance}
+              onChange={(event) => setAutoAdvance(event.target.checked)}
+            />
+            Autoplay next
+          </label>
+        </div>
+        <ol className="flex flex-col gap-1">
+          {videos.map((video, position) => (
+            <li key={video.id}>
+              <button
+                type="button"
+                onClick={() => play(position)}
+                aria-current={position === index}
+                className={`flex w-full items-center gap-3 rounded-lg px-3 py-2 text-left text-sm ${
+                  position === index
+                    ? "bg-neutral-800 text-white"
+                    : "text-neutral-300 hover:bg-neutral-900"
+                }`}
+              >
+                <span className="w-5 text-right text-xs text-neutral-500">
+                  {position + 1}
+                </span>
+                <span className="flex-1 truncate">{video.title}</span>
+                <span className="text-xs text-neutral-500">
+                  {video.media?.durationSeconds !== undefined &&
+                    formatTimecode(Math.round(video.media.durationSeconds))}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { CaptionTrack } from "@/lib/types";
+import { VideoPlayer } from "@/components/video-player";
+
+const MESSAGE_SOURCE = "video-library";
+
+type EmbedCommand =
+  | { command: "play" }
+  | { command: "pause" }
+  | { command: "seek"; time: number }
+  | { command: "mute" }
+  | { command: "unmute" }
+  | { command: "getState" };
+
+type Props = {
+  videoId: string;
+  src: string;
+  hlsSrc: string | null;
+  posterSrc: string | null;
+  captions: CaptionTrack[];
+  title: string;
+  start: number;
+  autoplay: boolean;
+  muted: boolean;
+  loop: boolean;
+};
+
+export const EmbedPlayer = ({
+  videoId,
+  src,
+  hlsSrc,
+  posterSrc,
+  captions,
+  title,
+  start,
+  autoplay,
+  muted,
+  loop,
+}: Props) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const post = (event: string) => {
+      window.parent.postMessage(
+        {
+          source: MESSAGE_SOURCE,
+          event,
+          videoId,
+          currentTime: video.currentTime,
+          duration: Number.isFinite(video.duration) ? video.duration : null,
+          paused: video.paused,
+          muted: video.muted,
+        },
+        "*"
+      );
+    };
+
+    const forwarded = ["play", "pause", "timeupdate", "ended", "seeked"];
+    const listeners = forwarded.map((event) => {
+      const listener = () => post(event);
+      video.addEventListener(event, listener);
+      return [event, listener] as const;
+    });
+
+    const handleLoaded = () => {
+      if (start > 0) video.currentTime = start;
+      post("ready");
+    };
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      handleLoaded();
+    } else {
+      video.addEventListener("loadedmetadata", handleLoaded, { once: true });
+    }
+
+    const handleMessage = (message: MessageEvent) => {
+      const data = message.data as (EmbedCommand & { target?: string }) | null;
+      if (!data || typeof data !== "object" || data.target !== MESSAGE_SOURCE) {
+        return;
+      }
+      switch (data.command) {
+        case "play":
+          video.play().catch(() => post("error"));
+          break;
+        case "pause":
+          video.pause();
+          break;
+        case "seek":
+          if (Number.isFinite(data.time)) {
+            video.currentTime = Math.max(0, data.time);
+          }
+          break;
+        case "mute":
+          video.muted = true;
+          break;
+        case "unmute":
+          video.muted = false;
+          break;
+        case "getState":
+          post("state");
+          break;
+      }
+    };
+    window.addEventListener("message", handleMessage);
+
+    return () => {
+      listeners.forEach(([event, listener]) =>
+        video.removeEventListener(event, listener)
+      );
+      video.removeEventListener("loadedmetadata", handleLoaded);
+      window.removeEventListener("message", handleMessage);
+    };
+  }, [videoId, start]);
+
+  return (
+    <VideoPlayer
+      videoRef={videoRef}
+      src={src}
+      hlsSrc={hlsSrc}
+      poster={posterSrc ?? undefined}
+      captions={captions}
+      title={title}
+      controls
+      playsInline
+      preload="metadata"
+      autoPlay={autoplay}
+      muted={muted || autoplay}
+      loop={loop}
+      className="h-full w-full bg-black object-contain"
+    />
+  );
+};
@@ -0,0 +1,134 @@
+"use client";
+
+import { type ChangeEvent, useRef, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import { captureVideoFrame } from "@/lib/frame-capture";
+import type { VideoRecord } from "@/lib/types";
+import { toPosterSource, toStreamPath } from "@/lib/video-urls";
+import { VideoPlayer } from "@/components/video-player";
+
+type Props = {
+  video: VideoRecord;
+  onChange: (video: VideoRecord) => void;
+};
+
+export const PosterPicker = ({ video, onChange }: Props) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (task: () => Promise<Response>, fallback: string) => {
+    setPending(true);
+    setError(null);
+    try {
+      const response = await task();
+      if (!response.ok) {
+        throw await readApiError(response, fallback);
+      }
+      onChange(await response.json());
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : fallback);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const uploadPoster = (body: Blob, time?: number) =>
+    run(
+      () =>
+        fetch(
+          `/api/videos/${video.id}/poster${
+            time === undefined ? "" : `?time=${time.toFixed(3)}`
+          }`,
+          {
+            method: "PUT",
+            headers: { "Content-Type": body.type || "application/octet-stream" },
+            body,
+          }
+        ),
+      "Unable to save the poster."
+    );
+
+  const captureCurrentFrame = async () => {
+    const player = videoRef.current;
+    if (!player) return;
+    try {
+      await uploadPoster(await captureVideoFrame(player), player.currentTime);
+    } catch (captureError) {
+      setError(
+        captureError instanceof Error
+          ? captureError.message
+          : "Unable to capture the frame."
+      );
+    }
+  };
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      void uploadPoster(file);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-neutral-50 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-neutral-700">Poster</p>
+        {video.poster?.timeSeconds !== null &&
+          video.poster?.timeSeconds !== undefined && (
+            <p className="text-xs text-neutral-500">
+              Frame at {video.poster.timeSeconds.toFixed(1)}s
+            </p>
+          )}
+      </div>
+      <div className="aspect-video overflow-hidden rounded-lg bg-black">
+        <VideoPlayer
+          videoRef={videoRef}
+          controls
+          preload="metadata"
+          className="h-full w-full object-contain"
+          src={toStreamPath(video.id)}
+          poster={toPosterSource(video) ?? undefined}
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={captureCurrentFrame}
+          disabled={pending}
+          className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Use current frame
+        </button>
+        <label className="cursor-pointer rounded-lg border border-neutral-300 px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-100">
+          Upload image
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            onChange={handleFile}
+            disabled={pending}
+            className="sr-only"
+          />
+        </label>
+        {video.poster && (
+          <button
+            type="button"
+            onClick={() =>
+              run(
+                () =>
+                  fetch(`/api/videos/${video.id}/poster`, { method: "DELETE" }),
+                "Unable to remove the poster."
+              )
+            }
+            disabled={pending}
+            className="rounded-lg border border-neutral-300 px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Remove poster
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import { diffWords } from "@/lib/text-diff";
+import type {
+  RevisionField,
+  VideoMetadataSnapshot,
+  VideoRecord,
+  VideoRevision,
+} from "@/lib/types";
+import { toVersionEtag } from "@/lib/video-version";
+
+const ORIGINAL = "original";
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: "Title",
+  description: "Description",
+  tags: "Tags",
+  visibility: "Visibility",
+};
+
+const formatDate = (isoString: string) =>
+  new Intl.DateTimeFormat("en", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(isoString));
+
+const toOptionKey = (revision: VideoRevision | undefined) =>
+  revision ? `${revision.version}` : ORIGINAL;
+
+const resolveSnapshot = (
+  revisions: VideoRevision[],
+  key: string
+): VideoMetadataSnapshot | null => {
+  if (key === ORIGINAL) return revisions[revisions.length - 1]?.before ?? null;
+  return (
+    revisions.find((revision) => `${revision.version}` === key)?.after ?? null
+  );
+};
+
+const TextDiff = ({ before, after }: { before: string; after: string }) => (
+  <p className="whitespace-pre-wrap break-words text-xs text-neutral-700">
+    {diffWords(before, after).map((segment, index) =>
+      segment.kind === "same" ? (
+        <span key={index}>{segment.text}</span>
+      ) : segment.kind === "added" ? (
+        <ins key={index} className="bg-emerald-100 text-emerald-800 no-underline">
+          {segment.text}
+        </ins>
+      ) : (
+        <del key={index} className="bg-red-100 text-red-700">
+          {segment.text}
+        </del>
+      )
+    )}
+  </p>
+);
+
+const TagDiff = ({ before, after }: { before: string[]; after: string[] }) => (
+  <div className="flex flex-wrap gap-1 text-xs">
+    {[...new Set([...before, ...after])].map((tag) => {
+      const className = !after.includes(tag)
+        ? "bg-red-100 text-red-700 line-through"
+        : !before.includes(tag)
+          ? "bg-emerald-100 text-emerald-800"
+          : "bg-neutral-100 text-neutral-600";
+      return (
+        <span key={tag} className={`rounded-full px-2 py-0.5 ${className}`}>
+          #{tag}
+        </span>
+      );
+    })}
+  </div>
+);
+
+const FieldDiff = ({
+  field,
+  before,
+  after,
+}: {
+  field: RevisionField;
+  before: VideoMetadataSnapshot;
+  after: VideoMetadataSnapshot;
+}) => {
+  if (field === "tags") return <TagDiff before={before.tags} after={after.tags} />;
+  if (field === "visibility") {
+    return (
+      <p className="text-xs text-neutral-700">
+        <del className="bg-red-100 text-red-700">{before.visibility}</del> →{" "}
+        <ins className="bg-emerald-100 text-emerald-800 no-underline">
+          {after.visibility}
+        </ins>
+      </p>
+    );
+  }
+  return <TextDiff before={before[field]} after={after[field]} />;
+};
+
+type Props = {
+  video: VideoRecord;
+  onRestore: (video: VideoRecord) => void;
+};
+
+export const RevisionHistory = ({ video, onRestore }: Props) => {
+  const [revisions, setRevisions] = useState<VideoRevision[] | null>(null);
+  const [fromKey, setFromKey] = useState<string | null>(null);
+  const [toKey, setToKey] = useState<string | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/videos/${video.id}/revisions`, { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw await readApiError(
+            response,
+            "Unable to load the revision history."
+          );
+        }
+        return response.json();
+      })
+      .then((loaded: VideoRevision[]) => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        setToKey(toOptionKey(loaded[0]));
+        setFromKey(toOptionKey(loaded[1]));
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error ? loadError.message : "Unexpected error"
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id, video.version]);
+
+  const select = (index: number) => {
+    if (!revisions) return;
+    setToKey(toOptionKey(revisions[index]));
+    setFromKey(toOptionKey(revisions[index + 1]));
+  };
+
+  const restore = async (revision: VideoRevision) => {
+    setPendingRestore(revision.version);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/videos/${video.id}/revisions/${revision.version}/restore`,
+        { method: "POST", headers: { "If-Match": toVersionEtag(video) } }
+      );
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to restore the revision.");
+      }
+      onRestore(await response.json());
+    } catch (restoreError) {
+      setError(
+        restoreError instanceof Error
+          ? restoreError.message
+          : "Unable to restore the revision."
+      );
+    } finally {
+      setPendingRestore(null);
+    }
+  };
+
+  const from = revisions && fromKey ? resolveSnapshot(revisions, fromKey) : null;
+  const to = revisions && toKey ? resolveSnapshot(revisions, toKey) : null;
+  const changed =
+    from && to
+      ? (Object.keys(FIELD_LABELS) as RevisionField[]).filter(
+          (field) => JSON.stringify(from[field]) !== JSON.stringify(to[field])
+        )
+      : [];
+  const options = revisions
+    ? [
+        ...revisions.map((revision) => ({
+          key: toOptionKey(revision),
+          label: `v${revision.version} · ${formatDate(revision.createdAt)}`,
+        })),
+        ...(revisions.length > 0 ? [{ key: ORIGINAL, label: "Original" }] : []),
+      ]
+    : [];
+  const selectClassName =
+    "rounded-lg border border-neutral-300 bg-white px-2 py-1 text-xs text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200";
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-neutral-50 p-3">
+      <p className="text-sm font-medium text-neutral-700">History</p>
+      {revisions === null && !error ? (
+        <p className="text-xs text-neutral-500">Loading history…</p>
+      ) : revisions?.length === 0 ? (
+        <p className="text-xs text-neutral-500">No edits yet.</p>
+      ) : null}
+      {revisions && revisions.length > 0 && (
+        <>
+          <ul className="flex max-h-48 flex-col gap-1 overflow-y-auto">
+            {revisions.map((revision, index) => (
+              <li
+                key={revision.version}
+                className={`flex items-center justify-between gap-2 rounded-lg px-3 py-2 text-xs text-neutral-600 ${
+                  toKey === toOptionKey(revision)
+                    ? "bg-indigo-50"
+                    : "bg-white"
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => select(index)}
+                  className="flex-1 text-left"
+                >
+                  <span className="font-medium text-neutral-900">
+                    v{revision.version}
+                  </span>{" "}
+                  · {revision.actorName} · {formatDate(revision.createdAt)} ·{" "}
+                  {revision.restoredFrom !== null
+                    ? `restored v${revision.restoredFrom}`
+                    : revision.fields
+                        .map((field) => FIELD_LABELS[field])
+                        .join(", ")}
+                </button>
+                {index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => restore(revision)}
+                    disabled={pendingRestore !== null}
+                    className="rounded-md bg-indigo-50 px-2 py-1 font-medium text-indigo-600 hover:bg-indigo-100 disabled:opacity-60"
+                  >
+                    {pendingRestore === revision.version
+                      ? "Restoring…"
+                      : "Restore"}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-600">
+            <span>Compare</span>
+            <select
+              value={fromKey ?? ""}
+              onChange={(event) => setFromKey(event.target.value)}
+              aria-label="Compare from revision"
+              className={selectClassName}
+            >
+              {options.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <span>with</span>
+            <select
+              value={toKey ?? ""}
+              onChange={(event) => setToKey(event.target.value)}
+              aria-label="Compare to revision"
+              className={selectClassName}
+            >
+              {options.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {from && to && (
+            <div className="flex flex-col gap-2 rounded-lg bg-white p-3">
+              {changed.length === 0 ? (
+                <p className="text-xs text-neutral-500">
+                  These revisions have the same metadata.
+                </p>
+              ) : (
+                changed.map((field) => (
+                  <div key={field} className="flex flex-col gap-1">
+                    <p className="text-xs font-medium text-neutral-500">
+                      {FIELD_LABELS[field]}
+                    </p>
+                    <FieldDiff field={field} before={from} after={to} />
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </>
+      )}
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
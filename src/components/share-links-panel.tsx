@@ -0,0 +1,226 @@
+"use client";
+
+import { type FormEvent, useEffect, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import { buildEmbedCode } from "@/lib/embed-code";
+import type { ShareLinkWithUrl, VideoRecord } from "@/lib/types";
+
+const EXPIRY_OPTIONS = {
+  "1": "1 hour",
+  "24": "1 day",
+  "168": "7 days",
+  "720": "30 days",
+  "": "Never",
+} as const;
+
+type ExpiryOption = keyof typeof EXPIRY_OPTIONS;
+
+const formatDate = (isoString: string) =>
+  new Intl.DateTimeFormat("en", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(isoString));
+
+const toAbsoluteUrl = (path: string) =>
+  new URL(path, window.location.origin).toString();
+
+const copyText = (text: string) =>
+  navigator.clipboard
+    .writeText(text)
+    .catch(() => alert("Copy to clipboard is not available in this browser."));
+
+const copyToClipboard = (path: string) => copyText(toAbsoluteUrl(path));
+
+type Props = {
+  video: VideoRecord;
+};
+
+export const ShareLinksPanel = ({ video }: Props) => {
+  const [links, setLinks] = useState<ShareLinkWithUrl[] | null>(null);
+  const [expiry, setExpiry] = useState<ExpiryOption>("168");
+  const [maxViews, setMaxViews] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [pendingRevoke, setPendingRevoke] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/videos/${video.id}/shares`, { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw await readApiError(response, "Unable to load share links.");
+        }
+        return response.json();
+      })
+      .then((loaded: ShareLinkWithUrl[]) => {
+        if (!cancelled) setLinks(loaded);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : "Unexpected error");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id]);
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/videos/${video.id}/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          expiresAt: expiry
+            ? new Date(Date.now() + Number(expiry) * 60 * 60 * 1000).toISOString()
+            : null,
+          maxViews: maxViews ? Number(maxViews) : null,
+        }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to create the share link.");
+      }
+      const created: ShareLinkWithUrl = await response.json();
+      setLinks((prev) => [created, ...(prev ?? [])]);
+      setMaxViews("");
+      await copyToClipboard(created.url);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unexpected error");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (shareId: string) => {
+    setPendingRevoke(shareId);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/videos/${video.id}/shares/${shareId}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to revoke the share link.");
+      }
+      setLinks((prev) => prev?.filter((link) => link.id !== shareId) ?? null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Unexpected error");
+    } finally {
+      setPendingRevoke(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-neutral-200 bg-neutral-50 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-neutral-600">
+          {video.visibility === "private" || !video.visibility
+            ? "This video is private. Only people with a share link can watch it."
+            : "Anyone with the watch page link can watch. Share links add an expiry and a view limit."}
+        </p>
+        {video.visibility !== "private" && video.visibility && (
+          <button
+            type="button"
+            onClick={() => copyToClipboard(`/watch/${video.id}`)}
+            className="rounded-md border border-neutral-300 px-2 py-1 text-xs font-medium text-neutral-700 hover:bg-neutral-100"
+          >
+            Copy watch page link
+          </button>
+        )}
+      </div>
+      <form
+        className="flex flex-wrap items-center gap-2"
+        onSubmit={handleCreate}
+      >
+        <label className="flex items-center gap-2 text-xs text-neutral-600">
+          Expires after
+          <select
+            value={expiry}
+            onChange={(event) => setExpiry(event.target.value as ExpiryOption)}
+            className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          >
+            {Object.entries(EXPIRY_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <input
+          type="number"
+          min={1}
+          placeholder="Max views"
+          value={maxViews}
+          onChange={(event) => setMaxViews(event.target.value)}
+          className="w-28 rounded-lg border border-neutral-300 px-2 py-1.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        <button
+          type="submit"
+          disabled={creating}
+          className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
+        >
+          {creating ? "Creating…" : "Create & copy link"}
+        </button>
+      </form>
+
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+
+      {links === null ? (
+        !error && <p className="text-xs text-neutral-500">Loading links…</p>
+      ) : links.length === 0 ? (
+        <p className="text-xs text-neutral-500">No share links yet.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {links.map((link) => (
+            <li
+              key={link.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-white px-3 py-2 text-xs text-neutral-600"
+            >
+              <span>
+                {link.views}
+                {link.maxViews !== null ? ` / ${link.maxViews}` : ""} views ·{" "}
+                {link.expiresAt
+                  ? `expires ${formatDate(link.expiresAt)}`
+                  : "never expires"}
+              </span>
+              <span className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => copyToClipboard(link.url)}
+                  className="rounded-md border border-neutral-300 px-2 py-1 font-medium text-neutral-700 hover:bg-neutral-100"
+                >
+                  Copy
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    copyText(
+                      buildEmbedCode({
+                        src: toAbsoluteUrl(link.embedUrl),
+                        title: video.title,
+                      })
+                    )
+                  }
+                  className="rounded-md border border-neutral-300 px-2 py-1 font-medium text-neutral-700 hover:bg-neutral-100"
+                >
+                  Embed
+                </button>
+                <button
+                  type="button"
+                  onClick={() => revoke(link.id)}
+                  disabled={pendingRevoke === link.id}
+                  className="rounded-md bg-red-50 px-2 py-1 font-medium text-red-600 hover:bg-red-100 disabled:opacity-60"
+                >
+                  {pendingRevoke === link.id ? "Revoking…" : "Revoke"}
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { ApiResponseError, readApiError } from "@/lib/api-client";
+
+type Mode = "login" | "signup";
+
+type Props = {
+  allowSignup: boolean;
+};
+
+export const SignInForm = ({ allowSignup }: Props) => {
+  const [mode, setMode] = useState<Mode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<{ field?: string; message: string } | null>(
+    null
+  );
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!response.ok) {
+        throw await readApiError(
+          response,
+          mode === "login" ? "Unable to sign in." : "Unable to sign up."
+        );
+      }
+      window.location.assign("/");
+    } catch (error) {
+      setError({
+        field:
+          error instanceof ApiResponseError &&
+          typeof error.payload.field === "string"
+            ? error.payload.field
+            : undefined,
+        message: error instanceof Error ? error.message : "Unexpected error",
+      });
+      setSubmitting(false);
+    }
+  };
+
+  const inputClassName = (field: string) =>
+    `rounded-xl border px-4 py-2.5 text-sm text-neutral-900 shadow-inner focus:outline-none focus:ring-2 ${
+      error?.field === field
+        ? "border-red-400 focus:border-red-500 focus:ring-red-200"
+        : "border-neutral-300 focus:border-indigo-500 focus:ring-indigo-200"
+    }`;
+
+  return (
+    <section className="w-full max-w-sm rounded-3xl border border-neutral-200 bg-white/80 p-8 shadow-sm backdrop-blur-sm">
+      <h1 className="text-2xl font-semibold text-neutral-900">
+        {mode === "login" ? "Sign in" : "Create an account"}
+      </h1>
+      <p className="mt-1 text-sm text-neutral-600">
+        {mode === "login"
+          ? "Sign in to manage your video library."
+          : "The first account becomes the library administrator."}
+      </p>
+      <form className="mt-6 flex flex-col gap-4" onSubmit={handleSubmit}>
+        <label className="flex flex-col gap-2 text-sm font-medium text-neutral-700">
+          Username
+          <input
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            autoComplete="username"
+            required
+            className={inputClassName("username")}
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-sm font-medium text-neutral-700">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete={mode === "login" ? "current-password" : "new-password"}
+            required
+            className={inputClassName("password")}
+          />
+        </label>
+        {error && (
+          <p className="text-sm font-medium text-red-600">{error.message}</p>
+        )}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded-xl bg-indigo-600 px-4 py-2.5 text-sm font-semibold text-white shadow hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
+        >
+          {submitting
+            ? "Please wait…"
+            : mode === "login"
+              ? "Sign in"
+              : "Create account"}
+        </button>
+      </form>
+      {allowSignup && (
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "login" ? "signup" : "login");
+            setError(null);
+          }}
+          className="mt-4 text-sm font-medium text-indigo-600 hover:text-indigo-500"
+        >
+          {mode === "login"
+            ? "Need an account? Sign up"
+            : "Already have an account? Sign in"}
+        </button>
+      )}
+    </section>
+  );
+};
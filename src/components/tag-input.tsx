@@ -0,0 +1,136 @@
+"use client";
+
+import { type KeyboardEvent, useId, useState } from "react";
+import type { TagSummary } from "@/lib/types";
+
+const MAX_SUGGESTIONS = 6;
+
+const splitTags = (value: string) => {
+  const parts = value.split(",");
+  return {
+    entered: parts.slice(0, -1).map((tag) => tag.trim().toLowerCase()),
+    current: parts[parts.length - 1].trim(),
+  };
+};
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  "aria-label"?: string;
+};
+
+export const TagInput = ({
+  value,
+  onChange,
+  placeholder,
+  className,
+  "aria-label": ariaLabel,
+}: Props) => {
+  const listId = useId();
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { entered, current } = splitTags(value);
+  const needle = current.toLowerCase();
+  const suggestions = needle
+    ? tags
+        .filter(
+          (tag) =>
+            tag.name.toLowerCase().includes(needle) &&
+            tag.name.toLowerCase() !== needle &&
+            !entered.includes(tag.name.toLowerCase())
+        )
+        .sort(
+          (a, b) =>
+            Number(b.name.toLowerCase().startsWith(needle)) -
+              Number(a.name.toLowerCase().startsWith(needle)) ||
+            b.count - a.count
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const showSuggestions = open && suggestions.length > 0;
+
+  const loadTags = () => {
+    setOpen(true);
+    fetch("/api/tags", { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : []))
+      .then((loaded: TagSummary[]) => setTags(loaded))
+      .catch(() => undefined);
+  };
+
+  const pick = (name: string) => {
+    const parts = value.split(",");
+    parts[parts.length - 1] = parts.length > 1 ? ` ${name}` : name;
+    onChange(`${parts.join(",")}, `);
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(
+        (prev) => (prev + step + suggestions.length) % suggestions.length
+      );
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      pick(suggestions[Math.min(activeIndex, suggestions.length - 1)].name);
+    } else if (event.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex flex-col">
+      <input
+        type="text"
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setOpen(true);
+          setActiveIndex(0);
+        }}
+        onFocus={loadTags}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        role="combobox"
+        aria-expanded={showSuggestions}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        className={className}
+      />
+      {showSuggestions && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute top-full z-20 mt-1 w-full overflow-hidden rounded-lg border border-neutral-200 bg-white py-1 text-sm shadow-lg"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.name}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(event) => {
+                event.preventDefault();
+                pick(tag.name);
+              }}
+              className={`flex cursor-pointer items-center justify-between px-3 py-1.5 ${
+                index === activeIndex
+                  ? "bg-indigo-50 text-indigo-700"
+                  : "text-neutral-700"
+              }`}
+            >
+              <span>{tag.name}</span>
+              <span className="text-xs text-neutral-400">{tag.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
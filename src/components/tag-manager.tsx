@@ -0,0 +1,259 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import type { TagRewriteResult, TagSummary } from "@/lib/types";
+
+const inputClassName =
+  "rounded-lg border border-neutral-300 px-2 py-1 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200";
+
+const countCaseVariants = (tags: TagSummary[]) => {
+  const groups = new Map<string, number>();
+  for (const tag of tags) {
+    const key = tag.name.toLowerCase();
+    groups.set(key, (groups.get(key) ?? 0) + 1);
+  }
+  return [...groups.values()].filter((size) => size > 1).length;
+};
+
+type Props = {
+  onChange: () => void;
+};
+
+export const TagManager = ({ onChange }: Props) => {
+  const [tags, setTags] = useState<TagSummary[] | null>(null);
+  const [filter, setFilter] = useState("");
+  const [renaming, setRenaming] = useState<{ from: string; to: string } | null>(
+    null
+  );
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [ignoreCase, setIgnoreCase] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTags = useCallback(
+    () =>
+      fetch("/api/tags", { cache: "no-store" })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw await readApiError(response, "Unable to list tags.");
+          }
+          setTags(await response.json());
+        })
+        .catch((loadError) =>
+          setError(
+            loadError instanceof Error ? loadError.message : "Unexpected error"
+          )
+        ),
+    []
+  );
+
+  useEffect(() => {
+    void loadTags();
+  }, [loadTags]);
+
+  const rewrite = async (path: string, body: object, fallback: string) => {
+    setPending(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/tags/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, fallback);
+      }
+      const result: TagRewriteResult = await response.json();
+      setMessage(
+        `Updated ${result.updated.length} video${
+          result.updated.length === 1 ? "" : "s"
+        }.${
+          result.failed.length > 0
+            ? ` ${result.failed.length} could not be updated.`
+            : ""
+        }`
+      );
+      setRenaming(null);
+      setSelected([]);
+      setMergeTarget("");
+      await loadTags();
+      onChange();
+    } catch (rewriteError) {
+      setError(
+        rewriteError instanceof Error ? rewriteError.message : fallback
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const toggleSelected = (name: string) =>
+    setSelected((prev) =>
+      prev.includes(name)
+        ? prev.filter((tag) => tag !== name)
+        : [...prev, name]
+    );
+
+  const visible = (tags ?? []).filter((tag) =>
+    tag.name.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+  const variantGroups = tags ? countCaseVariants(tags) : 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          placeholder="Filter tags"
+          aria-label="Filter tags"
+          className={`${inputClassName} w-48`}
+        />
+        <label className="flex items-center gap-2 text-sm text-neutral-600">
+          <input
+            type="checkbox"
+            checked={ignoreCase}
+            onChange={(event) => setIgnoreCase(event.target.checked)}
+          />
+          Match tags ignoring case
+        </label>
+        {variantGroups > 0 && (
+          <button
+            type="button"
+            onClick={() =>
+              rewrite("normalize", {}, "Unable to normalize tags.")
+            }
+            disabled={pending}
+            className="rounded-lg bg-amber-50 px-3 py-1.5 text-sm font-medium text-amber-700 hover:bg-amber-100 disabled:opacity-60"
+          >
+            Merge {variantGroups} case variant
+            {variantGroups === 1 ? "" : "s"}
+          </button>
+        )}
+      </div>
+
+      {selected.length > 0 && (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            void rewrite(
+              "merge",
+              {
+                sources: selected,
+                target: mergeTarget || selected[0],
+                ignoreCase,
+              },
+              "Unable to merge the tags."
+            );
+          }}
+          className="flex flex-wrap items-center gap-2 rounded-lg bg-indigo-50 p-3 text-sm"
+        >
+          <span className="text-indigo-900">
+            Merge {selected.map((tag) => `#${tag}`).join(", ")} into
+          </span>
+          <input
+            value={mergeTarget}
+            onChange={(event) => setMergeTarget(event.target.value)}
+            placeholder={selected[0]}
+            aria-label="Merge target"
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={pending}
+            className="rounded-lg bg-indigo-600 px-3 py-1.5 font-medium text-white hover:bg-indigo-500 disabled:opacity-60"
+          >
+            Merge
+          </button>
+          <button
+            type="button"
+            onClick={() => setSelected([])}
+            className="font-medium text-neutral-600 hover:text-neutral-800"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {tags && visible.length === 0 ? (
+        <p className="text-sm text-neutral-500">
+          {tags.length === 0 ? "No tags yet." : "No tags match the filter."}
+        </p>
+      ) : (
+        <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+          {visible.map((tag) => (
+            <li
+              key={tag.name}
+              className="flex items-center gap-2 rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(tag.name)}
+                onChange={() => toggleSelected(tag.name)}
+                aria-label={`Select ${tag.name}`}
+              />
+              {renaming?.from === tag.name ? (
+                <form
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    void rewrite(
+                      "rename",
+                      { from: renaming.from, to: renaming.to, ignoreCase },
+                      "Unable to rename the tag."
+                    );
+                  }}
+                  className="flex flex-1 items-center gap-2"
+                >
+                  <input
+                    value={renaming.to}
+                    onChange={(event) =>
+                      setRenaming({ ...renaming, to: event.target.value })
+                    }
+                    aria-label={`Rename ${tag.name}`}
+                    className={`${inputClassName} min-w-0 flex-1`}
+                    autoFocus
+                  />
+                  <button
+                    type="submit"
+                    disabled={pending}
+                    className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRenaming(null)}
+                    className="text-xs font-medium text-neutral-500 hover:text-neutral-700"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <span className="flex-1 truncate font-medium text-indigo-600">
+                    #{tag.name}
+                  </span>
+                  <span className="text-xs text-neutral-400">{tag.count}</span>
+                  <button
+                    type="button"
+                    onClick={() => setRenaming({ from: tag.name, to: tag.name })}
+                    className="text-xs font-medium text-neutral-500 hover:text-neutral-700"
+                  >
+                    Rename
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {message && <p className="text-sm text-emerald-700">{message}</p>}
+      {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+"use client";
+
+import { formatTimecode } from "@/lib/timecode";
+import type { TimelineMarker } from "@/lib/types";
+
+const MARKER_STYLES: Record<TimelineMarker["kind"], string> = {
+  chapter: "top-0 h-3 w-1 bg-indigo-500 hover:bg-indigo-400",
+  comment: "top-0.5 h-2 w-2 rounded-full bg-amber-500 hover:bg-amber-400",
+};
+
+type Props = {
+  markers: TimelineMarker[];
+  duration: number;
+  onSeek: (time: number) => void;
+};
+
+export const TimelineMarkers = ({ markers, duration, onSeek }: Props) => (
+  <div className="relative h-3 rounded-full bg-neutral-100">
+    {markers.map((marker) => (
+      <button
+        key={`${marker.kind}-${marker.id}`}
+        type="button"
+        onClick={() => onSeek(marker.timeSeconds)}
+        style={{
+          left: `${Math.min(marker.timeSeconds / duration, 1) * 100}%`,
+        }}
+        className={`absolute -translate-x-1/2 ${MARKER_STYLES[marker.kind]}`}
+        title={`${formatTimecode(marker.timeSeconds)} · ${marker.label}`}
+        aria-label={`Seek to ${marker.kind} at ${formatTimecode(
+          marker.timeSeconds
+        )}: ${marker.label}`}
+      />
+    ))}
+  </div>
+);
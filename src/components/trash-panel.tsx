@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import type { TrashPage, VideoRecord } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (isoString: string) =>
+  new Intl.DateTimeFormat("en", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(isoString));
+
+const toPurgeDate = (deletedAt: string, retentionDays: number) =>
+  new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS).toISOString();
+
+type Props = {
+  onRestore: (video: VideoRecord) => void;
+};
+
+export const TrashPanel = ({ onRestore }: Props) => {
+  const [trash, setTrash] = useState<TrashPage | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  const [confirmingEmpty, setConfirmingEmpty] = useState(false);
+  const [confirmingPurge, setConfirmingPurge] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/trash", { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw await readApiError(response, "Unable to load the trash.");
+        }
+        return response.json();
+      })
+      .then((loaded: TrashPage) => {
+        if (!cancelled) setTrash(loaded);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error ? loadError.message : "Unexpected error"
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const removeItems = (ids: string[]) =>
+    setTrash((prev) =>
+      prev
+        ? { ...prev, items: prev.items.filter((item) => !ids.includes(item.id)) }
+        : prev
+    );
+
+  const run = async (
+    key: string,
+    input: string,
+    method: string,
+    fallback: string
+  ) => {
+    setPending(key);
+    setError(null);
+    try {
+      const response = await fetch(input, { method });
+      if (!response.ok) {
+        throw await readApiError(response, fallback);
+      }
+      return await response.json();
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : fallback);
+      return null;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const restore = async (id: string) => {
+    const restored: VideoRecord | null = await run(
+      id,
+      `/api/trash/${id}/restore`,
+      "POST",
+      "Unable to restore the video."
+    );
+    if (!restored) return;
+    removeItems([id]);
+    onRestore(restored);
+  };
+
+  const purge = async (id: string) => {
+    setConfirmingPurge(null);
+    const result = await run(
+      id,
+      `/api/trash/${id}`,
+      "DELETE",
+      "Unable to permanently delete the video."
+    );
+    if (result) removeItems([id]);
+  };
+
+  const emptyTrash = async () => {
+    setConfirmingEmpty(false);
+    const result: { purged: string[] } | null = await run(
+      "empty",
+      "/api/trash",
+      "DELETE",
+      "Unable to empty the trash."
+    );
+    if (result) removeItems(result.purged);
+  };
+
+  const items = trash?.items ?? [];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-neutral-600">
+          {trash
+            ? `Deleted videos are removed permanently after ${trash.retentionDays} days.`
+            : "Loading the trash…"}
+        </p>
+        {items.length > 0 &&
+          (confirmingEmpty ? (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-red-700">
+                Permanently delete {items.length} video
+                {items.length === 1 ? "" : "s"}?
+              </span>
+              <button
+                type="button"
+                onClick={emptyTrash}
+                className="rounded-lg bg-red-600 px-3 py-1.5 font-medium text-white hover:bg-red-500"
+              >
+                Empty trash
+              </button>
+              <button
+                type="button"
+                onClick={() => setConfirmingEmpty(false)}
+                className="rounded-lg border border-neutral-300 px-3 py-1.5 font-medium text-neutral-700 hover:bg-neutral-100"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setConfirmingEmpty(true)}
+              disabled={pending !== null}
+              className="rounded-lg bg-red-50 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-100 disabled:opacity-60"
+            >
+              {pending === "empty" ? "Emptying…" : "Empty trash"}
+            </button>
+          ))}
+      </div>
+      {trash && items.length === 0 && (
+        <p className="rounded-2xl border border-dashed border-neutral-300 p-8 text-center text-sm text-neutral-500">
+          The trash is empty.
+        </p>
+      )}
+      {items.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-neutral-200 bg-white p-4"
+            >
+              <div className="flex flex-col gap-1">
+                <p className="font-medium text-neutral-900">{item.title}</p>
+                {item.deletedAt && trash && (
+                  <p className="text-xs text-neutral-500">
+                    Deleted {formatDate(item.deletedAt)} · removed permanently{" "}
+                    {formatDate(
+                      toPurgeDate(item.deletedAt, trash.retentionDays)
+                    )}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => restore(item.id)}
+                  disabled={pending !== null}
+                  className="rounded-lg bg-indigo-50 px-3 py-1.5 text-sm font-medium text-indigo-600 hover:bg-indigo-100 disabled:opacity-60"
+                >
+                  {pending === item.id ? "Working…" : "Restore"}
+                </button>
+                {confirmingPurge === item.id ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => purge(item.id)}
+                      className="rounded-lg bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-500"
+                    >
+                      Confirm delete
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingPurge(null)}
+                      className="rounded-lg border border-neutral-300 px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmingPurge(item.id)}
+                    disabled={pending !== null}
+                    className="rounded-lg bg-red-50 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-100 disabled:opacity-60"
+                  >
+                    Delete forever
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
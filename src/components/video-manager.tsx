@@ -1,7 +1,67 @@
 "use client";
 
-import { type FormEvent, useMemo, useState } from "react";
-import type { VideoRecord } from "@/lib/types";
+import {
+  type FormEvent,
+  type ReactNode,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { ApiResponseError, readApiError } from "@/lib/api-client";
+import { buildEmbedCode } from "@/lib/embed-code";
+import { captureFileFrame } from "@/lib/frame-capture";
+import { uploadResumable } from "@/lib/resumable-upload";
+import { formatTimecode } from "@/lib/timecode";
+import { getRecordVersion, toVersionEtag } from "@/lib/video-version";
+import { BulkToolbar } from "@/components/bulk-toolbar";
+import { CaptionsPanel } from "@/components/captions-panel";
+import { CollectionManager } from "@/components/collection-manager";
+import { PosterPicker } from "@/components/poster-picker";
+import { RevisionHistory } from "@/components/revision-history";
+import { ShareLinksPanel } from "@/components/share-links-panel";
+import { TagInput } from "@/components/tag-input";
+import { TagManager } from "@/components/tag-manager";
+import { TrashPanel } from "@/components/trash-panel";
+import { TimelineMarkers } from "@/components/timeline-markers";
+import {
+  VideoPreview,
+  type VideoPreviewHandle,
+} from "@/components/video-preview";
+import { VideoReviewPanel } from "@/components/video-review-panel";
+import type {
+  BulkOperation,
+  BulkOperationResult,
+  JobStatus,
+  JobType,
+  ProcessingStep,
+  RenditionStatus,
+  SearchHighlight,
+  SessionUser,
+  TimelineMarker,
+  UploadPolicy,
+  VideoCollection,
+  VideoComment,
+  VideoPage,
+  VideoRecord,
+  VideoVisibility,
+} from "@/lib/types";
+
+type FieldError = {
+  field?: string;
+  message: string;
+};
+
+const toFieldError = (error: unknown, fallback: string): FieldError => {
+  if (error instanceof ApiResponseError) {
+    return {
+      field:
+        typeof error.payload.field === "string" ? error.payload.field : undefined,
+      message: error.message,
+    };
+  }
+  return { message: error instanceof Error ? error.message : fallback };
+};
 
 type UploadFormState = {
   title: string;
@@ -9,6 +69,73 @@ type UploadFormState = {
   tags: string;
 };
 
+type EditFields = UploadFormState & {
+  visibility: VideoVisibility;
+};
+
+type EditDraft = EditFields & {
+  base: EditFields;
+  version: number;
+};
+
+type LibrarySelection = {
+  queryKey: string;
+  ids: string[];
+  allMatching: boolean;
+};
+
+type EditConflict = {
+  id: string;
+  server: VideoRecord;
+};
+
+const VISIBILITY_LABELS: Record<VideoVisibility, string> = {
+  private: "Private",
+  unlisted: "Unlisted",
+  public: "Public",
+};
+
+const RENDITION_LABELS: Partial<Record<RenditionStatus, string>> = {
+  ready: "HLS ready",
+  failed: "HLS failed",
+};
+
+const RENDITION_STYLES: Partial<Record<RenditionStatus, string>> = {
+  ready: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-600",
+};
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  probe: "Probe",
+  thumbnails: "Thumbnails",
+  transcode: "Transcode",
+};
+
+const JOB_STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "bg-slate-100 text-slate-600",
+  running: "bg-amber-50 text-amber-700",
+  succeeded: "bg-emerald-50 text-emerald-700",
+  failed: "bg-red-50 text-red-600",
+  cancelled: "bg-neutral-100 text-neutral-500",
+};
+
+const ACTIVE_JOB_STATUSES: JobStatus[] = ["queued", "running"];
+
+const PROCESSING_POLL_INTERVAL_MS = 3000;
+
+const describeStep = (step: ProcessingStep) => {
+  const label = JOB_TYPE_LABELS[step.type];
+  if (step.status === "running") {
+    return step.progress !== null
+      ? `${label} ${Math.round(step.progress * 100)}%`
+      : `${label} running…`;
+  }
+  if (step.status === "queued" && step.attempts > 0) {
+    return `${label} retrying`;
+  }
+  return `${label} ${step.status}`;
+};
+
 const toHumanSize = (bytes: number) => {
   if (!Number.isFinite(bytes)) return "0 B";
   const units = ["B", "KB", "MB", "GB", "TB"];
@@ -27,55 +154,317 @@ const formatDate = (isoString: string) =>
     timeStyle: "short",
   }).format(new Date(isoString));
 
+const formatDuration = (seconds: number) =>
+  formatTimecode(Math.round(seconds));
+
+const formatBitrate = (bitsPerSecond: number) =>
+  bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+const describeMedia = (video: VideoRecord) => {
+  const media = video.media;
+  if (!media) return [];
+  return [
+    media.durationSeconds !== undefined && formatDuration(media.durationSeconds),
+    media.width && media.height && `${media.width}×${media.height}`,
+    media.frameRate && `${media.frameRate} fps`,
+    [media.videoCodec, media.audioCodec].filter(Boolean).join(" / "),
+    media.bitrate && formatBitrate(media.bitrate),
+  ].filter((value): value is string => Boolean(value));
+};
+
+const SORT_OPTIONS = {
+  "relevance:desc": "Best match",
+  "updatedAt:desc": "Recently updated",
+  "createdAt:desc": "Newest first",
+  "createdAt:asc": "Oldest first",
+  "title:asc": "Title A–Z",
+  "title:desc": "Title Z–A",
+  "size:desc": "Largest files",
+  "size:asc": "Smallest files",
+  "duration:desc": "Longest first",
+  "duration:asc": "Shortest first",
+  "resolution:desc": "Highest resolution",
+  "position:asc": "Collection order",
+} as const;
+
+type SortOption = keyof typeof SORT_OPTIONS;
+
+type LibraryFilters = {
+  owner: string;
+  collection: string;
+  tag: string;
+  contentType: string;
+  minSize: string;
+  maxSize: string;
+  createdAfter: string;
+  createdBefore: string;
+};
+
+const defaultFilters: LibraryFilters = {
+  owner: "",
+  collection: "",
+  tag: "",
+  contentType: "",
+  minSize: "",
+  maxSize: "",
+  createdAfter: "",
+  createdBefore: "",
+};
+
+const PAGE_SIZE = 24;
+
+const SEARCH_EXAMPLE =
+  'tag:launch -tag:draft size>100mb duration<5m created:2025-01..2025-06 "exact phrase"';
+
+const buildLibraryQuery = (
+  sort: SortOption,
+  filters: LibraryFilters,
+  searchTerm: string,
+  cursor?: string | null
+) => {
+  const q = searchTerm.trim();
+  const [field, order] = (
+    q || sort !== "relevance:desc" ? sort : "updatedAt:desc"
+  ).split(":");
+  const params = new URLSearchParams({
+    limit: `${PAGE_SIZE}`,
+    sort: field,
+    order,
+  });
+  if (q) params.set("q", q);
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim());
+  }
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+};
+
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
 const defaultForm: UploadFormState = {
   title: "",
   description: "",
   tags: "",
 };
 
-const toDraft = (video: VideoRecord): UploadFormState => ({
+const HighlightedText = ({
+  text,
+  highlight,
+}: {
+  text: string;
+  highlight?: SearchHighlight;
+}) => {
+  if (!highlight?.ranges.length) return <>{text}</>;
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of highlight.ranges) {
+    if (start > position) parts.push(highlight.text.slice(position, start));
+    parts.push(
+      <mark
+        key={start}
+        className="rounded bg-amber-100 px-0.5 text-inherit"
+      >
+        {highlight.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  parts.push(highlight.text.slice(position));
+  return <>{parts}</>;
+};
+
+const toTimelineMarkers = (
+  video: VideoRecord,
+  comments: VideoComment[]
+): TimelineMarker[] => [
+  ...(video.chapters ?? []).map((chapter) => ({
+    id: `${chapter.startSeconds}`,
+    kind: "chapter" as const,
+    timeSeconds: chapter.startSeconds,
+    label: chapter.title,
+  })),
+  ...comments.flatMap((comment) =>
+    comment.parentId || comment.timeSeconds === null || comment.resolved
+      ? []
+      : [
+          {
+            id: comment.id,
+            kind: "comment" as const,
+            timeSeconds: comment.timeSeconds,
+            label: `${comment.authorName}: ${comment.body}`,
+          },
+        ]
+  ),
+];
+
+const toEditFields = (video: VideoRecord): EditFields => ({
   title: video.title,
   description: video.description,
   tags: video.tags.join(", "),
+  visibility: video.visibility ?? "private",
 });
 
+const toDraft = (video: VideoRecord): EditDraft => ({
+  ...toEditFields(video),
+  base: toEditFields(video),
+  version: getRecordVersion(video),
+});
+
+const EDIT_FIELD_LABELS: Record<keyof EditFields, string> = {
+  title: "Title",
+  description: "Description",
+  tags: "Tags",
+  visibility: "Visibility",
+};
+
+const changedFields = (from: EditFields, to: EditFields) =>
+  (Object.keys(EDIT_FIELD_LABELS) as (keyof EditFields)[]).filter(
+    (field) => from[field] !== to[field]
+  );
+
+const mergeDraft = (draft: EditDraft, server: VideoRecord): EditDraft => {
+  const theirs = toEditFields(server);
+  const mine = changedFields(draft.base, draft);
+  const merged = { ...theirs };
+  for (const field of mine) {
+    Object.assign(merged, { [field]: draft[field] });
+  }
+  return { ...merged, base: theirs, version: getRecordVersion(server) };
+};
+
 type Props = {
-  initialVideos: VideoRecord[];
+  initialPage: VideoPage;
+  uploadPolicy: UploadPolicy;
+  user: SessionUser;
+  canTranscode: boolean;
 };
 
-export const VideoManager = ({ initialVideos }: Props) => {
+export const VideoManager = ({
+  initialPage,
+  uploadPolicy,
+  user,
+  canTranscode,
+}: Props) => {
+  const initialVideos = initialPage.items;
   const [videos, setVideos] = useState<VideoRecord[]>(initialVideos);
+  const [nextCursor, setNextCursor] = useState(initialPage.nextCursor);
+  const [libraryTotals, setLibraryTotals] = useState({
+    total: initialPage.total,
+    totalSize: initialPage.totalSize,
+  });
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [highlights, setHighlights] = useState<
+    Record<string, SearchHighlight[]>
+  >({});
+  const [filters, setFilters] = useState<LibraryFilters>(defaultFilters);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [form, setForm] = useState<UploadFormState>(defaultForm);
   const [searchTerm, setSearchTerm] = useState("");
+  const [sort, setSort] = useState<SortOption>("updatedAt:desc");
   const [uploading, setUploading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<FieldError | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [uploadRetry, setUploadRetry] = useState(0);
   const [refreshing, setRefreshing] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editDrafts, setEditDrafts] = useState<Record<string, UploadFormState>>(
+  const [editDrafts, setEditDrafts] = useState<Record<string, EditDraft>>(
     () =>
       Object.fromEntries(initialVideos.map((video) => [video.id, toDraft(video)]))
   );
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [reviewComments, setReviewComments] = useState<VideoComment[]>([]);
   const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(
+    null
+  );
+  const [showTrash, setShowTrash] = useState(false);
+  const [showTags, setShowTags] = useState(false);
+  const [showCollections, setShowCollections] = useState(false);
+  const [collections, setCollections] = useState<VideoCollection[] | null>(
+    null
+  );
+  const [collectionError, setCollectionError] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [trashKey, setTrashKey] = useState(0);
+  const [pendingTranscode, setPendingTranscode] = useState<string | null>(
+    null
+  );
+  const [pendingThumbnails, setPendingThumbnails] = useState<string | null>(
+    null
+  );
+  const [pendingCancel, setPendingCancel] = useState<string | null>(null);
+  const [editConflict, setEditConflict] = useState<EditConflict | null>(
+    null
+  );
+  const [editError, setEditError] = useState<
+    (FieldError & { id: string }) | null
+  >(null);
+
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+  const previewRefs = useRef<Record<string, VideoPreviewHandle | null>>({});
+  const queryKey = buildLibraryQuery(sort, filters, searchTerm);
+  const [selection, setSelection] = useState<LibrarySelection>({
+    queryKey,
+    ids: [],
+    allMatching: false,
+  });
+  const [bulkPending, setBulkPending] = useState(false);
+  const [bulkResult, setBulkResult] = useState<BulkOperationResult | null>(
+    null
+  );
+  const activeSelection =
+    selection.queryKey === queryKey
+      ? selection
+      : { queryKey, ids: [], allMatching: false };
+  const appliedQueryKey = useRef(queryKey);
 
-  const totalSize = useMemo(
-    () => videos.reduce((sum, video) => sum + video.size, 0),
-    [videos]
+  const visibleSortOptions = Object.entries(SORT_OPTIONS).filter(
+    ([value]) =>
+      (searchTerm.trim() || value !== "relevance:desc") &&
+      (filters.collection || value !== "position:asc")
   );
+  const activeCollection =
+    collections?.find((collection) => collection.id === filters.collection) ??
+    null;
+  const canReorder =
+    activeCollection !== null && sort === "position:asc" && !searchTerm.trim();
 
-  const filteredVideos = useMemo(() => {
-    if (!searchTerm) return videos;
-    const term = searchTerm.toLowerCase();
-    return videos.filter((video) => {
-      return (
-        video.title.toLowerCase().includes(term) ||
-        video.description.toLowerCase().includes(term) ||
-        video.tags.some((tag) => tag.toLowerCase().includes(term))
+  const showCollection = (collection: string) => {
+    setFilters((prev) => ({ ...prev, collection }));
+    setSort((current) =>
+      collection && current === "updatedAt:desc"
+        ? "position:asc"
+        : !collection && current === "position:asc"
+          ? "updatedAt:desc"
+          : current
+    );
+  };
+
+  const updateSearchTerm = (value: string) => {
+    const searching = Boolean(value.trim());
+    if (searching !== Boolean(searchTerm.trim())) {
+      setSort((current) =>
+        searching && current === "updatedAt:desc"
+          ? "relevance:desc"
+          : !searching && current === "relevance:desc"
+            ? "updatedAt:desc"
+            : current
       );
-    });
-  }, [videos, searchTerm]);
+    }
+    setSearchTerm(value);
+  };
 
-  const updateDraft = (id: string, patch: Partial<UploadFormState>) => {
+  const updateDraft = (id: string, patch: Partial<EditDraft>) => {
     setEditDrafts((prev) => ({
       ...prev,
       [id]: {
@@ -85,35 +474,62 @@ export const VideoManager = ({ initialVideos }: Props) => {
     }));
   };
 
+  const attachPosterFrame = async (
+    video: VideoRecord,
+    frame: { blob: Blob; time: number } | null
+  ) => {
+    if (!frame || video.poster) return video;
+    const response = await fetch(
+      `/api/videos/${video.id}/poster?time=${frame.time.toFixed(3)}`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": frame.blob.type },
+        body: frame.blob,
+      }
+    ).catch(() => null);
+    return response?.ok ? ((await response.json()) as VideoRecord) : video;
+  };
+
   const handleUpload = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!selectedFile) {
-      setUploadError("Please choose a video to upload first.");
+      setUploadError({
+        field: "file",
+        message: "Please choose a video to upload first.",
+      });
+      return;
+    }
+    if (selectedFile.size > uploadPolicy.maxFileSize) {
+      setUploadError({
+        field: "file",
+        message: `Videos can be at most ${toHumanSize(uploadPolicy.maxFileSize)}.`,
+      });
       return;
     }
 
     setUploading(true);
     setUploadError(null);
+    setUploadProgress(0);
+    setUploadRetry(0);
 
     try {
-      const data = new FormData();
-      data.append("file", selectedFile);
-      if (form.title) data.append("title", form.title);
-      if (form.description) data.append("description", form.description);
-      if (form.tags) data.append("tags", form.tags);
-
-      const response = await fetch("/api/videos", {
-        method: "POST",
-        body: data,
+      const posterFrame = captureFileFrame(selectedFile).catch(() => null);
+      const uploaded = await uploadResumable(selectedFile, {
+        metadata: {
+          title: form.title || undefined,
+          description: form.description || undefined,
+          tags: form.tags || undefined,
+        },
+        onProgress: (uploaded, total) =>
+          setUploadProgress(total > 0 ? uploaded / total : 0),
+        onRetry: setUploadRetry,
       });
-
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload.error || "Upload failed");
-      }
-
-      const created: VideoRecord = await response.json();
+      const created = await attachPosterFrame(uploaded, await posterFrame);
       setVideos((prev) => [created, ...prev]);
+      setLibraryTotals((prev) => ({
+        total: prev.total + 1,
+        totalSize: prev.totalSize + created.size,
+      }));
       setEditDrafts((prev) => ({ ...prev, [created.id]: toDraft(created) }));
       setForm(defaultForm);
       setSelectedFile(null);
@@ -124,34 +540,159 @@ export const VideoManager = ({ initialVideos }: Props) => {
         fileInput.value = "";
       }
     } catch (error) {
-      setUploadError(
-        error instanceof Error ? error.message : "Unexpected upload error"
-      );
+      setUploadError(toFieldError(error, "Unexpected upload error"));
     } finally {
       setUploading(false);
+      setUploadProgress(null);
+      setUploadRetry(0);
     }
   };
 
-  const refresh = async () => {
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      const query = buildLibraryQuery(sort, filters, searchTerm, cursor);
+      const response = await fetch(`/api/videos?${query}`, {
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to load videos.");
+      }
+      const page: VideoPage = await response.json();
+      setVideos((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      setEditDrafts((prev) => ({
+        ...(cursor ? prev : {}),
+        ...Object.fromEntries(
+          page.items.map((video) => [video.id, toDraft(video)])
+        ),
+      }));
+      setHighlights((prev) => ({
+        ...(cursor ? prev : {}),
+        ...page.highlights,
+      }));
+      setNextCursor(page.nextCursor);
+      setLibraryTotals({ total: page.total, totalSize: page.totalSize });
+      setListError(null);
+      setSearchError(null);
+    },
+    [sort, filters, searchTerm]
+  );
+
+  const refresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      const response = await fetch("/api/videos", { cache: "no-store" });
-      if (!response.ok) {
-        throw new Error("Refresh failed");
+      await loadPage(null);
+    } catch (error) {
+      if (error instanceof ApiResponseError && error.status === 401) {
+        window.location.assign("/login");
+        return;
+      }
+      if (
+        error instanceof ApiResponseError &&
+        error.payload.code === "invalid_search"
+      ) {
+        setSearchError(error.message);
+        return;
       }
-      const latest: VideoRecord[] = await response.json();
-      setVideos(latest);
-      setEditDrafts(
-        Object.fromEntries(latest.map((video) => [video.id, toDraft(video)]))
+      console.error(error);
+      setListError(
+        error instanceof Error ? error.message : "Unable to load videos."
       );
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      await loadPage(nextCursor);
     } catch (error) {
       console.error(error);
+      setListError(
+        error instanceof Error ? error.message : "Unable to load videos."
+      );
     } finally {
-      setRefreshing(false);
+      setLoadingMore(false);
+    }
+  }, [loadPage, loadingMore, nextCursor]);
+
+  useEffect(() => {
+    if (appliedQueryKey.current === queryKey) return;
+    appliedQueryKey.current = queryKey;
+    const timeout = setTimeout(refresh, 250);
+    return () => clearTimeout(timeout);
+  }, [queryKey, refresh]);
+
+  useEffect(() => {
+    const target = loadMoreRef.current;
+    if (!target || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        void loadMore();
+      }
+    });
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
+  useEffect(() => {
+    const activeIds = videos
+      .filter(
+        (video) =>
+          video.processing &&
+          ACTIVE_JOB_STATUSES.includes(video.processing.status)
+      )
+      .map((video) => video.id);
+    if (activeIds.length === 0) return;
+
+    const timeout = setTimeout(async () => {
+      const updates = await Promise.all(
+        activeIds.map((id) =>
+          fetch(`/api/videos/${id}`, { cache: "no-store" })
+            .then((response) =>
+              response.ok ? (response.json() as Promise<VideoRecord>) : null
+            )
+            .catch(() => null)
+        )
+      );
+      setVideos((prev) =>
+        prev.map(
+          (video) =>
+            updates.find((updated) => updated?.id === video.id) ?? video
+        )
+      );
+    }, PROCESSING_POLL_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [videos]);
+
+  const cancelProcessing = async (videoId: string, jobId: string) => {
+    setPendingCancel(jobId);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/cancel`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to cancel the job.");
+      }
+      const refreshed = await fetch(`/api/videos/${videoId}`, {
+        cache: "no-store",
+      });
+      if (refreshed.ok) {
+        const updated: VideoRecord = await refreshed.json();
+        setVideos((prev) =>
+          prev.map((video) => (video.id === videoId ? updated : video))
+        );
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Unable to cancel the job.");
+    } finally {
+      setPendingCancel(null);
     }
   };
 
   const triggerDelete = async (id: string) => {
+    setConfirmingDelete(null);
     setPendingDelete(id);
     try {
       const response = await fetch(`/api/videos/${id}`, {
@@ -161,12 +702,19 @@ export const VideoManager = ({ initialVideos }: Props) => {
         const payload = await response.json().catch(() => ({}));
         throw new Error(payload.error || "Delete failed");
       }
+      const removed = videos.find((video) => video.id === id);
       setVideos((prev) => prev.filter((video) => video.id !== id));
+      setLibraryTotals((prev) => ({
+        total: Math.max(prev.total - 1, 0),
+        totalSize: Math.max(prev.totalSize - (removed?.size ?? 0), 0),
+      }));
       setEditDrafts((prev) => {
         const copy = { ...prev };
         delete copy[id];
         return copy;
       });
+      setTrashKey((prev) => prev + 1);
+      void loadCollections();
     } catch (error) {
       console.error(error);
       alert(
@@ -179,53 +727,322 @@ export const VideoManager = ({ initialVideos }: Props) => {
     }
   };
 
-  const saveEdits = async (id: string) => {
-    const draft = editDrafts[id];
+  const toggleSelected = (id: string) =>
+    setSelection({
+      queryKey,
+      ids: activeSelection.ids.includes(id)
+        ? activeSelection.ids.filter((selected) => selected !== id)
+        : [...activeSelection.ids, id],
+      allMatching: false,
+    });
+
+  const runBulk = async (operation: BulkOperation) => {
+    const target = activeSelection;
+    setBulkPending(true);
+    setBulkResult(null);
+    try {
+      const response = await fetch("/api/videos/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(target.allMatching
+            ? { filter: Object.fromEntries(new URLSearchParams(queryKey)) }
+            : { ids: target.ids }),
+          operation,
+        }),
+      });
+      if (!response.ok) {
+        throw await readApiError(response, "Bulk update failed");
+      }
+      const result: BulkOperationResult = await response.json();
+      setBulkResult(result);
+      if (operation.type === "delete") {
+        setTrashKey((prev) => prev + 1);
+        void loadCollections();
+      }
+      await refresh();
+      setSelection({
+        queryKey,
+        ids: result.results.filter((item) => !item.ok).map((item) => item.id),
+        allMatching: false,
+      });
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "Unable to apply the changes."
+      );
+    } finally {
+      setBulkPending(false);
+    }
+  };
+
+  const replaceVideo = (updated: VideoRecord) =>
+    setVideos((prev) =>
+      prev.map((video) => (video.id === updated.id ? updated : video))
+    );
+
+  const loadCollections = useCallback(
+    () =>
+      fetch("/api/collections", { cache: "no-store" })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw await readApiError(response, "Unable to list collections.");
+          }
+          setCollections(await response.json());
+          setCollectionError(null);
+        })
+        .catch((error) =>
+          setCollectionError(
+            error instanceof Error ? error.message : "Unexpected error"
+          )
+        ),
+    []
+  );
+
+  useEffect(() => {
+    void loadCollections();
+  }, [loadCollections]);
+
+  const updateCollection = async (
+    input: string,
+    init: RequestInit,
+    fallback: string
+  ) => {
+    setCollectionError(null);
+    try {
+      const response = await fetch(input, init);
+      if (!response.ok) {
+        throw await readApiError(response, fallback);
+      }
+      const updated: VideoCollection = await response.json();
+      setCollections((prev) =>
+        prev
+          ? prev.map((collection) =>
+              collection.id === updated.id ? updated : collection
+            )
+          : prev
+      );
+      return updated;
+    } catch (error) {
+      setCollectionError(error instanceof Error ? error.message : fallback);
+      return null;
+    }
+  };
+
+  const patchCollection = (id: string, payload: object, fallback: string) =>
+    updateCollection(
+      `/api/collections/${id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      },
+      fallback
+    );
+
+  const addToCollection = (collectionId: string, videoId: string) =>
+    updateCollection(
+      `/api/collections/${collectionId}/videos`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ videoId }),
+      },
+      "Unable to add the video to the collection."
+    );
+
+  const removeFromCollection = async (collectionId: string, videoId: string) => {
+    const updated = await updateCollection(
+      `/api/collections/${collectionId}/videos/${videoId}`,
+      { method: "DELETE" },
+      "Unable to remove the video from the collection."
+    );
+    if (updated) await refresh();
+  };
+
+  const reorderCollection = async (fromId: string, toId: string) => {
+    if (!activeCollection || fromId === toId) return;
+    const ids = activeCollection.videoIds;
+    const videoIds = moveItem(ids, ids.indexOf(fromId), ids.indexOf(toId));
+    const fromIndex = videos.findIndex((video) => video.id === fromId);
+    const toIndex = videos.findIndex((video) => video.id === toId);
+    if (fromIndex !== -1 && toIndex !== -1) {
+      setVideos((prev) => moveItem(prev, fromIndex, toIndex));
+    }
+    const updated = await patchCollection(
+      activeCollection.id,
+      { videoIds },
+      "Unable to reorder the collection."
+    );
+    if (!updated) await refresh();
+  };
+
+  const triggerTranscode = async (id: string) => {
+    setPendingTranscode(id);
+    try {
+      const response = await fetch(`/api/videos/${id}/renditions`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        throw await readApiError(response, "Unable to start transcoding.");
+      }
+      const updated: VideoRecord = await response.json();
+      setVideos((prev) =>
+        prev.map((video) => (video.id === id ? updated : video))
+      );
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : "Unable to start transcoding."
+      );
+    } finally {
+      setPendingTranscode(null);
+    }
+  };
+
+  const triggerThumbnails = async (id: string) => {
+    setPendingThumbnails(id);
+    try {
+      const response = await fetch(`/api/videos/${id}/thumbnails`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        throw await readApiError(
+          response,
+          "Unable to start thumbnail generation."
+        );
+      }
+      replaceVideo(await response.json());
+    } catch (error) {
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Unable to start thumbnail generation."
+      );
+    } finally {
+      setPendingThumbnails(null);
+    }
+  };
+
+  const saveEdits = async (id: string, override?: EditDraft) => {
+    const draft = override ?? editDrafts[id];
     if (!draft) return;
 
+    setEditError(null);
+    setEditConflict(null);
     try {
       const response = await fetch(`/api/videos/${id}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
+          "If-Match": toVersionEtag(draft),
         },
         body: JSON.stringify({
           title: draft.title,
           description: draft.description,
           tags: draft.tags,
+          visibility: draft.visibility,
         }),
       });
       if (!response.ok) {
-        const payload = await response.json().catch(() => ({}));
-        throw new Error(payload.error || "Update failed");
+        throw await readApiError(response, "Update failed");
       }
 
       const updated: VideoRecord = await response.json();
-      setVideos((prev) =>
-        prev.map((video) => (video.id === id ? updated : video))
-      );
+      replaceVideo(updated);
       setEditDrafts((prev) => ({ ...prev, [id]: toDraft(updated) }));
       setEditingId(null);
     } catch (error) {
-      alert(
-        error instanceof Error
-          ? error.message
-          : "Unable to update the video metadata."
-      );
+      if (
+        error instanceof ApiResponseError &&
+        error.payload.code === "version_conflict"
+      ) {
+        const server = error.payload.current as VideoRecord;
+        replaceVideo(server);
+        setEditConflict({ id, server });
+        return;
+      }
+      setEditError({
+        id,
+        ...toFieldError(error, "Unable to update the video metadata."),
+      });
+    }
+  };
+
+  const restoreRevision = (restored: VideoRecord) => {
+    replaceVideo(restored);
+    setEditDrafts((prev) => ({ ...prev, [restored.id]: toDraft(restored) }));
+    setEditConflict(null);
+    setEditError(null);
+  };
+
+  const resolveConflict = (
+    id: string,
+    resolution: "merge" | "overwrite" | "discard"
+  ) => {
+    const draft = editDrafts[id];
+    if (!editConflict || editConflict.id !== id || !draft) return;
+    const { server } = editConflict;
+    setEditConflict(null);
+    if (resolution === "discard") {
+      setEditDrafts((prev) => ({ ...prev, [id]: toDraft(server) }));
+      setEditingId(null);
+      return;
+    }
+    if (resolution === "merge") {
+      setEditDrafts((prev) => ({ ...prev, [id]: mergeDraft(draft, server) }));
+      return;
     }
+    const overwrite = {
+      ...draft,
+      base: toEditFields(server),
+      version: getRecordVersion(server),
+    };
+    setEditDrafts((prev) => ({ ...prev, [id]: overwrite }));
+    void saveEdits(id, overwrite);
   };
 
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => null);
+    window.location.assign("/login");
+  };
+
+  const inlineError = (error: FieldError | null, field?: string) =>
+    error && error.field === field ? (
+      <p className="text-xs font-medium text-red-600">{error.message}</p>
+    ) : null;
+
   return (
     <div className="flex flex-col gap-10 pb-16">
       <section className="rounded-3xl border border-neutral-200 bg-white/60 p-8 shadow-sm backdrop-blur-sm">
-        <header className="flex flex-col gap-2">
-          <h1 className="text-2xl font-semibold text-neutral-900">
-            Video Library
-          </h1>
-          <p className="text-sm text-neutral-600">
-            Upload new videos, update metadata, and manage your library in one
-            place.
-          </p>
+        <header className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div className="flex flex-col gap-2">
+            <h1 className="text-2xl font-semibold text-neutral-900">
+              Video Library
+            </h1>
+            <p className="text-sm text-neutral-600">
+              Upload new videos, update metadata, and manage your library in
+              one place.
+            </p>
+          </div>
+          <div className="flex items-center gap-3 text-sm text-neutral-600">
+            <span>
+              Signed in as{" "}
+              <span className="font-medium text-neutral-900">
+                {user.username}
+              </span>
+              {user.role === "admin" && (
+                <span className="ml-2 rounded-md bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+                  Admin
+                </span>
+              )}
+            </span>
+            <button
+              type="button"
+              onClick={signOut}
+              className="rounded-lg border border-neutral-300 px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+            >
+              Sign out
+            </button>
+          </div>
         </header>
 
         <div className="mt-6 grid gap-6 sm:grid-cols-3 sm:items-start">
@@ -234,7 +1051,7 @@ export const VideoManager = ({ initialVideos }: Props) => {
               Total Videos
             </p>
             <p className="mt-2 text-3xl font-semibold text-indigo-900">
-              {videos.length}
+              {libraryTotals.total}
             </p>
           </div>
           <div className="rounded-2xl border border-neutral-200 bg-gradient-to-br from-slate-50 to-slate-100 p-5">
@@ -242,7 +1059,7 @@ export const VideoManager = ({ initialVideos }: Props) => {
               Storage Used
             </p>
             <p className="mt-2 text-3xl font-semibold text-slate-900">
-              {toHumanSize(totalSize)}
+              {toHumanSize(libraryTotals.totalSize)}
             </p>
           </div>
           <button
@@ -271,7 +1088,7 @@ export const VideoManager = ({ initialVideos }: Props) => {
             <input
               id="video-file-input"
               type="file"
-              accept="video/*"
+              accept={uploadPolicy.allowedContentTypes.join(",")}
               onChange={(event) => {
                 const file = event.target.files?.[0] ?? null;
                 setSelectedFile(file);
@@ -283,6 +1100,11 @@ export const VideoManager = ({ initialVideos }: Props) => {
                 {selectedFile.name} · {toHumanSize(selectedFile.size)}
               </span>
             )}
+            <span className="text-xs text-neutral-400">
+              {uploadPolicy.allowedContainers.join(", ").toUpperCase()} up to{" "}
+              {toHumanSize(uploadPolicy.maxFileSize)}
+            </span>
+            {inlineError(uploadError, "file")}
           </label>
 
           <label className="flex flex-col gap-2">
@@ -294,18 +1116,17 @@ export const VideoManager = ({ initialVideos }: Props) => {
                 setForm((prev) => ({ ...prev, title: event.target.value }))
               }
               placeholder="Example: Product launch teaser"
+              maxLength={uploadPolicy.maxTitleLength}
               className="rounded-xl border border-neutral-300 px-4 py-3 text-sm text-neutral-900 shadow-inner focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
             />
+            {inlineError(uploadError, "title")}
           </label>
 
           <label className="flex flex-col gap-2">
             <span className="text-sm font-medium text-neutral-800">Tags</span>
-            <input
-              type="text"
+            <TagInput
               value={form.tags}
-              onChange={(event) =>
-                setForm((prev) => ({ ...prev, tags: event.target.value }))
-              }
+              onChange={(tags) => setForm((prev) => ({ ...prev, tags }))}
               placeholder="marketing, launch, 2024"
               className="rounded-xl border border-neutral-300 px-4 py-3 text-sm text-neutral-900 shadow-inner focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
             />
@@ -325,16 +1146,34 @@ export const VideoManager = ({ initialVideos }: Props) => {
               }
               placeholder="Add context for collaborators and viewers."
               rows={4}
+              maxLength={uploadPolicy.maxDescriptionLength}
               className="rounded-xl border border-neutral-300 px-4 py-3 text-sm text-neutral-900 shadow-inner focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
             />
+            {inlineError(uploadError, "description")}
           </label>
 
-          {uploadError && (
+          {uploadError && !uploadError.field && (
             <p className="md:col-span-2 text-sm font-medium text-red-600">
-              {uploadError}
+              {uploadError.message}
             </p>
           )}
 
+          {uploadProgress !== null && (
+            <div className="md:col-span-2 flex flex-col gap-2">
+              <div className="h-2 overflow-hidden rounded-full bg-neutral-200">
+                <div
+                  className="h-full rounded-full bg-indigo-500 transition-all"
+                  style={{ width: `${Math.round(uploadProgress * 100)}%` }}
+                />
+              </div>
+              <p className="text-xs text-neutral-500">
+                {uploadRetry > 0
+                  ? `Connection interrupted. Resuming (attempt ${uploadRetry})…`
+                  : `${Math.round(uploadProgress * 100)}% uploaded`}
+              </p>
+            </div>
+          )}
+
           <button
             type="submit"
             className="md:col-span-2 h-12 rounded-xl bg-indigo-600 text-sm font-semibold text-white transition hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
@@ -355,46 +1194,321 @@ export const VideoManager = ({ initialVideos }: Props) => {
               Filter, edit, and share your uploaded videos.
             </p>
           </div>
+          <div className="flex w-full flex-col gap-2 sm:flex-row sm:items-start md:w-auto">
+            <div className="flex w-full flex-col gap-1 md:w-80">
+              <input
+                type="search"
+                placeholder="Search titles, tags, and descriptions"
+                value={searchTerm}
+                onChange={(event) => updateSearchTerm(event.target.value)}
+                aria-invalid={Boolean(searchError)}
+                title={`Try: ${SEARCH_EXAMPLE}`}
+                className={`w-full rounded-xl border px-4 py-2.5 text-sm text-neutral-900 shadow-inner focus:outline-none focus:ring-2 ${
+                  searchError
+                    ? "border-red-400 focus:border-red-500 focus:ring-red-200"
+                    : "border-neutral-300 focus:border-indigo-500 focus:ring-indigo-200"
+                }`}
+              />
+              {searchError && (
+                <p className="text-xs text-red-600">
+                  {searchError}{" "}
+                  <span className="text-neutral-500">
+                    Example: <code>{SEARCH_EXAMPLE}</code>
+                  </span>
+                </p>
+              )}
+            </div>
+            {user.role === "admin" && (
+              <select
+                value={filters.owner}
+                onChange={(event) =>
+                  setFilters((prev) => ({ ...prev, owner: event.target.value }))
+                }
+                className="rounded-xl border border-neutral-300 bg-white px-3 py-2.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              >
+                <option value="">All libraries</option>
+                <option value={user.id}>My videos</option>
+              </select>
+            )}
+            <select
+              value={sort}
+              onChange={(event) => setSort(event.target.value as SortOption)}
+              className="rounded-xl border border-neutral-300 bg-white px-3 py-2.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            >
+              {visibleSortOptions.map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-4 grid gap-3 sm:grid-cols-3 lg:grid-cols-7">
+          <select
+            value={filters.collection}
+            onChange={(event) => showCollection(event.target.value)}
+            aria-label="Collection"
+            className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          >
+            <option value="">Any collection</option>
+            {(collections ?? []).map((collection) => (
+              <option key={collection.id} value={collection.id}>
+                {collection.title}
+              </option>
+            ))}
+          </select>
           <input
-            type="search"
-            placeholder="Search by title, tag, or description"
-            value={searchTerm}
-            onChange={(event) => setSearchTerm(event.target.value)}
-            className="w-full md:w-80 rounded-xl border border-neutral-300 px-4 py-2.5 text-sm text-neutral-900 shadow-inner focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            type="text"
+            placeholder="Tag"
+            value={filters.tag}
+            onChange={(event) =>
+              setFilters((prev) => ({ ...prev, tag: event.target.value }))
+            }
+            className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+          <select
+            value={filters.contentType}
+            onChange={(event) =>
+              setFilters((prev) => ({
+                ...prev,
+                contentType: event.target.value,
+              }))
+            }
+            className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          >
+            <option value="">Any format</option>
+            {uploadPolicy.allowedContentTypes.map((contentType) => (
+              <option key={contentType} value={contentType}>
+                {contentType}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Min size (e.g. 10mb)"
+            value={filters.minSize}
+            onChange={(event) =>
+              setFilters((prev) => ({ ...prev, minSize: event.target.value }))
+            }
+            className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+          <input
+            type="text"
+            placeholder="Max size (e.g. 2gb)"
+            value={filters.maxSize}
+            onChange={(event) =>
+              setFilters((prev) => ({ ...prev, maxSize: event.target.value }))
+            }
+            className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+          <input
+            type="date"
+            aria-label="Created after"
+            value={filters.createdAfter}
+            onChange={(event) =>
+              setFilters((prev) => ({
+                ...prev,
+                createdAfter: event.target.value,
+              }))
+            }
+            className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+          <input
+            type="date"
+            aria-label="Created before"
+            value={filters.createdBefore}
+            onChange={(event) =>
+              setFilters((prev) => ({
+                ...prev,
+                createdBefore: event.target.value,
+              }))
+            }
+            className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
           />
         </div>
 
-        {filteredVideos.length === 0 ? (
+        {listError && (
+          <p className="mt-4 text-sm font-medium text-red-600">{listError}</p>
+        )}
+        {collectionError && (
+          <p className="mt-4 text-sm font-medium text-red-600">
+            {collectionError}
+          </p>
+        )}
+        {canReorder && (
+          <p className="mt-4 text-sm text-neutral-500">
+            Drag videos to reorder {activeCollection.title}.
+          </p>
+        )}
+
+        <BulkToolbar
+          selectedCount={activeSelection.ids.length}
+          loadedCount={videos.length}
+          matchingCount={libraryTotals.total}
+          allMatching={activeSelection.allMatching}
+          pending={bulkPending}
+          result={bulkResult}
+          titleFor={(id) =>
+            videos.find((video) => video.id === id)?.title ?? id
+          }
+          onSelectLoaded={() =>
+            setSelection({
+              queryKey,
+              ids: videos.map((video) => video.id),
+              allMatching: false,
+            })
+          }
+          onSelectMatching={() =>
+            setSelection({
+              queryKey,
+              ids: videos.map((video) => video.id),
+              allMatching: true,
+            })
+          }
+          onClear={() => {
+            setSelection({ queryKey, ids: [], allMatching: false });
+            setBulkResult(null);
+          }}
+          onRun={runBulk}
+        />
+
+        {videos.length === 0 ? (
           <div className="mt-10 rounded-2xl border border-neutral-200 bg-neutral-50 px-6 py-10 text-center text-sm text-neutral-600">
-            {videos.length === 0
-              ? "No videos uploaded yet. Start by uploading your first video above."
-              : "No matches found. Adjust your search query to see more videos."}
+            {searchTerm.trim() ||
+            Object.values(filters).some((value) => value.trim())
+              ? "No matches found. Adjust your search or filters to see more videos."
+              : "No videos uploaded yet. Start by uploading your first video above."}
           </div>
         ) : (
           <div className="mt-8 grid gap-6 lg:grid-cols-2">
-            {filteredVideos.map((video) => {
+            {videos.map((video) => {
               const draft = editDrafts[video.id] ?? toDraft(video);
+              const highlightFor = (field: SearchHighlight["field"]) =>
+                highlights[video.id]?.find(
+                  (highlight) => highlight.field === field
+                );
               const isEditing = editingId === video.id;
+              const markers = toTimelineMarkers(
+                video,
+                reviewingId === video.id ? reviewComments : []
+              );
+              const seek = (time: number) =>
+                previewRefs.current[video.id]?.seek(time);
               return (
                 <article
                   key={video.id}
-                  className="flex flex-col gap-4 rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm"
+                  draggable={canReorder && !isEditing}
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move";
+                    setDraggingId(video.id);
+                  }}
+                  onDragOver={(event) => {
+                    if (draggingId) event.preventDefault();
+                  }}
+                  onDrop={(event) => {
+                    event.preventDefault();
+                    if (draggingId) void reorderCollection(draggingId, video.id);
+                    setDraggingId(null);
+                  }}
+                  onDragEnd={() => setDraggingId(null)}
+                  className={`flex flex-col gap-4 rounded-2xl border bg-white p-4 shadow-sm ${
+                    draggingId === video.id
+                      ? "border-indigo-400 opacity-60"
+                      : "border-neutral-200"
+                  } ${canReorder && !isEditing ? "cursor-move" : ""}`}
                 >
                   <div className="relative aspect-video overflow-hidden rounded-xl bg-black">
-                    <video
-                      controls
-                      className="h-full w-full object-cover"
-                      src={video.fileUrl}
+                    <VideoPreview
+                      video={video}
+                      ref={(handle) => {
+                        previewRefs.current[video.id] = handle;
+                      }}
                     />
                   </div>
+                  {markers.length > 0 && video.media?.durationSeconds ? (
+                    <TimelineMarkers
+                      markers={markers}
+                      duration={video.media.durationSeconds}
+                      onSeek={seek}
+                    />
+                  ) : null}
                   <div className="flex flex-wrap items-center justify-between gap-2">
-                    <p className="text-xs font-medium uppercase tracking-wide text-neutral-500">
-                      {video.contentType} · {toHumanSize(video.size)}
-                    </p>
+                    <label className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-neutral-500">
+                      <input
+                        type="checkbox"
+                        checked={
+                          activeSelection.allMatching ||
+                          activeSelection.ids.includes(video.id)
+                        }
+                        onChange={() => toggleSelected(video.id)}
+                        aria-label={`Select ${video.title}`}
+                        className="h-4 w-4 rounded border-neutral-300 text-indigo-600 focus:ring-indigo-200"
+                      />
+                      {video.contentType} · {toHumanSize(video.size)} ·{" "}
+                      {VISIBILITY_LABELS[video.visibility ?? "private"]}
+                    </label>
                     <p className="text-xs text-neutral-400">
                       Updated {formatDate(video.updatedAt)}
                     </p>
                   </div>
+                  {(video.media ||
+                    video.processing ||
+                    video.renditions) && (
+                    <div className="flex flex-wrap gap-2">
+                      {video.media &&
+                        describeMedia(video).map((detail) => (
+                          <span
+                            key={detail}
+                            className="rounded-md bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-600"
+                          >
+                            {detail}
+                          </span>
+                        ))}
+                      {video.processing?.steps
+                        .filter((step) => step.status !== "succeeded")
+                        .map((step) => (
+                          <span
+                            key={step.jobId}
+                            className={`flex items-center gap-1 rounded-md px-2 py-0.5 text-xs font-medium ${
+                              JOB_STATUS_STYLES[step.status]
+                            }`}
+                            title={step.error ?? undefined}
+                          >
+                            {describeStep(step)}
+                            {ACTIVE_JOB_STATUSES.includes(step.status) && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  cancelProcessing(video.id, step.jobId)
+                                }
+                                disabled={pendingCancel === step.jobId}
+                                className="font-semibold hover:text-red-600 disabled:opacity-60"
+                                aria-label={`Cancel ${JOB_TYPE_LABELS[step.type].toLowerCase()}`}
+                              >
+                                ×
+                              </button>
+                            )}
+                          </span>
+                        ))}
+                      {video.renditions &&
+                        RENDITION_LABELS[video.renditions.status] && (
+                          <span
+                            className={`rounded-md px-2 py-0.5 text-xs font-medium ${
+                              RENDITION_STYLES[video.renditions.status]
+                            }`}
+                            title={
+                              video.renditions.error ??
+                              video.renditions.variants
+                                .map((variant) => variant.name)
+                                .join(", ")
+                            }
+                          >
+                            {RENDITION_LABELS[video.renditions.status]}
+                          </span>
+                        )}
+                    </div>
+                  )}
 
                   {isEditing ? (
                     <div className="flex flex-col gap-3">
@@ -403,8 +1517,11 @@ export const VideoManager = ({ initialVideos }: Props) => {
                         onChange={(event) =>
                           updateDraft(video.id, { title: event.target.value })
                         }
+                        maxLength={uploadPolicy.maxTitleLength}
                         className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
                       />
+                      {editError?.id === video.id &&
+                        inlineError(editError, "title")}
                       <textarea
                         value={draft.description}
                         onChange={(event) =>
@@ -413,26 +1530,77 @@ export const VideoManager = ({ initialVideos }: Props) => {
                           })
                         }
                         rows={3}
+                        maxLength={uploadPolicy.maxDescriptionLength}
                         className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
                       />
-                      <input
+                      {editError?.id === video.id &&
+                        inlineError(editError, "description")}
+                      <TagInput
                         value={draft.tags}
+                        onChange={(tags) => updateDraft(video.id, { tags })}
+                        aria-label="Tags"
+                        className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                      />
+                      {editError?.id === video.id &&
+                        inlineError(editError, undefined)}
+                      <select
+                        value={draft.visibility}
                         onChange={(event) =>
-                          updateDraft(video.id, { tags: event.target.value })
+                          updateDraft(video.id, {
+                            visibility: event.target.value as VideoVisibility,
+                          })
                         }
-                        className="rounded-lg border border-neutral-300 px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                        className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                      >
+                        {Object.entries(VISIBILITY_LABELS).map(
+                          ([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          )
+                        )}
+                      </select>
+                      {editError?.id === video.id &&
+                        inlineError(editError, "visibility")}
+                      <PosterPicker video={video} onChange={replaceVideo} />
+                      <CaptionsPanel video={video} onChange={replaceVideo} />
+                      <RevisionHistory
+                        video={video}
+                        onRestore={restoreRevision}
                       />
                     </div>
                   ) : (
                     <div className="flex flex-col gap-2">
                       <h3 className="text-lg font-semibold text-neutral-900">
-                        {video.title}
+                        <HighlightedText
+                          text={video.title}
+                          highlight={highlightFor("title")}
+                        />
                       </h3>
                       {video.description && (
                         <p className="text-sm text-neutral-600">
-                          {video.description}
+                          <HighlightedText
+                            text={video.description}
+                            highlight={highlightFor("description")}
+                          />
                         </p>
                       )}
+                      {highlights[video.id]
+                        ?.filter((highlight) => highlight.field === "captions")
+                        .map((highlight) => (
+                          <p
+                            key={highlight.text}
+                            className="text-xs text-neutral-500"
+                          >
+                            <span className="font-medium text-neutral-600">
+                              Captions:
+                            </span>{" "}
+                            <HighlightedText
+                              text={highlight.text}
+                              highlight={highlight}
+                            />
+                          </p>
+                        ))}
                       {video.tags.length > 0 && (
                         <div className="flex flex-wrap gap-2">
                           {video.tags.map((tag) => (
@@ -440,7 +1608,14 @@ export const VideoManager = ({ initialVideos }: Props) => {
                               key={tag}
                               className="rounded-full bg-indigo-50 px-3 py-1 text-xs font-medium text-indigo-600"
                             >
-                              {tag}
+                              <HighlightedText
+                                text={tag}
+                                highlight={highlights[video.id]?.find(
+                                  (highlight) =>
+                                    highlight.field === "tags" &&
+                                    highlight.text === tag
+                                )}
+                              />
                             </span>
                           ))}
                         </div>
@@ -451,6 +1626,62 @@ export const VideoManager = ({ initialVideos }: Props) => {
                   <div className="flex flex-wrap gap-2">
                     {isEditing ? (
                       <>
+                        {editConflict?.id === video.id && (
+                          <div className="flex w-full flex-col gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                            <p className="font-medium">
+                              Someone else changed this video while you were
+                              editing.
+                            </p>
+                            <ul className="flex flex-col gap-1 text-xs">
+                              {changedFields(
+                                draft.base,
+                                toEditFields(editConflict.server)
+                              ).map((field) => (
+                                <li key={field}>
+                                  <span className="font-medium">
+                                    {EDIT_FIELD_LABELS[field]}:
+                                  </span>{" "}
+                                  theirs “
+                                  {toEditFields(editConflict.server)[field]}”
+                                  {changedFields(draft.base, draft).includes(
+                                    field
+                                  )
+                                    ? `, yours “${draft[field]}”`
+                                    : ""}
+                                </li>
+                              ))}
+                            </ul>
+                            <div className="flex flex-wrap gap-2">
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  resolveConflict(video.id, "merge")
+                                }
+                                className="rounded-lg bg-amber-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-amber-500"
+                              >
+                                Merge and review
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  resolveConflict(video.id, "overwrite")
+                                }
+                                className="rounded-lg border border-amber-300 px-3 py-1.5 text-xs font-medium text-amber-800 hover:bg-amber-100"
+                              >
+                                Overwrite with mine
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  resolveConflict(video.id, "discard")
+                                }
+                                className="rounded-lg border border-amber-300 px-3 py-1.5 text-xs font-medium text-amber-800 hover:bg-amber-100"
+                              >
+                                Discard mine
+                              </button>
+                            </div>
+                          </div>
+                        )}
                         <button
                           onClick={() => saveEdits(video.id)}
                           className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500"
@@ -459,7 +1690,11 @@ export const VideoManager = ({ initialVideos }: Props) => {
                           Save
                         </button>
                         <button
-                          onClick={() => setEditingId(null)}
+                          onClick={() => {
+                            setEditingId(null);
+                            setEditError(null);
+                            setEditConflict(null);
+                          }}
                           className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
                           type="button"
                         >
@@ -481,10 +1716,41 @@ export const VideoManager = ({ initialVideos }: Props) => {
                         >
                           Edit
                         </button>
+                        <button
+                          onClick={() =>
+                            setSharingId((current) =>
+                              current === video.id ? null : video.id
+                            )
+                          }
+                          className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+                          type="button"
+                        >
+                          {sharingId === video.id ? "Hide Sharing" : "Share"}
+                        </button>
+                        <button
+                          onClick={() => {
+                            setReviewComments([]);
+                            setReviewingId((current) =>
+                              current === video.id ? null : video.id
+                            );
+                          }}
+                          className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+                          type="button"
+                        >
+                          {reviewingId === video.id ? "Hide Review" : "Review"}
+                        </button>
                         <button
                           onClick={() => {
                             navigator.clipboard
-                              .writeText(video.fileUrl)
+                              .writeText(
+                                buildEmbedCode({
+                                  src: new URL(
+                                    `/embed/${video.id}`,
+                                    window.location.origin
+                                  ).toString(),
+                                  title: video.title,
+                                })
+                              )
                               .catch(() =>
                                 alert(
                                   "Copy to clipboard is not available in this browser."
@@ -493,25 +1759,252 @@ export const VideoManager = ({ initialVideos }: Props) => {
                           }}
                           className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
                           type="button"
+                          title={
+                            video.visibility === "private" || !video.visibility
+                              ? "Private videos only play for you. Use a share link's Embed action to embed for others."
+                              : undefined
+                          }
                         >
-                          Copy Share Link
-                        </button>
-                        <button
-                          onClick={() => triggerDelete(video.id)}
-                          className="rounded-lg bg-red-50 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-100"
-                          type="button"
-                          disabled={pendingDelete === video.id}
-                        >
-                          {pendingDelete === video.id ? "Deleting…" : "Delete"}
+                          Copy Embed Code
                         </button>
+                        {canTranscode && (
+                          <button
+                            onClick={() => triggerTranscode(video.id)}
+                            className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60"
+                            type="button"
+                            disabled={
+                              pendingTranscode === video.id ||
+                              video.renditions?.status === "pending" ||
+                              video.renditions?.status === "processing"
+                            }
+                          >
+                            {video.renditions?.status === "ready"
+                              ? "Regenerate HLS"
+                              : "Generate HLS"}
+                          </button>
+                        )}
+                        {canTranscode && (
+                          <button
+                            onClick={() => triggerThumbnails(video.id)}
+                            className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60"
+                            type="button"
+                            disabled={
+                              pendingThumbnails === video.id ||
+                              video.processing?.steps.some(
+                                (step) =>
+                                  step.type === "thumbnails" &&
+                                  ACTIVE_JOB_STATUSES.includes(step.status)
+                              )
+                            }
+                          >
+                            {video.thumbnails
+                              ? "Regenerate Thumbnails"
+                              : "Generate Thumbnails"}
+                          </button>
+                        )}
+                        {confirmingDelete === video.id ? (
+                          <>
+                            <button
+                              onClick={() => triggerDelete(video.id)}
+                              className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-500"
+                              type="button"
+                            >
+                              Move to Trash
+                            </button>
+                            <button
+                              onClick={() => setConfirmingDelete(null)}
+                              className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+                              type="button"
+                            >
+                              Keep
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => setConfirmingDelete(video.id)}
+                            className="rounded-lg bg-red-50 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-100"
+                            type="button"
+                            disabled={pendingDelete === video.id}
+                          >
+                            {pendingDelete === video.id ? "Deleting…" : "Delete"}
+                          </button>
+                        )}
+                        {activeCollection ? (
+                          <>
+                            <button
+                              onClick={() =>
+                                patchCollection(
+                                  activeCollection.id,
+                                  { coverVideoId: video.id },
+                                  "Unable to set the collection cover."
+                                )
+                              }
+                              className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60"
+                              type="button"
+                              disabled={
+                                activeCollection.coverVideoId === video.id
+                              }
+                            >
+                              {activeCollection.coverVideoId === video.id
+                                ? "Collection Cover"
+                                : "Set as Cover"}
+                            </button>
+                            <button
+                              onClick={() =>
+                                removeFromCollection(
+                                  activeCollection.id,
+                                  video.id
+                                )
+                              }
+                              className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+                              type="button"
+                            >
+                              Remove from Collection
+                            </button>
+                          </>
+                        ) : (
+                          collections?.some(
+                            (collection) =>
+                              !collection.videoIds.includes(video.id)
+                          ) && (
+                            <select
+                              value=""
+                              onChange={(event) =>
+                                addToCollection(event.target.value, video.id)
+                              }
+                              aria-label={`Add ${video.title} to a collection`}
+                              className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-700 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                            >
+                              <option value="">Add to collection…</option>
+                              {collections
+                                .filter(
+                                  (collection) =>
+                                    !collection.videoIds.includes(video.id)
+                                )
+                                .map((collection) => (
+                                  <option
+                                    key={collection.id}
+                                    value={collection.id}
+                                  >
+                                    {collection.title}
+                                  </option>
+                                ))}
+                            </select>
+                          )
+                        )}
                       </>
                     )}
                   </div>
+                  {sharingId === video.id && !isEditing && (
+                    <ShareLinksPanel video={video} />
+                  )}
+                  {reviewingId === video.id && !isEditing && (
+                    <VideoReviewPanel
+                      video={video}
+                      user={user}
+                      comments={reviewComments}
+                      onChange={replaceVideo}
+                      onCommentsChange={setReviewComments}
+                      onSeek={seek}
+                      getCurrentTime={() =>
+                        previewRefs.current[video.id]?.getCurrentTime() ?? null
+                      }
+                    />
+                  )}
                 </article>
               );
             })}
           </div>
         )}
+
+        {nextCursor && (
+          <div ref={loadMoreRef} className="mt-8 flex justify-center">
+            <button
+              type="button"
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="rounded-lg border border-neutral-300 px-4 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {loadingMore ? "Loading…" : "Load more"}
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-3xl border border-neutral-200 bg-white/80 p-8 shadow-sm backdrop-blur-sm">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-neutral-900">
+              Collections
+            </h2>
+            <p className="text-sm text-neutral-600">
+              Group videos into ordered playlists.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowCollections((prev) => !prev)}
+            className="rounded-lg border border-neutral-300 px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+          >
+            {showCollections ? "Hide Collections" : "Manage Collections"}
+          </button>
+        </div>
+        {showCollections && (
+          <div className="mt-6">
+            <CollectionManager
+              collections={collections}
+              activeId={filters.collection}
+              onChange={() => void loadCollections()}
+              onShow={showCollection}
+            />
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-3xl border border-neutral-200 bg-white/80 p-8 shadow-sm backdrop-blur-sm">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-neutral-900">Tags</h2>
+            <p className="text-sm text-neutral-600">
+              Rename, merge, and clean up tags across your library.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowTags((prev) => !prev)}
+            className="rounded-lg border border-neutral-300 px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+          >
+            {showTags ? "Hide Tags" : "Manage Tags"}
+          </button>
+        </div>
+        {showTags && (
+          <div className="mt-6">
+            <TagManager onChange={() => void refresh()} />
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-3xl border border-neutral-200 bg-white/80 p-8 shadow-sm backdrop-blur-sm">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-neutral-900">Trash</h2>
+            <p className="text-sm text-neutral-600">
+              Restore deleted videos before they are removed for good.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowTrash((prev) => !prev)}
+            className="rounded-lg border border-neutral-300 px-3 py-1.5 text-sm font-medium text-neutral-700 hover:bg-neutral-100"
+          >
+            {showTrash ? "Hide Trash" : "Show Trash"}
+          </button>
+        </div>
+        {showTrash && (
+          <div className="mt-6">
+            <TrashPanel key={trashKey} onRestore={() => void refresh()} />
+          </div>
+        )}
       </section>
     </div>
   );
@@ -0,0 +1,82 @@
+"use client";
+
+import { type ComponentProps, type RefObject, useEffect, useRef } from "react";
+import type { CaptionTrack } from "@/lib/types";
+
+const HLS_MIME_TYPE = "application/vnd.apple.mpegurl";
+
+type Props = Omit<ComponentProps<"video">, "src" | "ref"> & {
+  src: string;
+  hlsSrc?: string | null;
+  captions?: CaptionTrack[];
+  videoRef?: RefObject<HTMLVideoElement | null>;
+};
+
+export const VideoPlayer = ({
+  src,
+  hlsSrc,
+  captions = [],
+  videoRef,
+  ...props
+}: Props) => {
+  const fallbackRef = useRef<HTMLVideoElement | null>(null);
+  const ref = videoRef ?? fallbackRef;
+
+  useEffect(() => {
+    const video = ref.current;
+    if (!video || !hlsSrc) return;
+
+    const playOriginal = () => {
+      video.src = src;
+    };
+
+    if (video.canPlayType(HLS_MIME_TYPE)) {
+      video.src = hlsSrc;
+      video.addEventListener("error", playOriginal, { once: true });
+      return () => video.removeEventListener("error", playOriginal);
+    }
+
+    let cancelled = false;
+    let destroy: (() => void) | null = null;
+    import("hls.js")
+      .then(({ default: Hls }) => {
+        if (cancelled) return;
+        if (!Hls.isSupported()) {
+          playOriginal();
+          return;
+        }
+        const hls = new Hls();
+        destroy = () => hls.destroy();
+        hls.on(Hls.Events.ERROR, (_, data) => {
+          if (!data.fatal) return;
+          hls.destroy();
+          destroy = null;
+          playOriginal();
+        });
+        hls.loadSource(hlsSrc);
+        hls.attachMedia(video);
+      })
+      .catch(() => {
+        if (!cancelled) playOriginal();
+      });
+
+    return () => {
+      cancelled = true;
+      destroy?.();
+    };
+  }, [ref, src, hlsSrc]);
+
+  return (
+    <video ref={ref} src={hlsSrc ? undefined : src} {...props}>
+      {captions.map((caption) => (
+        <track
+          key={caption.id}
+          kind="subtitles"
+          src={caption.src}
+          srcLang={caption.language}
+          label={caption.label}
+        />
+      ))}
+    </video>
+  );
+};
@@ -0,0 +1,173 @@
+"use client";
+
+import Image from "next/image";
+import {
+  type MouseEvent,
+  type Ref,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import {
+  findThumbnailCue,
+  parseThumbnailVtt,
+} from "@/lib/thumbnail-track";
+import { formatTimecode } from "@/lib/timecode";
+import type { ThumbnailCue, VideoRecord } from "@/lib/types";
+import {
+  toCaptionTracks,
+  toHlsSource,
+  toPosterSource,
+  toStreamPath,
+  toThumbnailTrackSource,
+} from "@/lib/video-urls";
+import { VideoPlayer } from "@/components/video-player";
+
+export type VideoPreviewHandle = {
+  seek: (time: number) => void;
+  getCurrentTime: () => number | null;
+};
+
+type Props = {
+  video: VideoRecord;
+  ref?: Ref<VideoPreviewHandle>;
+};
+
+type ScrubState = {
+  ratio: number;
+  cue: ThumbnailCue | null;
+};
+
+export const VideoPreview = ({ video, ref }: Props) => {
+  const [playing, setPlaying] = useState(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const pendingSeek = useRef<number | null>(null);
+  const [track, setTrack] = useState<{
+    src: string;
+    cues: ThumbnailCue[];
+  } | null>(null);
+  const [scrub, setScrub] = useState<ScrubState | null>(null);
+  const requestedTrack = useRef<string | null>(null);
+  const posterSrc = toPosterSource(video);
+  const trackSrc = toThumbnailTrackSource(video);
+  const cues = track && track.src === trackSrc ? track.cues : null;
+  const duration = video.media?.durationSeconds ?? null;
+
+  useImperativeHandle(ref, () => ({
+    seek: (time) => {
+      const player = videoRef.current;
+      if (!playing || !player) {
+        pendingSeek.current = time;
+        setPlaying(true);
+        return;
+      }
+      player.currentTime = time;
+      void player.play().catch(() => undefined);
+    },
+    getCurrentTime: () => videoRef.current?.currentTime ?? null,
+  }));
+
+  const loadCues = () => {
+    if (!trackSrc || requestedTrack.current === trackSrc) return;
+    requestedTrack.current = trackSrc;
+    const baseUrl = new URL(trackSrc, window.location.origin).toString();
+    fetch(trackSrc)
+      .then((response) => (response.ok ? response.text() : ""))
+      .then((text) =>
+        setTrack({ src: trackSrc, cues: parseThumbnailVtt(text, baseUrl) })
+      )
+      .catch(() => setTrack({ src: trackSrc, cues: [] }));
+  };
+
+  const handleMouseMove = (event: MouseEvent<HTMLButtonElement>) => {
+    if (!duration) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(
+      Math.max((event.clientX - bounds.left) / bounds.width, 0),
+      1
+    );
+    setScrub({
+      ratio,
+      cue: cues ? findThumbnailCue(cues, ratio * duration) : null,
+    });
+  };
+
+  if (playing) {
+    return (
+      <VideoPlayer
+        videoRef={videoRef}
+        controls
+        autoPlay
+        onLoadedMetadata={(event) => {
+          if (pendingSeek.current === null) return;
+          event.currentTarget.currentTime = pendingSeek.current;
+          pendingSeek.current = null;
+        }}
+        className="h-full w-full object-cover"
+        src={toStreamPath(video.id)}
+        hlsSrc={toHlsSource(video)}
+        poster={posterSrc ?? undefined}
+        captions={toCaptionTracks(video)}
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setPlaying(true)}
+      onMouseEnter={loadCues}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setScrub(null)}
+      className="group relative block h-full w-full"
+      aria-label={`Play ${video.title}`}
+    >
+      {posterSrc ? (
+        <Image
+          src={posterSrc}
+          alt=""
+          fill
+          unoptimized
+          sizes="(min-width: 1024px) 50vw, 100vw"
+          className="object-cover"
+        />
+      ) : (
+        <span className="flex h-full w-full items-center justify-center bg-gradient-to-br from-neutral-800 to-neutral-950 text-sm text-neutral-400">
+          No poster yet
+        </span>
+      )}
+      <span className="absolute inset-0 flex items-center justify-center">
+        <span className="flex h-14 w-14 items-center justify-center rounded-full bg-black/60 text-2xl text-white transition group-hover:bg-indigo-600">
+          ▶
+        </span>
+      </span>
+      {scrub && duration && (
+        <>
+          {scrub.cue && (
+            <span
+              className="pointer-events-none absolute bottom-4 overflow-hidden rounded-md border border-white/80 shadow-lg"
+              style={{
+                left: `clamp(0px, calc(${scrub.ratio * 100}% - ${
+                  scrub.cue.width / 2
+                }px), calc(100% - ${scrub.cue.width}px))`,
+                width: scrub.cue.width,
+                height: scrub.cue.height,
+                backgroundImage: `url("${scrub.cue.url}")`,
+                backgroundPosition: `-${scrub.cue.x}px -${scrub.cue.y}px`,
+              }}
+            />
+          )}
+          <span className="pointer-events-none absolute bottom-1 left-2 rounded bg-black/70 px-1.5 py-0.5 text-xs font-medium text-white">
+            {formatTimecode(scrub.ratio * duration)}
+          </span>
+          <span className="pointer-events-none absolute inset-x-0 bottom-0 h-1 bg-white/30">
+            <span
+              className="block h-full bg-indigo-500"
+              style={{ width: `${scrub.ratio * 100}%` }}
+            />
+          </span>
+        </>
+      )}
+    </button>
+  );
+};
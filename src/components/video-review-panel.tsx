@@ -0,0 +1,443 @@
+"use client";
+
+import { type FormEvent, useEffect, useState } from "react";
+import { readApiError } from "@/lib/api-client";
+import { formatTimecode, parseTimecode } from "@/lib/timecode";
+import type {
+  SessionUser,
+  VideoChapter,
+  VideoComment,
+  VideoRecord,
+} from "@/lib/types";
+
+type ChapterDraft = {
+  key: number;
+  title: string;
+  start: string;
+};
+
+type Props = {
+  video: VideoRecord;
+  user: SessionUser;
+  comments: VideoComment[];
+  onChange: (video: VideoRecord) => void;
+  onCommentsChange: (comments: VideoComment[]) => void;
+  onSeek: (time: number) => void;
+  getCurrentTime: () => number | null;
+};
+
+const toChapterDrafts = (chapters: VideoChapter[]): ChapterDraft[] =>
+  chapters.map((chapter, index) => ({
+    key: index,
+    title: chapter.title,
+    start: formatTimecode(chapter.startSeconds),
+  }));
+
+const formatDate = (isoString: string) =>
+  new Intl.DateTimeFormat("en", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(isoString));
+
+const inputClassName =
+  "rounded-lg border border-neutral-300 px-2 py-1.5 text-sm text-neutral-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200";
+
+export const VideoReviewPanel = ({
+  video,
+  user,
+  comments,
+  onChange,
+  onCommentsChange,
+  onSeek,
+  getCurrentTime,
+}: Props) => {
+  const [chapterDrafts, setChapterDrafts] = useState(() =>
+    toChapterDrafts(video.chapters ?? [])
+  );
+  const [savingChapters, setSavingChapters] = useState(false);
+  const [commentBody, setCommentBody] = useState("");
+  const [anchorToTime, setAnchorToTime] = useState(true);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const threads = comments
+    .filter((comment) => !comment.parentId)
+    .sort(
+      (a, b) =>
+        (a.timeSeconds ?? Infinity) - (b.timeSeconds ?? Infinity) ||
+        a.createdAt.localeCompare(b.createdAt)
+    );
+  const repliesTo = (parentId: string) =>
+    comments
+      .filter((comment) => comment.parentId === parentId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/videos/${video.id}/comments`, { cache: "no-store" })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw await readApiError(response, "Unable to load comments.");
+        }
+        return response.json();
+      })
+      .then((loaded: VideoComment[]) => {
+        if (!cancelled) onCommentsChange(loaded);
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(
+            loadError instanceof Error ? loadError.message : "Unexpected error"
+          );
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id, onCommentsChange]);
+
+  const request = async <T,>(
+    key: string,
+    input: string,
+    init: RequestInit,
+    fallback: string
+  ): Promise<T | null> => {
+    setPending(key);
+    setError(null);
+    try {
+      const response = await fetch(input, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!response.ok) {
+        throw await readApiError(response, fallback);
+      }
+      return (await response.json()) as T;
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : fallback);
+      return null;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const updateChapterDraft = (key: number, patch: Partial<ChapterDraft>) =>
+    setChapterDrafts((prev) =>
+      prev.map((draft) => (draft.key === key ? { ...draft, ...patch } : draft))
+    );
+
+  const addChapter = () =>
+    setChapterDrafts((prev) => [
+      ...prev,
+      {
+        key: Math.max(-1, ...prev.map((draft) => draft.key)) + 1,
+        title: "",
+        start: formatTimecode(getCurrentTime() ?? 0),
+      },
+    ]);
+
+  const saveChapters = async () => {
+    const chapters = chapterDrafts.map((draft) => ({
+      title: draft.title,
+      startSeconds: parseTimecode(draft.start),
+    }));
+    if (chapters.some((chapter) => chapter.startSeconds === null)) {
+      setError("Use times such as 90, 1:30, or 1:02:03.");
+      return;
+    }
+    setSavingChapters(true);
+    const saved = await request<VideoChapter[]>(
+      "chapters",
+      `/api/videos/${video.id}/chapters`,
+      { method: "PUT", body: JSON.stringify({ chapters }) },
+      "Unable to save the chapters."
+    );
+    setSavingChapters(false);
+    if (saved) {
+      setChapterDrafts(toChapterDrafts(saved));
+      onChange({ ...video, chapters: saved });
+    }
+  };
+
+  const postComment = async (
+    body: string,
+    options: { parentId?: string; timeSeconds?: number | null }
+  ) => {
+    const created = await request<VideoComment>(
+      options.parentId ? `reply-${options.parentId}` : "comment",
+      `/api/videos/${video.id}/comments`,
+      { method: "POST", body: JSON.stringify({ body, ...options }) },
+      "Unable to add the comment."
+    );
+    if (created) {
+      onCommentsChange([...comments, created]);
+    }
+    return created;
+  };
+
+  const handleComment = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const currentTime = anchorToTime ? getCurrentTime() : null;
+    const created = await postComment(commentBody, {
+      timeSeconds: currentTime === null ? null : Math.floor(currentTime),
+    });
+    if (created) setCommentBody("");
+  };
+
+  const handleReply = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!replyTo) return;
+    const created = await postComment(replyBody, { parentId: replyTo });
+    if (created) {
+      setReplyBody("");
+      setReplyTo(null);
+    }
+  };
+
+  const toggleResolved = async (comment: VideoComment) => {
+    const updated = await request<VideoComment>(
+      `resolve-${comment.id}`,
+      `/api/videos/${video.id}/comments/${comment.id}`,
+      { method: "PATCH", body: JSON.stringify({ resolved: !comment.resolved }) },
+      "Unable to update the comment."
+    );
+    if (updated) {
+      onCommentsChange(
+        comments.map((entry) => (entry.id === updated.id ? updated : entry))
+      );
+    }
+  };
+
+  const deleteComment = async (comment: VideoComment) => {
+    const deleted = await request<{ success: boolean }>(
+      `delete-${comment.id}`,
+      `/api/videos/${video.id}/comments/${comment.id}`,
+      { method: "DELETE" },
+      "Unable to delete the comment."
+    );
+    if (deleted) {
+      const removed = new Set([comment.id]);
+      for (const entry of comments) {
+        if (entry.parentId && removed.has(entry.parentId)) removed.add(entry.id);
+      }
+      onCommentsChange(comments.filter((entry) => !removed.has(entry.id)));
+    }
+  };
+
+  const renderComment = (comment: VideoComment) => (
+    <div className="flex flex-col gap-1">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-500">
+        {comment.timeSeconds !== null && !comment.parentId && (
+          <button
+            type="button"
+            onClick={() => onSeek(comment.timeSeconds ?? 0)}
+            className="rounded-md bg-amber-50 px-1.5 py-0.5 font-mono font-medium text-amber-700 hover:bg-amber-100"
+          >
+            {formatTimecode(comment.timeSeconds)}
+          </button>
+        )}
+        <span className="font-medium text-neutral-900">
+          {comment.authorName}
+        </span>
+        <span>{formatDate(comment.createdAt)}</span>
+        {comment.resolved && (
+          <span className="rounded-md bg-emerald-50 px-1.5 py-0.5 font-medium text-emerald-700">
+            Resolved
+          </span>
+        )}
+      </div>
+      <p className="whitespace-pre-wrap text-sm text-neutral-700">
+        {comment.body}
+      </p>
+      <div className="flex gap-3 text-xs font-medium text-neutral-500">
+        {!comment.parentId && (
+          <>
+            <button
+              type="button"
+              onClick={() => {
+                setReplyTo(replyTo === comment.id ? null : comment.id);
+                setReplyBody("");
+              }}
+              className="hover:text-indigo-600"
+            >
+              Reply
+            </button>
+            <button
+              type="button"
+              onClick={() => toggleResolved(comment)}
+              disabled={pending === `resolve-${comment.id}`}
+              className="hover:text-emerald-600 disabled:opacity-60"
+            >
+              {comment.resolved ? "Reopen" : "Resolve"}
+            </button>
+          </>
+        )}
+        {(comment.authorId === user.id ||
+          user.role === "admin" ||
+          video.ownerId === user.id) && (
+          <button
+            type="button"
+            onClick={() => deleteComment(comment)}
+            disabled={pending === `delete-${comment.id}`}
+            className="hover:text-red-600 disabled:opacity-60"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-4 rounded-xl border border-neutral-200 bg-neutral-50 p-4">
+      <section className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-neutral-700">Chapters</p>
+          <button
+            type="button"
+            onClick={addChapter}
+            className="rounded-md border border-neutral-300 px-2 py-1 text-xs font-medium text-neutral-700 hover:bg-neutral-100"
+          >
+            Add at current time
+          </button>
+        </div>
+        {chapterDrafts.length === 0 ? (
+          <p className="text-xs text-neutral-500">No chapters yet.</p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {chapterDrafts.map((draft) => (
+              <li key={draft.key} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    const time = parseTimecode(draft.start);
+                    if (time !== null) onSeek(time);
+                  }}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+                  aria-label="Seek to chapter"
+                >
+                  ▶
+                </button>
+                <input
+                  value={draft.start}
+                  onChange={(event) =>
+                    updateChapterDraft(draft.key, { start: event.target.value })
+                  }
+                  aria-label="Chapter start time"
+                  className={`w-20 font-mono ${inputClassName}`}
+                />
+                <input
+                  value={draft.title}
+                  onChange={(event) =>
+                    updateChapterDraft(draft.key, { title: event.target.value })
+                  }
+                  placeholder="Chapter title"
+                  aria-label="Chapter title"
+                  maxLength={100}
+                  className={`min-w-0 flex-1 ${inputClassName}`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setChapterDrafts((prev) =>
+                      prev.filter((entry) => entry.key !== draft.key)
+                    )
+                  }
+                  className="text-xs font-medium text-neutral-500 hover:text-red-600"
+                  aria-label="Remove chapter"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          type="button"
+          onClick={saveChapters}
+          disabled={savingChapters}
+          className="self-start rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
+        >
+          {savingChapters ? "Saving…" : "Save chapters"}
+        </button>
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <p className="text-sm font-medium text-neutral-700">Comments</p>
+        {threads.length === 0 ? (
+          <p className="text-xs text-neutral-500">No comments yet.</p>
+        ) : (
+          <ul className="flex flex-col gap-3">
+            {threads.map((thread) => (
+              <li
+                key={thread.id}
+                className={`flex flex-col gap-2 rounded-lg bg-white px-3 py-2 ${
+                  thread.resolved ? "opacity-70" : ""
+                }`}
+              >
+                {renderComment(thread)}
+                {repliesTo(thread.id).length > 0 && (
+                  <ul className="ml-4 flex flex-col gap-2 border-l border-neutral-200 pl-3">
+                    {repliesTo(thread.id).map((reply) => (
+                      <li key={reply.id}>{renderComment(reply)}</li>
+                    ))}
+                  </ul>
+                )}
+                {replyTo === thread.id && (
+                  <form className="ml-4 flex gap-2" onSubmit={handleReply}>
+                    <input
+                      value={replyBody}
+                      onChange={(event) => setReplyBody(event.target.value)}
+                      placeholder="Write a reply"
+                      aria-label="Reply"
+                      maxLength={2000}
+                      className={`min-w-0 flex-1 ${inputClassName}`}
+                    />
+                    <button
+                      type="submit"
+                      disabled={pending === `reply-${thread.id}`}
+                      className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
+                    >
+                      Reply
+                    </button>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <form className="flex flex-col gap-2" onSubmit={handleComment}>
+          <textarea
+            value={commentBody}
+            onChange={(event) => setCommentBody(event.target.value)}
+            rows={2}
+            placeholder="Leave feedback"
+            aria-label="Comment"
+            maxLength={2000}
+            className={inputClassName}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs text-neutral-600">
+              <input
+                type="checkbox"
+                checked={anchorToTime}
+                onChange={(event) => setAnchorToTime(event.target.checked)}
+              />
+              Attach to the current playback time
+            </label>
+            <button
+              type="submit"
+              disabled={pending === "comment"}
+              className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-500 disabled:cursor-not-allowed disabled:bg-indigo-300"
+            >
+              {pending === "comment" ? "Posting…" : "Comment"}
+            </button>
+          </div>
+        </form>
+      </section>
+
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,10 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startVideoProcessing } = await import("./lib/video-processing");
+    startVideoProcessing();
+    const { startTrashPurge } = await import("./lib/video-trash");
+    startTrashPurge();
+    const { startWebhookDelivery } = await import("./lib/webhooks");
+    startWebhookDelivery();
+  }
+}
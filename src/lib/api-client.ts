@@ -0,0 +1,19 @@
+export class ApiResponseError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly payload: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "ApiResponseError";
+  }
+}
+
+export const readApiError = async (response: Response, fallback: string) => {
+  const payload = await response.json().catch(() => ({}));
+  return new ApiResponseError(
+    payload.error || fallback,
+    response.status,
+    payload
+  );
+};
@@ -0,0 +1,170 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { RequestError } from "./errors";
+import { getStorage, readStorageJson, writeStorageJson } from "./storage";
+import type {
+  ApiKeyRecord,
+  ApiKeyScope,
+  ApiKeySummary,
+  CreateApiKeyPayload,
+  SessionUser,
+} from "./types";
+
+const API_KEY_PREFIX = "auth/api-keys/";
+const TOKEN_PREFIX = "vlk_";
+const MAX_NAME_LENGTH = 100;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "videos:read",
+  "videos:write",
+  "videos:delete",
+  "webhooks:manage",
+];
+
+const keyPath = (id: string) => `${API_KEY_PREFIX}${id}.json`;
+
+let pendingKeyUpdate: Promise<unknown> = Promise.resolve();
+
+const withApiKeyLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingKeyUpdate.then(task, task);
+  pendingKeyUpdate = run.catch(() => undefined);
+  return run;
+};
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+const toSummary = (record: ApiKeyRecord): ApiKeySummary => ({
+  id: record.id,
+  ownerId: record.ownerId,
+  name: record.name,
+  prefix: record.prefix,
+  scopes: record.scopes,
+  createdAt: record.createdAt,
+  expiresAt: record.expiresAt,
+  lastUsedAt: record.lastUsedAt,
+});
+
+const parseScopes = (scopes: unknown): ApiKeyScope[] => {
+  const requested = Array.isArray(scopes) ? scopes.map((scope) => `${scope}`) : [];
+  const invalid = requested.filter(
+    (scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope)
+  );
+  if (requested.length === 0 || invalid.length > 0) {
+    throw new RequestError(
+      `Scopes must be one or more of ${API_KEY_SCOPES.join(", ")}.`,
+      400,
+      { code: "invalid_scope", field: "scopes" }
+    );
+  }
+  return API_KEY_SCOPES.filter((scope) => requested.includes(scope));
+};
+
+const parseExpiry = (expiresAt: unknown) => {
+  if (expiresAt === undefined || expiresAt === null || expiresAt === "") {
+    return null;
+  }
+  const time = new Date(`${expiresAt}`).getTime();
+  if (Number.isNaN(time) || time <= Date.now()) {
+    throw new RequestError("expiresAt must be a date in the future.", 400, {
+      code: "invalid_expiry",
+      field: "expiresAt",
+    });
+  }
+  return new Date(time).toISOString();
+};
+
+export const listApiKeys = async (
+  user: SessionUser
+): Promise<ApiKeySummary[]> => {
+  const blobs = await getStorage().list(API_KEY_PREFIX);
+  const records = await Promise.all(
+    blobs.map((blob) => readStorageJson<ApiKeyRecord>(blob.pathname))
+  );
+  return records
+    .filter(
+      (record): record is ApiKeyRecord => record?.ownerId === user.id
+    )
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const createApiKey = async (
+  payload: CreateApiKeyPayload,
+  user: SessionUser
+): Promise<{ key: ApiKeySummary; token: string }> => {
+  const name = `${payload.name ?? ""}`.trim() || "API key";
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new RequestError(
+      `Key names can be at most ${MAX_NAME_LENGTH} characters.`,
+      400,
+      { code: "metadata_too_long", field: "name", limit: MAX_NAME_LENGTH }
+    );
+  }
+
+  const id = randomBytes(8).toString("hex");
+  const token = `${TOKEN_PREFIX}${id}_${randomBytes(32).toString("base64url")}`;
+  const record: ApiKeyRecord = {
+    id,
+    ownerId: user.id,
+    name,
+    prefix: token.slice(0, TOKEN_PREFIX.length + 8),
+    keyHash: hashToken(token),
+    scopes: parseScopes(payload.scopes),
+    createdAt: new Date().toISOString(),
+    expiresAt: parseExpiry(payload.expiresAt),
+    lastUsedAt: null,
+  };
+  await writeStorageJson(keyPath(id), record);
+  return { key: toSummary(record), token };
+};
+
+export const revokeApiKey = (id: string, user: SessionUser) =>
+  withApiKeyLock(async () => {
+    const record = /^[0-9a-f]{16}$/.test(id)
+      ? await readStorageJson<ApiKeyRecord>(keyPath(id))
+      : null;
+    if (!record || record.ownerId !== user.id) {
+      throw new RequestError("API key not found.", 404);
+    }
+    await getStorage().del([keyPath(id)]);
+  });
+
+const recordKeyUse = (id: string, lastUsedAt: string) =>
+  withApiKeyLock(async () => {
+    const current = await readStorageJson<ApiKeyRecord>(keyPath(id));
+    if (!current) return null;
+    const used = { ...current, lastUsedAt };
+    await writeStorageJson(keyPath(id), used).catch((error) =>
+      console.error(`Failed to record use of API key ${id}`, error)
+    );
+    return used;
+  });
+
+export const verifyApiKey = async (
+  token: string
+): Promise<ApiKeyRecord | null> => {
+  const match = token.match(/^vlk_([0-9a-f]{16})_[\w-]+$/);
+  if (!match) return null;
+  const record = await readStorageJson<ApiKeyRecord>(keyPath(match[1]));
+  if (
+    !record ||
+    !timingSafeEqual(
+      Buffer.from(hashToken(token), "hex"),
+      Buffer.from(record.keyHash, "hex")
+    )
+  ) {
+    return null;
+  }
+  const now = Date.now();
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= now) {
+    return null;
+  }
+  if (
+    !record.lastUsedAt ||
+    now - new Date(record.lastUsedAt).getTime() >= LAST_USED_RESOLUTION_MS
+  ) {
+    return recordKeyUse(record.id, new Date(now).toISOString());
+  }
+  return record;
+};
@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from "node:crypto";
+import { cookies, headers } from "next/headers";
+import type { NextResponse } from "next/server";
+import { verifyApiKey } from "./api-keys";
+import { RequestError } from "./errors";
+import { getStorage, readStorageJson, writeStorageJson } from "./storage";
+import type { ApiKeyScope, AuthSession, SessionUser } from "./types";
+import { getUser, toSessionUser } from "./users";
+
+export const SESSION_COOKIE = "video_session";
+
+const SESSION_PREFIX = "auth/sessions/";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type Principal = {
+  user: SessionUser;
+  scopes: ApiKeyScope[] | null;
+};
+
+const sessionPath = (token: string) =>
+  `${SESSION_PREFIX}${createHash("sha256").update(token).digest("hex")}.json`;
+
+export const startSession = async (
+  response: NextResponse,
+  user: SessionUser
+) => {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const session: AuthSession = {
+    userId: user.id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  };
+  await writeStorageJson(sessionPath(token), session);
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(session.expiresAt),
+  });
+  return response;
+};
+
+export const endSession = async (response: NextResponse) => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) {
+    await getStorage().del([sessionPath(token)]);
+  }
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+};
+
+export const getCurrentUser = async (): Promise<SessionUser | null> => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  const session = await readStorageJson<AuthSession>(sessionPath(token));
+  if (!session) return null;
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    await getStorage().del([sessionPath(token)]);
+    return null;
+  }
+  const user = await getUser(session.userId);
+  return user ? toSessionUser(user) : null;
+};
+
+const readBearerToken = async () => {
+  const match = (await headers())
+    .get("authorization")
+    ?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1] ?? null;
+};
+
+const authenticate = async (): Promise<Principal | null> => {
+  const token = await readBearerToken();
+  if (!token) {
+    const user = await getCurrentUser();
+    return user ? { user, scopes: null } : null;
+  }
+  const key = await verifyApiKey(token);
+  const user = key ? await getUser(key.ownerId) : null;
+  return key && user ? { user: toSessionUser(user), scopes: key.scopes } : null;
+};
+
+export const findRequestUser = async (
+  scope: ApiKeyScope
+): Promise<SessionUser | null> => {
+  const principal = await authenticate();
+  return principal && (!principal.scopes || principal.scopes.includes(scope))
+    ? principal.user
+    : null;
+};
+
+export const requirePrincipal = async (): Promise<Principal> => {
+  const principal = await authenticate();
+  if (!principal) {
+    throw new RequestError("Sign in or provide a valid API key.", 401, {
+      code: "unauthorized",
+    });
+  }
+  return principal;
+};
+
+export const authorizeScope = (
+  principal: Principal,
+  scope?: ApiKeyScope
+): SessionUser => {
+  if (principal.scopes && !(scope && principal.scopes.includes(scope))) {
+    throw new RequestError(
+      scope
+        ? `This API key is missing the ${scope} scope.`
+        : "API keys cannot be used for this request.",
+      403,
+      { code: "insufficient_scope", ...(scope ? { scope } : {}) }
+    );
+  }
+  return principal.user;
+};
+
+export const requireUser = async (scope?: ApiKeyScope): Promise<SessionUser> =>
+  authorizeScope(await requirePrincipal(), scope);
+
+export const requireAdmin = async (): Promise<SessionUser> => {
+  const user = await requireUser();
+  if (user.role !== "admin") {
+    throw new RequestError("Only administrators can do that.", 403, {
+      code: "forbidden",
+    });
+  }
+  return user;
+};
@@ -0,0 +1,115 @@
+import { RequestError } from "./errors";
+
+export type ParsedCaptions = {
+  vtt: string;
+  cueCount: number;
+  text: string;
+};
+
+const VTT_TIMING =
+  /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/;
+const SRT_TIMING =
+  /^(\d+:\d{2}:\d{2})[,.](\d{1,3})\s*-->\s*(\d+:\d{2}:\d{2})[,.](\d{1,3})(.*)$/;
+const MAX_SEARCH_TEXT_LENGTH = 100_000;
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&nbsp;": " ",
+  "&lrm;": "",
+  "&rlm;": "",
+};
+
+const invalidCaptions = (message: string) =>
+  new RequestError(message, 400, { code: "invalid_captions", field: "file" });
+
+const stripBom = (text: string) => text.replace(/^\uFEFF/, "");
+
+const splitBlocks = (text: string) =>
+  stripBom(text)
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .map((block) => block.split("\n").filter((line) => line.trim() !== ""))
+    .filter((lines) => lines.length > 0);
+
+const toPlainText = (line: string) =>
+  line
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => ENTITIES[entity])
+    .trim();
+
+const padMilliseconds = (value: string) => value.padEnd(3, "0");
+
+const convertSrt = (text: string) =>
+  splitBlocks(text).flatMap((lines) => {
+    const timingIndex = lines.findIndex((line) => SRT_TIMING.test(line.trim()));
+    if (timingIndex < 0) return [];
+    const [, start, startMs, end, endMs] =
+      lines[timingIndex].trim().match(SRT_TIMING) ?? [];
+    const body = lines
+      .slice(timingIndex + 1)
+      .map((line) =>
+        line
+          .replace(/\{\\[^}]*\}/g, "")
+          .replace(/<\/?font[^>]*>/gi, "")
+      );
+    return [
+      [
+        `${start}.${padMilliseconds(startMs)} --> ${end}.${padMilliseconds(endMs)}`,
+        ...body,
+      ].join("\n"),
+    ];
+  });
+
+const readCues = (vtt: string) =>
+  splitBlocks(vtt)
+    .slice(1)
+    .flatMap((lines) => {
+      const timingIndex = lines.findIndex((line) => VTT_TIMING.test(line.trim()));
+      return timingIndex < 0 ? [] : [lines.slice(timingIndex + 1)];
+    });
+
+const isWebVtt = (text: string) =>
+  /^WEBVTT(?:[ \t].*)?$/.test(stripBom(text).split(/\r?\n/)[0]);
+
+export const parseCaptionFile = (
+  fileName: string,
+  bytes: Uint8Array
+): ParsedCaptions => {
+  const source = new TextDecoder("utf-8").decode(bytes);
+  let vtt: string;
+  if (isWebVtt(source)) {
+    vtt = stripBom(source).replace(/\r\n?/g, "\n");
+  } else if (
+    /\.srt$/i.test(fileName) ||
+    splitBlocks(source).some((lines) =>
+      lines.some((line) => SRT_TIMING.test(line.trim()))
+    )
+  ) {
+    const cues = convertSrt(source);
+    if (cues.length === 0) {
+      throw invalidCaptions("The SRT file does not contain any cues.");
+    }
+    vtt = ["WEBVTT", ...cues, ""].join("\n\n");
+  } else {
+    throw new RequestError("Captions must be WebVTT or SRT files.", 415, {
+      code: "unsupported_captions",
+      field: "file",
+    });
+  }
+
+  const cues = readCues(vtt);
+  if (cues.length === 0) {
+    throw invalidCaptions("The caption file does not contain any cues.");
+  }
+  return {
+    vtt,
+    cueCount: cues.length,
+    text: cues
+      .map((lines) => lines.map(toPlainText).filter(Boolean).join(" "))
+      .filter(Boolean)
+      .join("\n")
+      .slice(0, MAX_SEARCH_TEXT_LENGTH),
+  };
+};
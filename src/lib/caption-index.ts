@@ -0,0 +1,47 @@
+import { readStorageJson, writeStorageJson } from "./storage";
+import type { CaptionTextIndex } from "./types";
+
+const CAPTION_INDEX_PATH = "videos/caption-index.json";
+
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+const withIndexLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingWrite.then(task, task);
+  pendingWrite = run.catch(() => undefined);
+  return run;
+};
+
+export const readCaptionTextIndex = async (): Promise<
+  CaptionTextIndex["videos"]
+> =>
+  (await readStorageJson<CaptionTextIndex>(CAPTION_INDEX_PATH))?.videos ?? {};
+
+const mutateCaptionTextIndex = (
+  mutate: (videos: CaptionTextIndex["videos"]) => void
+) =>
+  withIndexLock(async () => {
+    const videos = await readCaptionTextIndex();
+    mutate(videos);
+    await writeStorageJson(CAPTION_INDEX_PATH, {
+      version: 1,
+      updatedAt: new Date().toISOString(),
+      videos,
+    } satisfies CaptionTextIndex);
+  });
+
+export const storeCaptionTexts = (entries: CaptionTextIndex["videos"]) =>
+  mutateCaptionTextIndex((videos) => {
+    for (const [videoId, texts] of Object.entries(entries)) {
+      videos[videoId] = { ...videos[videoId], ...texts };
+    }
+  });
+
+export const removeCaptionText = (videoId: string, captionId: string) =>
+  mutateCaptionTextIndex((videos) => {
+    delete videos[videoId]?.[captionId];
+  });
+
+export const removeVideoCaptionTexts = (videoId: string) =>
+  mutateCaptionTextIndex((videos) => {
+    delete videos[videoId];
+  });
@@ -0,0 +1,53 @@
+import { getStorage, readStorageJson, writeStorageJson } from "./storage";
+import type { VideoCollection } from "./types";
+
+const COLLECTION_PREFIX = "videos/collections/";
+
+const collectionPath = (id: string) => `${COLLECTION_PREFIX}${id}.json`;
+
+let pendingCollectionUpdate: Promise<unknown> = Promise.resolve();
+
+export const withCollectionLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingCollectionUpdate.then(task, task);
+  pendingCollectionUpdate = run.catch(() => undefined);
+  return run;
+};
+
+export const readCollection = (id: string) =>
+  /^[0-9a-f-]{36}$/i.test(id)
+    ? readStorageJson<VideoCollection>(collectionPath(id))
+    : Promise.resolve(null);
+
+export const readAllCollections = async (): Promise<VideoCollection[]> => {
+  const blobs = await getStorage().list(COLLECTION_PREFIX);
+  const collections = await Promise.all(
+    blobs.map((blob) => readStorageJson<VideoCollection>(blob.pathname))
+  );
+  return collections.filter(
+    (collection): collection is VideoCollection => collection !== null
+  );
+};
+
+export const writeCollection = async (collection: VideoCollection) => {
+  await writeStorageJson(collectionPath(collection.id), collection);
+  return collection;
+};
+
+export const deleteCollectionFile = (id: string) =>
+  getStorage().del([collectionPath(id)]);
+
+export const removeVideoFromCollections = (videoId: string) =>
+  withCollectionLock(async () => {
+    const affected = (await readAllCollections()).filter((collection) =>
+      collection.videoIds.includes(videoId)
+    );
+    for (const collection of affected) {
+      await writeCollection({
+        ...collection,
+        videoIds: collection.videoIds.filter((id) => id !== videoId),
+        coverVideoId:
+          collection.coverVideoId === videoId ? null : collection.coverVideoId,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  });
@@ -0,0 +1,21 @@
+const escapeAttribute = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+export const buildEmbedCode = ({
+  src,
+  title,
+  width = 640,
+  height = 360,
+}: {
+  src: string;
+  title: string;
+  width?: number;
+  height?: number;
+}) =>
+  `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(
+    title
+  )}" width="${width}" height="${height}" frameborder="0" allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>`;
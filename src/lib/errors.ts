@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+export const toErrorResponse = (
+  error: unknown,
+  fallbackMessage: string,
+  init?: ResponseInit
+) =>
+  error instanceof RequestError
+    ? NextResponse.json(
+        { error: error.message, ...error.details },
+        { ...init, status: error.status }
+      )
+    : NextResponse.json(
+        { error: fallbackMessage },
+        { ...init, status: 500 }
+      );
+
+export const readJsonBody = async <T>(request: Request): Promise<T> => {
+  const payload: unknown = await request.json().catch(() => null);
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new RequestError("The request body must be a JSON object.", 400, {
+      code: "invalid_json",
+    });
+  }
+  return payload as T;
+};
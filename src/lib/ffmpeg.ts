@@ -0,0 +1,89 @@
+import { spawn } from "node:child_process";
+import { createWriteStream } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { getStorage } from "./storage";
+import type { PersistedVideoRecord } from "./types";
+
+const STDERR_TAIL_LENGTH = 4000;
+
+let ffmpegAvailable: Promise<boolean> | null = null;
+
+const getFfmpegPath = () => process.env.FFMPEG_PATH || "ffmpeg";
+
+export const isFfmpegAvailable = () => {
+  ffmpegAvailable ??= new Promise<boolean>((resolve) => {
+    const child = spawn(getFfmpegPath(), ["-version"], { stdio: "ignore" });
+    child.on("error", () => resolve(false));
+    child.on("close", (code) => resolve(code === 0));
+  });
+  return ffmpegAvailable;
+};
+
+export const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const parseProgressTime = (output: string) => {
+  const matches = [...output.matchAll(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g)];
+  const last = matches[matches.length - 1];
+  return last
+    ? Number(last[1]) * 3600 + Number(last[2]) * 60 + Number(last[3])
+    : null;
+};
+
+export const runFfmpeg = (
+  args: string[],
+  signal: AbortSignal,
+  onTime: (seconds: number) => void = () => undefined
+) =>
+  new Promise<void>((resolve, reject) => {
+    const child = spawn(getFfmpegPath(), ["-hide_banner", "-y", ...args], {
+      stdio: ["ignore", "ignore", "pipe"],
+      signal,
+    });
+    let stderr = "";
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => {
+      stderr = (stderr + chunk).slice(-STDERR_TAIL_LENGTH);
+      const seconds = parseProgressTime(chunk);
+      if (seconds !== null) onTime(seconds);
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      console.error(`ffmpeg exited with code ${code}`, stderr);
+      reject(new Error(`ffmpeg exited with code ${code}.`));
+    });
+  });
+
+export const withWorkDir = async <T>(
+  prefix: string,
+  task: (workDir: string) => Promise<T>
+): Promise<T> => {
+  const workDir = await mkdtemp(path.join(tmpdir(), prefix));
+  try {
+    return await task(workDir);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
+
+export const downloadSource = async (
+  record: PersistedVideoRecord,
+  destination: string
+) => {
+  const body = await getStorage().read(record.storagePath);
+  if (!body) {
+    throw new Error("The original video file is missing.");
+  }
+  await pipeline(
+    Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+    createWriteStream(destination)
+  );
+};
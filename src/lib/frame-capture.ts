@@ -0,0 +1,80 @@
+const DEFAULT_MAX_WIDTH = 1280;
+const DEFAULT_QUALITY = 0.85;
+const FILE_CAPTURE_TIMEOUT_MS = 10_000;
+
+type CaptureOptions = {
+  maxWidth?: number;
+  quality?: number;
+};
+
+export const captureVideoFrame = (
+  video: HTMLVideoElement,
+  { maxWidth = DEFAULT_MAX_WIDTH, quality = DEFAULT_QUALITY }: CaptureOptions = {}
+): Promise<Blob> => {
+  if (!video.videoWidth || !video.videoHeight) {
+    return Promise.reject(new Error("The video has no frame to capture yet."));
+  }
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return Promise.reject(new Error("Frame capture is not supported here."));
+  }
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Unable to capture the frame.")),
+      "image/jpeg",
+      quality
+    )
+  );
+};
+
+export const captureFileFrame = (
+  file: File,
+  options?: CaptureOptions
+): Promise<{ blob: Blob; time: number }> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  video.playsInline = true;
+
+  return new Promise<{ blob: Blob; time: number }>((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new Error("Timed out while capturing a poster frame.")),
+      FILE_CAPTURE_TIMEOUT_MS
+    );
+    const fail = () => {
+      clearTimeout(timeout);
+      reject(new Error("This browser cannot decode the selected video."));
+    };
+    video.addEventListener("error", fail, { once: true });
+    video.addEventListener(
+      "loadedmetadata",
+      () => {
+        const duration = Number.isFinite(video.duration) ? video.duration : 0;
+        video.currentTime = Math.min(1, duration * 0.1);
+      },
+      { once: true }
+    );
+    video.addEventListener(
+      "seeked",
+      () => {
+        captureVideoFrame(video, options)
+          .then((blob) => resolve({ blob, time: video.currentTime }))
+          .catch(reject)
+          .finally(() => clearTimeout(timeout));
+      },
+      { once: true }
+    );
+    video.src = url;
+  }).finally(() => {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  });
+};
@@ -0,0 +1,45 @@
+import type { ByteRange } from "./storage";
+
+export type RangeRequest =
+  | { kind: "full" }
+  | { kind: "partial"; range: ByteRange }
+  | { kind: "unsatisfiable" };
+
+export const parseRangeHeader = (
+  header: string | null,
+  size: number
+): RangeRequest => {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/i);
+  if (!match || (!match[1] && !match[2])) return { kind: "full" };
+
+  const [, first, last] = match;
+  if (!first) {
+    const suffix = Number(last);
+    if (suffix === 0) return { kind: "unsatisfiable" };
+    return {
+      kind: "partial",
+      range: { start: Math.max(size - suffix, 0), end: size - 1 },
+    };
+  }
+
+  const start = Number(first);
+  const end = last ? Math.min(Number(last), size - 1) : size - 1;
+  if (start >= size || end < start) return { kind: "unsatisfiable" };
+  return { kind: "partial", range: { start, end } };
+};
+
+export const matchesEtag = (header: string | null, etag: string) =>
+  !!header &&
+  (header.trim() === "*" ||
+    header
+      .split(",")
+      .map((candidate) => candidate.trim().replace(/^W\//, ""))
+      .includes(etag));
+
+export const isNotModifiedSince = (header: string | null, modified: Date) => {
+  const since = header ? new Date(header).getTime() : Number.NaN;
+  return (
+    !Number.isNaN(since) &&
+    Math.floor(modified.getTime() / 1000) <= Math.floor(since / 1000)
+  );
+};
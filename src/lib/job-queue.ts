@@ -0,0 +1,342 @@
+import { randomUUID } from "node:crypto";
+import { RequestError } from "./errors";
+import { getStorage, readStorageJson, writeStorageJson } from "./storage";
+import type { JobRecord, JobStatus, JobType } from "./types";
+
+const JOB_PREFIX = "videos/jobs/";
+const POLL_INTERVAL_MS = 2000;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const PROGRESS_STEP = 0.05;
+const FINISHED_STATUSES: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export type JobContext = {
+  job: JobRecord;
+  signal: AbortSignal;
+  reportProgress: (progress: number) => Promise<void>;
+};
+
+export type JobHandler = (context: JobContext) => Promise<void>;
+
+type JobListener = (job: JobRecord) => Promise<void>;
+
+type JobWorkerOptions = {
+  handlers: Record<JobType, JobHandler>;
+  onChange: JobListener;
+};
+
+type JobWorkerState = {
+  options: JobWorkerOptions | null;
+  running: Map<string, AbortController>;
+  timer: ReturnType<typeof setTimeout> | null;
+  started: boolean;
+  pending: Promise<unknown>;
+};
+
+type EnqueueJobOptions = {
+  type: JobType;
+  videoId: string;
+  ownerId: string;
+  dependsOn?: string | null;
+};
+
+const globalForJobWorker = globalThis as typeof globalThis & {
+  __videoJobWorker?: JobWorkerState;
+};
+
+const getWorkerState = () => {
+  globalForJobWorker.__videoJobWorker ??= {
+    options: null,
+    running: new Map(),
+    timer: null,
+    started: false,
+    pending: Promise.resolve(),
+  };
+  return globalForJobWorker.__videoJobWorker;
+};
+
+const withJobLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const state = getWorkerState();
+  const run = state.pending.then(task, task);
+  state.pending = run.catch(() => undefined);
+  return run;
+};
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const getConcurrency = () => readPositiveInt(process.env.JOB_CONCURRENCY, 1);
+
+const getMaxAttempts = () => readPositiveInt(process.env.JOB_MAX_ATTEMPTS, 3);
+
+const getRetentionMs = () =>
+  readPositiveInt(process.env.JOB_RETENTION_DAYS, 7) * 24 * 60 * 60 * 1000;
+
+const jobPath = (id: string) => `${JOB_PREFIX}${id}.json`;
+
+export const isJobFinished = (job: Pick<JobRecord, "status">) =>
+  FINISHED_STATUSES.includes(job.status);
+
+const backoffDelay = (attempts: number) =>
+  Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+const isRetryable = (error: unknown) =>
+  !(error instanceof RequestError && error.status < 500);
+
+const readAllJobs = async (): Promise<JobRecord[]> => {
+  const blobs = await getStorage().list(JOB_PREFIX);
+  const jobs = await Promise.all(
+    blobs.map((blob) => readStorageJson<JobRecord>(blob.pathname))
+  );
+  return jobs
+    .filter((job): job is JobRecord => job !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+const saveJob = async (job: JobRecord) => {
+  await writeStorageJson(jobPath(job.id), job);
+  const listener = getWorkerState().options?.onChange;
+  if (listener) {
+    await listener(job).catch((error) =>
+      console.error(`Failed to sync job ${job.id}`, error)
+    );
+  }
+  return job;
+};
+
+const updateJob = (job: JobRecord, changes: Partial<JobRecord>) =>
+  saveJob({ ...job, ...changes, updatedAt: new Date().toISOString() });
+
+const updateRunningJob = (job: JobRecord, changes: Partial<JobRecord>) =>
+  withJobLock(async () => {
+    const latest = (await readStorageJson<JobRecord>(jobPath(job.id))) ?? job;
+    return latest.status === "cancelled" ? latest : updateJob(latest, changes);
+  });
+
+export const getJob = async (id: string): Promise<JobRecord> => {
+  const job = /^[0-9a-f-]{36}$/i.test(id)
+    ? await readStorageJson<JobRecord>(jobPath(id))
+    : null;
+  if (!job) {
+    throw new RequestError("Job not found.", 404);
+  }
+  return job;
+};
+
+export const listJobs = async (
+  filter: (job: JobRecord) => boolean = () => true
+): Promise<JobRecord[]> =>
+  (await readAllJobs()).filter(filter).reverse();
+
+export const enqueueJob = async ({
+  type,
+  videoId,
+  ownerId,
+  dependsOn = null,
+}: EnqueueJobOptions): Promise<JobRecord> => {
+  const now = new Date().toISOString();
+  const job = await saveJob({
+    id: randomUUID(),
+    type,
+    videoId,
+    ownerId,
+    status: "queued",
+    attempts: 0,
+    maxAttempts: getMaxAttempts(),
+    progress: null,
+    error: null,
+    dependsOn,
+    runAt: now,
+    createdAt: now,
+    updatedAt: now,
+    startedAt: null,
+    finishedAt: null,
+  });
+  wakeJobWorker(0);
+  return job;
+};
+
+const cancelLoadedJob = async (job: JobRecord) => {
+  if (isJobFinished(job)) return job;
+  getWorkerState().running.get(job.id)?.abort();
+  return updateJob(job, {
+    status: "cancelled",
+    finishedAt: new Date().toISOString(),
+  });
+};
+
+export const cancelJob = (id: string): Promise<JobRecord> =>
+  withJobLock(async () => cancelLoadedJob(await getJob(id)));
+
+export const cancelJobsForVideo = (videoId: string) =>
+  withJobLock(async () => {
+    const jobs = (await readAllJobs()).filter(
+      (job) => job.videoId === videoId && !isJobFinished(job)
+    );
+    for (const job of jobs) {
+      await cancelLoadedJob(job);
+    }
+  });
+
+const isReady = (job: JobRecord, jobs: Map<string, JobRecord>, now: number) => {
+  if (job.status !== "queued" || new Date(job.runAt).getTime() > now) {
+    return false;
+  }
+  const dependency = job.dependsOn ? jobs.get(job.dependsOn) : undefined;
+  return !dependency || isJobFinished(dependency);
+};
+
+const claimJobs = (limit: number) =>
+  withJobLock(async () => {
+    const now = Date.now();
+    const jobs = await readAllJobs();
+    const byId = new Map(jobs.map((job) => [job.id, job]));
+    const retentionMs = getRetentionMs();
+    const expired = jobs.filter(
+      (job) =>
+        isJobFinished(job) &&
+        job.finishedAt !== null &&
+        now - new Date(job.finishedAt).getTime() > retentionMs
+    );
+    if (expired.length > 0) {
+      await getStorage().del(expired.map((job) => jobPath(job.id)));
+    }
+
+    const claimed: JobRecord[] = [];
+    for (const job of jobs) {
+      if (claimed.length >= limit) break;
+      if (!isReady(job, byId, now)) continue;
+      claimed.push(
+        await updateJob(job, {
+          status: "running",
+          attempts: job.attempts + 1,
+          progress: null,
+          startedAt: new Date(now).toISOString(),
+        })
+      );
+    }
+
+    const claimedIds = new Set(claimed.map((job) => job.id));
+    const waiting = jobs
+      .filter((job) => job.status === "queued" && !claimedIds.has(job.id))
+      .map((job) => Math.max(new Date(job.runAt).getTime() - now, 0));
+    return {
+      claimed,
+      nextDelay: waiting.length > 0 ? Math.min(...waiting) : null,
+    };
+  });
+
+const runJob = async (job: JobRecord, handler: JobHandler) => {
+  const state = getWorkerState();
+  const controller = new AbortController();
+  state.running.set(job.id, controller);
+  let current = job;
+  let lastReported = -1;
+
+  const reportProgress = async (progress: number) => {
+    if (controller.signal.aborted) return;
+    const value = Math.min(Math.max(progress, 0), 1);
+    if (value - lastReported < PROGRESS_STEP && value < 1) return;
+    lastReported = value;
+    current = await updateRunningJob(current, { progress: value });
+  };
+
+  try {
+    await handler({ job, signal: controller.signal, reportProgress });
+    await updateRunningJob(current, {
+      status: controller.signal.aborted ? "cancelled" : "succeeded",
+      progress: controller.signal.aborted ? current.progress : 1,
+      error: null,
+      finishedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Job failed.";
+    if (!controller.signal.aborted) {
+      console.error(`Job ${job.id} (${job.type}) failed`, error);
+    }
+    const retry =
+      !controller.signal.aborted &&
+      isRetryable(error) &&
+      current.attempts < current.maxAttempts;
+    await updateRunningJob(
+      current,
+      controller.signal.aborted
+        ? { status: "cancelled", finishedAt: new Date().toISOString() }
+        : retry
+          ? {
+              status: "queued",
+              error: message,
+              runAt: new Date(
+                Date.now() + backoffDelay(current.attempts)
+              ).toISOString(),
+            }
+          : {
+              status: "failed",
+              error: message,
+              finishedAt: new Date().toISOString(),
+            }
+    ).catch((saveError) =>
+      console.error(`Failed to record the result of job ${job.id}`, saveError)
+    );
+  } finally {
+    state.running.delete(job.id);
+    wakeJobWorker(0);
+  }
+};
+
+const tick = async () => {
+  const state = getWorkerState();
+  state.timer = null;
+  const options = state.options;
+  if (!options) return;
+  const capacity = getConcurrency() - state.running.size;
+  if (capacity <= 0) return;
+
+  try {
+    const { claimed, nextDelay } = await claimJobs(capacity);
+    for (const job of claimed) {
+      void runJob(job, options.handlers[job.type]);
+    }
+    if (nextDelay !== null) {
+      wakeJobWorker(Math.max(nextDelay, POLL_INTERVAL_MS));
+    }
+  } catch (error) {
+    console.error("Job worker tick failed", error);
+    wakeJobWorker(POLL_INTERVAL_MS);
+  }
+};
+
+const wakeJobWorker = (delay: number) => {
+  const state = getWorkerState();
+  if (!state.started) return;
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = setTimeout(() => void tick(), delay);
+  state.timer.unref?.();
+};
+
+const recoverInterruptedJobs = () =>
+  withJobLock(async () => {
+    const state = getWorkerState();
+    const interrupted = (await readAllJobs()).filter(
+      (job) => job.status === "running" && !state.running.has(job.id)
+    );
+    for (const job of interrupted) {
+      await updateJob(job, {
+        status: "queued",
+        error: "The worker stopped while this job was running.",
+        runAt: new Date().toISOString(),
+      });
+    }
+  });
+
+export const startJobWorker = (options: JobWorkerOptions) => {
+  const state = getWorkerState();
+  state.options = options;
+  if (state.started) return;
+  state.started = true;
+  recoverInterruptedJobs()
+    .catch((error) => console.error("Failed to recover jobs", error))
+    .finally(() => wakeJobWorker(0));
+};
@@ -0,0 +1,419 @@
+import { readStorageBytes } from "./storage";
+import type { MediaInfo, VideoContainer } from "./types";
+
+type RangeReader = (start: number, end: number) => Promise<Uint8Array>;
+
+type Box = {
+  type: string;
+  start: number;
+  headerSize: number;
+  size: number;
+};
+
+type EbmlElement = {
+  id: number;
+  dataStart: number;
+  dataEnd: number;
+};
+
+type TrackInfo = {
+  kind: "video" | "audio" | "other";
+  codec?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+};
+
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+const MATROSKA_PROBE_BYTES = 1024 * 1024;
+
+export const CONTAINER_CONTENT_TYPES: Record<VideoContainer, string> = {
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  matroska: "video/x-matroska",
+};
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: "h264",
+  avc3: "h264",
+  hvc1: "hevc",
+  hev1: "hevc",
+  av01: "av1",
+  vp08: "vp8",
+  vp09: "vp9",
+  mp4v: "mpeg4",
+  apch: "prores",
+  apcn: "prores",
+  apcs: "prores",
+  apco: "prores",
+  ap4h: "prores",
+  mp4a: "aac",
+  Opus: "opus",
+  "ac-3": "ac3",
+  "ec-3": "eac3",
+  fLaC: "flac",
+  ".mp3": "mp3",
+  alac: "alac",
+  lpcm: "pcm",
+  sowt: "pcm",
+  twos: "pcm",
+  "V_MPEG4/ISO/AVC": "h264",
+  "V_MPEGH/ISO/HEVC": "hevc",
+  V_AV1: "av1",
+  V_VP8: "vp8",
+  V_VP9: "vp9",
+  A_OPUS: "opus",
+  A_VORBIS: "vorbis",
+  A_AAC: "aac",
+  A_AC3: "ac3",
+  A_EAC3: "eac3",
+  A_FLAC: "flac",
+  "A_MPEG/L3": "mp3",
+};
+
+const QUICKTIME_TOP_LEVEL_BOXES = new Set(["moov", "mdat", "wide", "free", "skip"]);
+
+const toView = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const readAscii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const toCodecName = (codec: string) =>
+  CODEC_NAMES[codec] ?? codec.replace(/\0/g, "").trim().toLowerCase();
+
+const roundTo = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const sniffContainer = (header: Uint8Array): VideoContainer | null => {
+  if (
+    header.length >= 4 &&
+    header[0] === 0x1a &&
+    header[1] === 0x45 &&
+    header[2] === 0xdf &&
+    header[3] === 0xa3
+  ) {
+    return readAscii(header, 0, Math.min(header.length, 64)).includes("webm")
+      ? "webm"
+      : "matroska";
+  }
+  if (header.length >= 12) {
+    const type = readAscii(header, 4, 8);
+    if (type === "ftyp") {
+      return readAscii(header, 8, 12) === "qt  " ? "mov" : "mp4";
+    }
+    if (QUICKTIME_TOP_LEVEL_BOXES.has(type)) {
+      return "mov";
+    }
+  }
+  return null;
+};
+
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const view = toView(bytes);
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type, start: offset, headerSize, size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const childBoxes = (bytes: Uint8Array, box: Box, skip = 0) =>
+  readBoxes(bytes, box.start + box.headerSize + skip, box.start + box.size);
+
+const findBox = (boxes: Box[], type: string) =>
+  boxes.find((box) => box.type === type);
+
+const readTimescaleAndDuration = (bytes: Uint8Array, box: Box) => {
+  const view = toView(bytes);
+  const content = box.start + box.headerSize;
+  return bytes[content] === 1
+    ? {
+        timescale: view.getUint32(content + 20),
+        duration: Number(view.getBigUint64(content + 24)),
+      }
+    : {
+        timescale: view.getUint32(content + 12),
+        duration: view.getUint32(content + 16),
+      };
+};
+
+const parseIsoTrack = (bytes: Uint8Array, trak: Box): TrackInfo => {
+  const view = toView(bytes);
+  const trakChildren = childBoxes(bytes, trak);
+  const tkhd = findBox(trakChildren, "tkhd");
+  const mdia = findBox(trakChildren, "mdia");
+  const mdiaChildren = mdia ? childBoxes(bytes, mdia) : [];
+  const hdlr = findBox(mdiaChildren, "hdlr");
+  const mdhd = findBox(mdiaChildren, "mdhd");
+  const minf = findBox(mdiaChildren, "minf");
+  const stbl = minf ? findBox(childBoxes(bytes, minf), "stbl") : undefined;
+  const stblChildren = stbl ? childBoxes(bytes, stbl) : [];
+  const stsd = findBox(stblChildren, "stsd");
+  const stts = findBox(stblChildren, "stts");
+
+  const handler = hdlr
+    ? readAscii(bytes, hdlr.start + hdlr.headerSize + 8, hdlr.start + hdlr.headerSize + 12)
+    : "";
+  const kind = handler === "vide" ? "video" : handler === "soun" ? "audio" : "other";
+  const track: TrackInfo = { kind };
+
+  const sampleEntry = stsd ? childBoxes(bytes, stsd, 8)[0] : undefined;
+  if (sampleEntry) {
+    track.codec = toCodecName(sampleEntry.type);
+  }
+
+  if (kind !== "video") return track;
+
+  if (tkhd) {
+    const content = tkhd.start + tkhd.headerSize;
+    const sizeOffset = content + (bytes[content] === 1 ? 88 : 76);
+    if (sizeOffset + 8 <= tkhd.start + tkhd.size) {
+      track.width = Math.round(view.getUint32(sizeOffset) / 65536) || undefined;
+      track.height = Math.round(view.getUint32(sizeOffset + 4) / 65536) || undefined;
+    }
+  }
+  if ((!track.width || !track.height) && sampleEntry && sampleEntry.size >= 36) {
+    track.width = view.getUint16(sampleEntry.start + 32) || undefined;
+    track.height = view.getUint16(sampleEntry.start + 34) || undefined;
+  }
+
+  if (mdhd && stts) {
+    const { timescale, duration } = readTimescaleAndDuration(bytes, mdhd);
+    const content = stts.start + stts.headerSize;
+    const entryCount = view.getUint32(content + 4);
+    let sampleCount = 0;
+    for (let index = 0; index < entryCount; index += 1) {
+      const entry = content + 8 + index * 8;
+      if (entry + 8 > stts.start + stts.size) break;
+      sampleCount += view.getUint32(entry);
+    }
+    if (timescale > 0 && duration > 0 && sampleCount > 0) {
+      track.frameRate = roundTo((sampleCount * timescale) / duration, 3);
+    }
+  }
+
+  return track;
+};
+
+const probeIsoBmff = async (
+  read: RangeReader,
+  size: number,
+  container: VideoContainer
+) => {
+  let offset = 0;
+  let moov: Uint8Array | null = null;
+  while (offset + 8 <= size) {
+    const header = await read(offset, Math.min(offset + 15, size - 1));
+    if (header.length < 8) break;
+    const view = toView(header);
+    let boxSize = view.getUint32(0);
+    if (boxSize === 1) {
+      if (header.length < 16) break;
+      boxSize = Number(view.getBigUint64(8));
+    } else if (boxSize === 0) {
+      boxSize = size - offset;
+    }
+    if (boxSize < 8) break;
+    if (readAscii(header, 4, 8) === "moov") {
+      if (boxSize > MAX_MOOV_SIZE) break;
+      moov = await read(offset, Math.min(offset + boxSize, size) - 1);
+      break;
+    }
+    offset += boxSize;
+  }
+  if (!moov) return { container };
+
+  const [moovBox] = readBoxes(moov, 0, moov.length);
+  if (!moovBox) return { container };
+  const children = childBoxes(moov, moovBox);
+  const mvhd = findBox(children, "mvhd");
+  const { timescale, duration } = mvhd
+    ? readTimescaleAndDuration(moov, mvhd)
+    : { timescale: 0, duration: 0 };
+  const tracks = children
+    .filter((box) => box.type === "trak")
+    .map((trak) => parseIsoTrack(moov, trak));
+
+  return {
+    container,
+    durationSeconds:
+      timescale > 0 && duration > 0 ? roundTo(duration / timescale, 3) : undefined,
+    tracks,
+  };
+};
+
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+  let length = 1;
+  let mask = 0x80;
+  while (!(first & mask)) {
+    mask >>= 1;
+    length += 1;
+  }
+  if (offset + length > bytes.length) return null;
+  let value = keepMarker ? first : first & (mask - 1);
+  let allOnes = (first & (mask - 1)) === mask - 1;
+  for (let index = 1; index < length; index += 1) {
+    value = value * 256 + bytes[offset + index];
+    if (bytes[offset + index] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+const readEbmlElements = (
+  bytes: Uint8Array,
+  start: number,
+  end: number
+): EbmlElement[] => {
+  const elements: EbmlElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(bytes, offset, true);
+    const size = id ? readVint(bytes, offset + id.length, false) : null;
+    if (!id || !size) break;
+    const dataStart = offset + id.length + size.length;
+    const dataEnd = size.unknown ? end : Math.min(dataStart + size.value, end);
+    elements.push({ id: id.value, dataStart, dataEnd });
+    if (size.unknown || dataStart + size.value > end) break;
+    offset = dataEnd;
+  }
+  return elements;
+};
+
+const readEbmlUint = (bytes: Uint8Array, element: EbmlElement) => {
+  let value = 0;
+  for (let index = element.dataStart; index < element.dataEnd; index += 1) {
+    value = value * 256 + bytes[index];
+  }
+  return value;
+};
+
+const readEbmlFloat = (bytes: Uint8Array, element: EbmlElement) => {
+  const view = toView(bytes);
+  const length = element.dataEnd - element.dataStart;
+  if (length === 4) return view.getFloat32(element.dataStart);
+  if (length === 8) return view.getFloat64(element.dataStart);
+  return 0;
+};
+
+const findElement = (elements: EbmlElement[], id: number) =>
+  elements.find((element) => element.id === id);
+
+const parseMatroskaTrack = (bytes: Uint8Array, entry: EbmlElement): TrackInfo => {
+  const children = readEbmlElements(bytes, entry.dataStart, entry.dataEnd);
+  const trackType = findElement(children, 0x83);
+  const codecId = findElement(children, 0x86);
+  const defaultDuration = findElement(children, 0x23e383);
+  const video = findElement(children, 0xe0);
+  const type = trackType ? readEbmlUint(bytes, trackType) : 0;
+  const track: TrackInfo = {
+    kind: type === 1 ? "video" : type === 2 ? "audio" : "other",
+    codec: codecId
+      ? toCodecName(readAscii(bytes, codecId.dataStart, codecId.dataEnd))
+      : undefined,
+  };
+  if (track.kind === "video") {
+    const videoChildren = video
+      ? readEbmlElements(bytes, video.dataStart, video.dataEnd)
+      : [];
+    const width = findElement(videoChildren, 0xb0);
+    const height = findElement(videoChildren, 0xba);
+    track.width = width ? readEbmlUint(bytes, width) : undefined;
+    track.height = height ? readEbmlUint(bytes, height) : undefined;
+    const frameDuration = defaultDuration ? readEbmlUint(bytes, defaultDuration) : 0;
+    if (frameDuration > 0) {
+      track.frameRate = roundTo(1e9 / frameDuration, 3);
+    }
+  }
+  return track;
+};
+
+const probeMatroska = async (
+  read: RangeReader,
+  size: number,
+  container: VideoContainer
+) => {
+  const bytes = await read(0, Math.min(size, MATROSKA_PROBE_BYTES) - 1);
+  const [, segment] = readEbmlElements(bytes, 0, bytes.length);
+  if (!segment || segment.id !== 0x18538067) return { container };
+
+  let durationSeconds: number | undefined;
+  const tracks: TrackInfo[] = [];
+  for (const element of readEbmlElements(bytes, segment.dataStart, segment.dataEnd)) {
+    if (element.id === 0x1f43b675) break;
+    if (element.id === 0x1549a966) {
+      const info = readEbmlElements(bytes, element.dataStart, element.dataEnd);
+      const scale = findElement(info, 0x2ad7b1);
+      const duration = findElement(info, 0x4489);
+      const timecodeScale = scale ? readEbmlUint(bytes, scale) : 1_000_000;
+      if (duration) {
+        durationSeconds =
+          roundTo((readEbmlFloat(bytes, duration) * timecodeScale) / 1e9, 3) ||
+          undefined;
+      }
+    }
+    if (element.id === 0x1654ae6b) {
+      for (const entry of readEbmlElements(bytes, element.dataStart, element.dataEnd)) {
+        if (entry.id === 0xae) {
+          tracks.push(parseMatroskaTrack(bytes, entry));
+        }
+      }
+    }
+  }
+
+  return { container, durationSeconds, tracks };
+};
+
+export const probeMedia = async (
+  read: RangeReader,
+  size: number
+): Promise<MediaInfo | null> => {
+  if (size <= 0) return null;
+  const container = sniffContainer(await read(0, Math.min(size, 64) - 1));
+  if (!container) return null;
+
+  const probe =
+    container === "webm" || container === "matroska"
+      ? await probeMatroska(read, size, container)
+      : await probeIsoBmff(read, size, container);
+  const video = probe.tracks?.find((track) => track.kind === "video");
+  const audio = probe.tracks?.find((track) => track.kind === "audio");
+  const durationSeconds = probe.durationSeconds;
+
+  return {
+    container,
+    durationSeconds,
+    width: video?.width,
+    height: video?.height,
+    frameRate: video?.frameRate,
+    videoCodec: video?.codec,
+    audioCodec: audio?.codec,
+    bitrate: durationSeconds ? Math.round((size * 8) / durationSeconds) : undefined,
+    probedAt: new Date().toISOString(),
+  };
+};
+
+export const probeStoredMedia = (pathname: string, size: number) =>
+  probeMedia(async (start, end) => {
+    const bytes = await readStorageBytes(pathname, { start, end });
+    if (!bytes) {
+      throw new Error(`Stored file ${pathname} is missing.`);
+    }
+    return bytes;
+  }, size);
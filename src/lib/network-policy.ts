@@ -0,0 +1,81 @@
+import { lookup, type LookupAddress } from "node:dns";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { promisify } from "node:util";
+
+const RESERVED_IPV4_SUBNETS: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const RESERVED_IPV6_SUBNETS: [string, number][] = [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["100::", 64],
+  ["2001::", 23],
+  ["2001:db8::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+];
+
+const reservedAddresses = new BlockList();
+for (const [network, prefix] of RESERVED_IPV4_SUBNETS) {
+  reservedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of RESERVED_IPV6_SUBNETS) {
+  reservedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const lookupAll = promisify(lookup);
+
+export const isPublicAddress = (address: string) => {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    !reservedAddresses.check(address, family === 4 ? "ipv4" : "ipv6")
+  );
+};
+
+export const toHostname = (url: URL) => url.hostname.replace(/^\[|\]$/g, "");
+
+export const resolveHostAddresses = async (
+  hostname: string
+): Promise<LookupAddress[]> => lookupAll(hostname, { all: true });
+
+export const resolvePublicAddresses = async (hostname: string) => {
+  const addresses = await resolveHostAddresses(hostname);
+  if (
+    addresses.length === 0 ||
+    !addresses.every(({ address }) => isPublicAddress(address))
+  ) {
+    throw new Error(`${hostname} resolves to a private or reserved address.`);
+  }
+  return addresses;
+};
+
+export const pinLookup =
+  (addresses: LookupAddress[]): LookupFunction =>
+  (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
@@ -0,0 +1,101 @@
+import { buildEmbedCode } from "./embed-code";
+import { RequestError } from "./errors";
+import type { OEmbedResponse } from "./types";
+import { getUser } from "./users";
+import { inspectVideoAccess, isPubliclyViewable } from "./video-access";
+import { getSiteUrl } from "./site-url";
+import { toEmbedPath, toPosterSource } from "./video-urls";
+
+const PROVIDER_NAME = "Video Library";
+const DEFAULT_WIDTH = 640;
+
+const parseDimension = (value: string | null, field: string) => {
+  if (!value) return undefined;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 1) {
+    throw new RequestError(`${field} must be a positive integer.`, 400, {
+      code: "invalid_query",
+      field,
+    });
+  }
+  return parsed;
+};
+
+const fitSize = (
+  aspectRatio: number,
+  maxWidth?: number,
+  maxHeight?: number
+) => {
+  let width = Math.min(DEFAULT_WIDTH, maxWidth ?? DEFAULT_WIDTH);
+  let height = Math.round(width / aspectRatio);
+  if (maxHeight && height > maxHeight) {
+    height = maxHeight;
+    width = Math.round(height * aspectRatio);
+  }
+  return { width, height };
+};
+
+export const buildOEmbed = async (
+  params: URLSearchParams
+): Promise<OEmbedResponse> => {
+  const format = params.get("format") ?? "json";
+  if (format !== "json") {
+    throw new RequestError("Only the json format is supported.", 501, {
+      code: "unsupported_format",
+    });
+  }
+
+  const siteUrl = await getSiteUrl();
+  let target: URL;
+  try {
+    target = new URL(params.get("url") ?? "");
+  } catch {
+    throw new RequestError("url must be a watch page URL.", 400, {
+      code: "invalid_query",
+      field: "url",
+    });
+  }
+  const match = target.pathname.match(/^\/watch\/([0-9a-f-]{36})\/?$/i);
+  if (target.origin !== new URL(siteUrl).origin || !match) {
+    throw new RequestError("url must be a watch page URL.", 404, {
+      code: "unknown_url",
+      field: "url",
+    });
+  }
+
+  const token = target.searchParams.get("token");
+  const record = await inspectVideoAccess(match[1], token);
+  const { width, height } = fitSize(
+    record.media?.width && record.media?.height
+      ? record.media.width / record.media.height
+      : 16 / 9,
+    parseDimension(params.get("maxwidth"), "maxwidth"),
+    parseDimension(params.get("maxheight"), "maxheight")
+  );
+  const owner = await getUser(record.ownerId);
+  const posterSrc = isPubliclyViewable(record) ? toPosterSource(record) : null;
+
+  return {
+    version: "1.0",
+    type: "video",
+    provider_name: PROVIDER_NAME,
+    provider_url: siteUrl,
+    title: record.title,
+    ...(owner ? { author_name: owner.username } : {}),
+    width,
+    height,
+    html: buildEmbedCode({
+      src: `${siteUrl}${toEmbedPath(record.id, token)}`,
+      title: record.title,
+      width,
+      height,
+    }),
+    ...(posterSrc
+      ? {
+          thumbnail_url: `${siteUrl}${posterSrc}`,
+          thumbnail_width: width,
+          thumbnail_height: height,
+        }
+      : {}),
+  };
+};
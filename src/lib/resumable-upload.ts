@@ -0,0 +1,116 @@
+import { ApiResponseError, readApiError } from "./api-client";
+import type { CreateUploadPayload, UploadSession, VideoRecord } from "./types";
+
+const STORAGE_KEY_PREFIX = "video-upload:";
+const CHUNK_SIZE = 4 * 1024 * 1024;
+const MAX_RETRIES = 5;
+
+type UploadMetadata = Pick<CreateUploadPayload, "title" | "description" | "tags">;
+
+type ResumableUploadOptions = {
+  metadata: UploadMetadata;
+  onProgress?: (uploaded: number, total: number) => void;
+  onRetry?: (attempt: number) => void;
+};
+
+const fingerprint = (file: File) =>
+  `${STORAGE_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const createSession = async (
+  file: File,
+  metadata: UploadMetadata
+): Promise<UploadSession> => {
+  const payload: CreateUploadPayload = {
+    fileName: file.name,
+    contentType: file.type || "video/mp4",
+    size: file.size,
+    ...metadata,
+  };
+  const response = await fetch("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    throw await readApiError(response, "Unable to start the upload.");
+  }
+  return response.json();
+};
+
+const queryOffset = async (uploadId: string): Promise<number | null> => {
+  const response = await fetch(`/api/uploads/${uploadId}`, {
+    method: "HEAD",
+    cache: "no-store",
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new ApiResponseError("Unable to resume the upload.", response.status, {});
+  }
+  return Number(response.headers.get("Upload-Offset") ?? 0);
+};
+
+const isRetryable = (error: unknown) =>
+  !(error instanceof ApiResponseError) || error.status >= 500;
+
+export const uploadResumable = async (
+  file: File,
+  { metadata, onProgress, onRetry }: ResumableUploadOptions
+): Promise<VideoRecord> => {
+  const key = fingerprint(file);
+  let uploadId = window.localStorage.getItem(key);
+  let offset: number | null = uploadId ? await queryOffset(uploadId) : null;
+
+  if (!uploadId || offset === null) {
+    const session = await createSession(file, metadata);
+    uploadId = session.id;
+    offset = session.offset;
+    window.localStorage.setItem(key, uploadId);
+  }
+
+  let attempt = 0;
+  while (offset < file.size) {
+    onProgress?.(offset, file.size);
+    try {
+      const response: Response = await fetch(`/api/uploads/${uploadId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Offset": `${offset}`,
+        },
+        body: file.slice(offset, offset + CHUNK_SIZE),
+      });
+      if (response.status === 409) {
+        offset = Number(response.headers.get("Upload-Offset") ?? offset);
+        continue;
+      }
+      if (!response.ok) {
+        throw await readApiError(response, "Upload failed");
+      }
+      offset = Number(response.headers.get("Upload-Offset"));
+      if (attempt > 0) {
+        attempt = 0;
+        onRetry?.(0);
+      }
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+      attempt += 1;
+      onRetry?.(attempt);
+      await wait(Math.min(1000 * 2 ** attempt, 15000));
+      offset = (await queryOffset(uploadId).catch(() => offset)) ?? offset;
+    }
+  }
+  onProgress?.(file.size, file.size);
+
+  const response = await fetch(`/api/uploads/${uploadId}/finalize`, {
+    method: "POST",
+  });
+  if (!response.ok) {
+    throw await readApiError(response, "Upload failed");
+  }
+  window.localStorage.removeItem(key);
+  return response.json();
+};
@@ -0,0 +1,253 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { RequestError } from "./errors";
+import { getStorage, readStorageJson, writeStorageJson } from "./storage";
+import type {
+  CreateShareLinkPayload,
+  ShareLink,
+  ShareLinkWithUrl,
+} from "./types";
+import { toEmbedPath, toWatchPath } from "./video-urls";
+
+const SHARE_LINK_PREFIX = "videos/shares/";
+const SIGNING_SECRET_PATH = "auth/share-link-secret.json";
+const PLAYBACK_GRANT_TTL_MS = 4 * 60 * 60 * 1000;
+const GRANT_SCOPE = "grant:";
+
+const sharePrefix = (videoId: string) => `${SHARE_LINK_PREFIX}${videoId}/`;
+const sharePath = (videoId: string, shareId: string) =>
+  `${sharePrefix(videoId)}${shareId}.json`;
+
+let signingSecret: Promise<string> | null = null;
+let pendingShareLinkUpdate: Promise<unknown> = Promise.resolve();
+
+const withShareLinkLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingShareLinkUpdate.then(task, task);
+  pendingShareLinkUpdate = run.catch(() => undefined);
+  return run;
+};
+
+const getSigningSecret = () => {
+  signingSecret ??= (async () => {
+    if (process.env.SHARE_LINK_SECRET) return process.env.SHARE_LINK_SECRET;
+    const stored = await readStorageJson<{ secret: string }>(
+      SIGNING_SECRET_PATH
+    );
+    if (stored) return stored.secret;
+    const secret = randomBytes(32).toString("base64url");
+    await writeStorageJson(SIGNING_SECRET_PATH, { secret });
+    return secret;
+  })().catch((error) => {
+    signingSecret = null;
+    throw error;
+  });
+  return signingSecret;
+};
+
+const sign = async (payload: string) =>
+  createHmac("sha256", await getSigningSecret())
+    .update(payload)
+    .digest("base64url");
+
+const signShareToken = async (link: ShareLink) => {
+  const payload = Buffer.from(
+    JSON.stringify({ v: link.videoId, s: link.id })
+  ).toString("base64url");
+  return `${payload}.${await sign(payload)}`;
+};
+
+const withUrl = async (link: ShareLink): Promise<ShareLinkWithUrl> => {
+  const token = await signShareToken(link);
+  return {
+    ...link,
+    url: toWatchPath(link.videoId, token),
+    embedUrl: toEmbedPath(link.videoId, token),
+  };
+};
+
+const parseMaxViews = (maxViews: unknown) => {
+  if (maxViews === undefined || maxViews === null || maxViews === "") {
+    return null;
+  }
+  const value = Number(maxViews);
+  if (!Number.isSafeInteger(value) || value < 1) {
+    throw new RequestError("maxViews must be a positive whole number.", 400, {
+      code: "invalid_max_views",
+      field: "maxViews",
+    });
+  }
+  return value;
+};
+
+const parseExpiry = (expiresAt: unknown) => {
+  if (expiresAt === undefined || expiresAt === null || expiresAt === "") {
+    return null;
+  }
+  const time = new Date(`${expiresAt}`).getTime();
+  if (Number.isNaN(time) || time <= Date.now()) {
+    throw new RequestError("expiresAt must be a date in the future.", 400, {
+      code: "invalid_expiry",
+      field: "expiresAt",
+    });
+  }
+  return new Date(time).toISOString();
+};
+
+export const listShareLinks = async (
+  videoId: string
+): Promise<ShareLinkWithUrl[]> => {
+  const blobs = await getStorage().list(sharePrefix(videoId));
+  const links = await Promise.all(
+    blobs.map((blob) => readStorageJson<ShareLink>(blob.pathname))
+  );
+  return Promise.all(
+    links
+      .filter((link): link is ShareLink => link !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(withUrl)
+  );
+};
+
+export const createShareLink = async (
+  videoId: string,
+  payload: CreateShareLinkPayload
+): Promise<ShareLinkWithUrl> => {
+  const link: ShareLink = {
+    id: randomBytes(9).toString("base64url"),
+    videoId,
+    createdAt: new Date().toISOString(),
+    expiresAt: parseExpiry(payload.expiresAt),
+    maxViews: parseMaxViews(payload.maxViews),
+    views: 0,
+  };
+  await writeStorageJson(sharePath(videoId, link.id), link);
+  return withUrl(link);
+};
+
+export const revokeShareLink = (videoId: string, shareId: string) =>
+  withShareLinkLock(async () => {
+    const link = /^[\w-]{12}$/.test(shareId)
+      ? await readStorageJson<ShareLink>(sharePath(videoId, shareId))
+      : null;
+    if (!link) {
+      throw new RequestError("Share link not found.", 404);
+    }
+    await getStorage().del([sharePath(videoId, shareId)]);
+  });
+
+export const deleteShareLinks = (videoId: string) =>
+  withShareLinkLock(async () => {
+    const storage = getStorage();
+    const blobs = await storage.list(sharePrefix(videoId));
+    await storage.del(blobs.map((blob) => blob.pathname));
+  });
+
+const invalidShareLink = () =>
+  new RequestError("This share link is invalid or has been revoked.", 403, {
+    code: "invalid_share_link",
+  });
+
+const readSignedClaims = async <T>(
+  token: string,
+  scope: string
+): Promise<T | null> => {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(await sign(`${scope}${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+};
+
+const readShareId = async (videoId: string, token: string) => {
+  const claims = await readSignedClaims<{ v?: string; s?: string }>(token, "");
+  if (
+    !claims ||
+    claims.v !== videoId ||
+    !claims.s ||
+    !/^[\w-]{12}$/.test(claims.s)
+  ) {
+    throw invalidShareLink();
+  }
+  return claims.s;
+};
+
+const assertShareLinkActive = (link: ShareLink | null): ShareLink => {
+  if (!link) throw invalidShareLink();
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) {
+    throw new RequestError("This share link has expired.", 410, {
+      code: "share_link_expired",
+    });
+  }
+  if (link.maxViews !== null && link.views >= link.maxViews) {
+    throw new RequestError("This share link has reached its view limit.", 410, {
+      code: "share_link_exhausted",
+    });
+  }
+  return link;
+};
+
+export const readShareToken = async (
+  videoId: string,
+  token: string
+): Promise<ShareLink> => {
+  const shareId = await readShareId(videoId, token);
+  return assertShareLinkActive(
+    await readStorageJson<ShareLink>(sharePath(videoId, shareId))
+  );
+};
+
+export const redeemShareToken = async (
+  videoId: string,
+  token: string
+): Promise<ShareLink> => {
+  const shareId = await readShareId(videoId, token);
+  return withShareLinkLock(async () => {
+    const link = assertShareLinkActive(
+      await readStorageJson<ShareLink>(sharePath(videoId, shareId))
+    );
+    const viewed = { ...link, views: link.views + 1 };
+    await writeStorageJson(sharePath(videoId, shareId), viewed);
+    return viewed;
+  });
+};
+
+export const issuePlaybackGrant = async (link: ShareLink) => {
+  const expiresAt = Math.min(
+    Date.now() + PLAYBACK_GRANT_TTL_MS,
+    link.expiresAt ? new Date(link.expiresAt).getTime() : Infinity
+  );
+  const payload = Buffer.from(
+    JSON.stringify({ v: link.videoId, s: link.id, e: expiresAt })
+  ).toString("base64url");
+  return `${payload}.${await sign(`${GRANT_SCOPE}${payload}`)}`;
+};
+
+export const verifyPlaybackGrant = async (videoId: string, grant: string) => {
+  const claims = await readSignedClaims<{ v?: string; s?: string; e?: number }>(
+    grant,
+    GRANT_SCOPE
+  );
+  if (
+    !claims ||
+    claims.v !== videoId ||
+    !claims.s ||
+    !/^[\w-]{12}$/.test(claims.s) ||
+    typeof claims.e !== "number"
+  ) {
+    throw invalidShareLink();
+  }
+  if (claims.e <= Date.now()) {
+    throw new RequestError("This playback link has expired.", 410, {
+      code: "playback_grant_expired",
+    });
+  }
+  if (!(await getStorage().head(sharePath(videoId, claims.s)))) {
+    throw invalidShareLink();
+  }
+};
@@ -0,0 +1,14 @@
+import { headers } from "next/headers";
+
+export const getSiteUrl = async () => {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/+$/, "");
+  const requestHeaders = await headers();
+  const host =
+    requestHeaders.get("x-forwarded-host") ??
+    requestHeaders.get("host") ??
+    "localhost:3000";
+  const protocol =
+    requestHeaders.get("x-forwarded-proto")?.split(",")[0].trim() ??
+    (/^(localhost|127\.0\.0\.1)(:|$)/.test(host) ? "http" : "https");
+  return `${protocol}://${host}`;
+};
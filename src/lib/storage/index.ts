@@ -0,0 +1,128 @@
+import { createLocalStorage } from "./local";
+import { createMemoryStorage } from "./memory";
+import type { ByteRange, StorageAdapter, StorageDriverName } from "./types";
+import { createVercelBlobStorage } from "./vercel-blob";
+
+export type {
+  ByteRange,
+  StorageAdapter,
+  StorageBody,
+  StorageDriverName,
+  StoredObject,
+} from "./types";
+
+const STORAGE_DRIVERS: Record<StorageDriverName, () => StorageAdapter> = {
+  "vercel-blob": createVercelBlobStorage,
+  local: () => createLocalStorage(),
+  memory: () => createMemoryStorage(),
+};
+
+const PUBLIC_DRIVERS: StorageDriverName[] = ["vercel-blob"];
+
+const MEDIA_PREFIXES = [
+  "videos/files/",
+  "videos/hls/",
+  "videos/thumbnails/",
+  "videos/posters/",
+  "videos/uploads/",
+];
+
+const parseDriverName = (variable: string, configured: string) => {
+  if (!(configured in STORAGE_DRIVERS)) {
+    throw new Error(
+      `Unknown ${variable} "${configured}". Use one of: ${Object.keys(
+        STORAGE_DRIVERS
+      ).join(", ")}.`
+    );
+  }
+  return configured as StorageDriverName;
+};
+
+const resolveDriverName = (): StorageDriverName => {
+  const configured = process.env.STORAGE_DRIVER?.trim();
+  if (!configured) {
+    return process.env.BLOB_READ_WRITE_TOKEN ? "vercel-blob" : "local";
+  }
+  return parseDriverName("STORAGE_DRIVER", configured);
+};
+
+const resolvePrivateDriverName = (): StorageDriverName => {
+  const configured = process.env.PRIVATE_STORAGE_DRIVER?.trim();
+  const driver = configured
+    ? parseDriverName("PRIVATE_STORAGE_DRIVER", configured)
+    : "local";
+  if (PUBLIC_DRIVERS.includes(driver)) {
+    throw new Error(
+      `PRIVATE_STORAGE_DRIVER cannot be "${driver}" because its objects are publicly readable.`
+    );
+  }
+  return driver;
+};
+
+const isMediaPath = (pathname: string) =>
+  MEDIA_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+
+const createSplitStorage = (
+  media: StorageAdapter,
+  documents: StorageAdapter
+): StorageAdapter => {
+  const pick = (pathname: string) =>
+    isMediaPath(pathname) ? media : documents;
+  return {
+    driver: media.driver,
+    put: (pathname, body, options) =>
+      pick(pathname).put(pathname, body, options),
+    head: (pathname) => pick(pathname).head(pathname),
+    list: (prefix) => pick(prefix).list(prefix),
+    read: (pathname, range) => pick(pathname).read(pathname, range),
+    del: async (pathnames) => {
+      await media.del(pathnames.filter(isMediaPath));
+      await documents.del(
+        pathnames.filter((pathname) => !isMediaPath(pathname))
+      );
+    },
+  };
+};
+
+const createStorage = (): StorageAdapter => {
+  const driver = resolveDriverName();
+  const adapter = STORAGE_DRIVERS[driver]();
+  if (!PUBLIC_DRIVERS.includes(driver)) return adapter;
+  return createSplitStorage(
+    adapter,
+    STORAGE_DRIVERS[resolvePrivateDriverName()]()
+  );
+};
+
+let storage: StorageAdapter | null = null;
+
+export const getStorage = (): StorageAdapter => {
+  storage ??= createStorage();
+  return storage;
+};
+
+export const setStorage = (adapter: StorageAdapter | null) => {
+  storage = adapter;
+};
+
+export const readStorageJson = async <T>(
+  pathname: string
+): Promise<T | null> => {
+  const stream = await getStorage().read(pathname);
+  if (!stream) return null;
+  return (await new Response(stream).json()) as T;
+};
+
+export const readStorageBytes = async (
+  pathname: string,
+  range?: ByteRange
+): Promise<Uint8Array | null> => {
+  const stream = await getStorage().read(pathname, range);
+  if (!stream) return null;
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const writeStorageJson = (pathname: string, value: unknown) =>
+  getStorage().put(pathname, JSON.stringify(value), {
+    contentType: "application/json",
+  });
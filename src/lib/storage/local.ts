@@ -0,0 +1,163 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { StorageAdapter, StorageBody, StoredObject } from "./types";
+
+export const LOCAL_STORAGE_ROUTE = "/api/storage/";
+
+type ObjectAttributes = {
+  contentType: string;
+  uploadedAt: string;
+};
+
+export const toLocalStorageUrl = (pathname: string) =>
+  `${LOCAL_STORAGE_ROUTE}${pathname
+    .split("/")
+    .map((segment) => encodeURIComponent(segment))
+    .join("/")}`;
+
+const assertSafePathname = (pathname: string) => {
+  const normalized = path.posix.normalize(pathname);
+  if (
+    !pathname ||
+    normalized !== pathname ||
+    normalized.startsWith("/") ||
+    normalized.split("/").includes("..")
+  ) {
+    throw new Error(`Invalid storage pathname: ${pathname}`);
+  }
+};
+
+const toReadableStream = (body: StorageBody): ReadableStream<Uint8Array> => {
+  if (body instanceof ReadableStream) return body;
+  if (body instanceof Blob) return body.stream();
+  return new Blob([
+    typeof body === "string" || body instanceof ArrayBuffer
+      ? body
+      : new Uint8Array(body),
+  ]).stream();
+};
+
+export const createLocalStorage = (
+  rootDir = process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), ".storage")
+): StorageAdapter => {
+  const blobRoot = path.join(rootDir, "blobs");
+  const attrRoot = path.join(rootDir, "attrs");
+  const blobPath = (pathname: string) => path.join(blobRoot, pathname);
+  const attrPath = (pathname: string) => path.join(attrRoot, `${pathname}.json`);
+
+  const readAttributes = async (
+    pathname: string
+  ): Promise<ObjectAttributes | null> => {
+    try {
+      return JSON.parse(await readFile(attrPath(pathname), "utf8"));
+    } catch {
+      return null;
+    }
+  };
+
+  const headObject = async (pathname: string): Promise<StoredObject | null> => {
+    assertSafePathname(pathname);
+    try {
+      const stats = await stat(blobPath(pathname));
+      if (!stats.isFile()) return null;
+      const attributes = await readAttributes(pathname);
+      return {
+        pathname,
+        url: toLocalStorageUrl(pathname),
+        size: stats.size,
+        contentType: attributes?.contentType ?? "application/octet-stream",
+        uploadedAt: attributes?.uploadedAt ?? stats.mtime.toISOString(),
+      };
+    } catch {
+      return null;
+    }
+  };
+
+  const walk = async (dir: string): Promise<string[]> => {
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    const nested = await Promise.all(
+      entries.map((entry) => {
+        const fullPath = path.join(dir, entry.name);
+        return entry.isDirectory() ? walk(fullPath) : Promise.resolve([fullPath]);
+      })
+    );
+    return nested.flat();
+  };
+
+  return {
+    driver: "local",
+
+    put: async (pathname, body, { contentType }) => {
+      assertSafePathname(pathname);
+      const target = blobPath(pathname);
+      await mkdir(path.dirname(target), { recursive: true });
+      await mkdir(path.dirname(attrPath(pathname)), { recursive: true });
+      const partial = `${target}.${crypto.randomUUID()}.partial`;
+      try {
+        await pipeline(
+          Readable.fromWeb(
+            toReadableStream(body) as Parameters<typeof Readable.fromWeb>[0]
+          ),
+          createWriteStream(partial)
+        );
+        await rename(partial, target);
+      } catch (error) {
+        await rm(partial, { force: true });
+        throw error;
+      }
+      const attributes: ObjectAttributes = {
+        contentType,
+        uploadedAt: new Date().toISOString(),
+      };
+      await writeFile(attrPath(pathname), JSON.stringify(attributes));
+      const stored = await headObject(pathname);
+      if (!stored) {
+        throw new Error(`Failed to write ${pathname} to local storage.`);
+      }
+      return stored;
+    },
+
+    head: headObject,
+
+    list: async (prefix) => {
+      const files = await walk(blobRoot);
+      const pathnames = files
+        .map((file) => path.relative(blobRoot, file).split(path.sep).join("/"))
+        .filter(
+          (pathname) =>
+            pathname.startsWith(prefix) && !pathname.endsWith(".partial")
+        );
+      const objects = await Promise.all(pathnames.map(headObject));
+      return objects.filter((object): object is StoredObject => object !== null);
+    },
+
+    read: async (pathname, range) => {
+      const stored = await headObject(pathname);
+      if (!stored) return null;
+      return Readable.toWeb(
+        createReadStream(blobPath(pathname), range)
+      ) as ReadableStream<Uint8Array>;
+    },
+
+    del: async (pathnames) => {
+      await Promise.all(
+        pathnames.map(async (pathname) => {
+          assertSafePathname(pathname);
+          await rm(blobPath(pathname), { force: true });
+          await rm(attrPath(pathname), { force: true });
+        })
+      );
+    },
+  };
+};
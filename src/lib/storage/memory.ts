@@ -0,0 +1,78 @@
+import type { StorageAdapter, StorageBody, StoredObject } from "./types";
+import { toLocalStorageUrl } from "./local";
+
+type MemoryObject = StoredObject & {
+  data: Uint8Array;
+};
+
+const globalForMemoryStorage = globalThis as typeof globalThis & {
+  __memoryStorageObjects?: Map<string, MemoryObject>;
+};
+
+const toBytes = async (body: StorageBody): Promise<Uint8Array> => {
+  if (typeof body === "string") return new TextEncoder().encode(body);
+  if (body instanceof Uint8Array) return new Uint8Array(body);
+  if (body instanceof ArrayBuffer) return new Uint8Array(body.slice(0));
+  if (body instanceof Blob) return new Uint8Array(await body.arrayBuffer());
+  return new Uint8Array(await new Response(body).arrayBuffer());
+};
+
+const toStoredObject = ({
+  pathname,
+  url,
+  size,
+  contentType,
+  uploadedAt,
+}: MemoryObject): StoredObject => ({
+  pathname,
+  url,
+  size,
+  contentType,
+  uploadedAt,
+});
+
+export const createMemoryStorage = (
+  objects: Map<string, MemoryObject> = (globalForMemoryStorage.__memoryStorageObjects ??=
+    new Map())
+): StorageAdapter => ({
+  driver: "memory",
+
+  put: async (pathname, body, { contentType }) => {
+    const data = await toBytes(body);
+    const object: MemoryObject = {
+      pathname,
+      url: toLocalStorageUrl(pathname),
+      size: data.byteLength,
+      contentType,
+      uploadedAt: new Date().toISOString(),
+      data,
+    };
+    objects.set(pathname, object);
+    return toStoredObject(object);
+  },
+
+  head: async (pathname) => {
+    const object = objects.get(pathname);
+    return object ? toStoredObject(object) : null;
+  },
+
+  list: async (prefix) =>
+    [...objects.values()]
+      .filter((object) => object.pathname.startsWith(prefix))
+      .map(toStoredObject),
+
+  read: async (pathname, range) => {
+    const object = objects.get(pathname);
+    if (!object) return null;
+    const data = range
+      ? object.data.slice(range.start, range.end + 1)
+      : new Uint8Array(object.data);
+    return new Blob([data]).stream();
+  },
+
+  del: async (pathnames) => {
+    for (const pathname of pathnames) {
+      objects.delete(pathname);
+    }
+  },
+});
@@ -0,0 +1,41 @@
+export type StorageDriverName = "vercel-blob" | "local" | "memory";
+
+export type StorageBody =
+  | string
+  | Blob
+  | ArrayBuffer
+  | Uint8Array
+  | ReadableStream<Uint8Array>;
+
+export type StoredObject = {
+  pathname: string;
+  url: string;
+  size: number;
+  contentType: string;
+  uploadedAt: string;
+};
+
+export type ByteRange = {
+  start: number;
+  end: number;
+};
+
+export type PutObjectOptions = {
+  contentType: string;
+};
+
+export type StorageAdapter = {
+  driver: StorageDriverName;
+  put: (
+    pathname: string,
+    body: StorageBody,
+    options: PutObjectOptions
+  ) => Promise<StoredObject>;
+  head: (pathname: string) => Promise<StoredObject | null>;
+  list: (prefix: string) => Promise<StoredObject[]>;
+  read: (
+    pathname: string,
+    range?: ByteRange
+  ) => Promise<ReadableStream<Uint8Array> | null>;
+  del: (pathnames: string[]) => Promise<void>;
+};
@@ -0,0 +1,109 @@
+import { del, head, list, put } from "@vercel/blob";
+import type { StorageAdapter, StoredObject } from "./types";
+
+const getBlobAuth = () =>
+  process.env.BLOB_READ_WRITE_TOKEN
+    ? { token: process.env.BLOB_READ_WRITE_TOKEN }
+    : {};
+
+const ensureBlobToken = () => {
+  if (!process.env.BLOB_READ_WRITE_TOKEN && process.env.NODE_ENV !== "production") {
+    throw new Error(
+      "BLOB_READ_WRITE_TOKEN is required for the vercel-blob storage driver. Generate one with `npx vercel blob token` or set STORAGE_DRIVER=local."
+    );
+  }
+};
+
+const headBlob = async (pathname: string): Promise<StoredObject | null> => {
+  ensureBlobToken();
+  try {
+    const blob = await head(pathname, getBlobAuth());
+    return {
+      pathname: blob.pathname,
+      url: blob.url,
+      size: blob.size,
+      contentType: blob.contentType,
+      uploadedAt: blob.uploadedAt.toISOString(),
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === "BlobNotFoundError") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const createVercelBlobStorage = (): StorageAdapter => ({
+  driver: "vercel-blob",
+
+  put: async (pathname, body, { contentType }) => {
+    ensureBlobToken();
+    const blob = await put(
+      pathname,
+      body instanceof Uint8Array ? Buffer.from(body) : body,
+      {
+        access: "public",
+        contentType,
+        allowOverwrite: true,
+        multipart: body instanceof ReadableStream,
+        ...getBlobAuth(),
+      }
+    );
+    const size =
+      typeof body === "string"
+        ? Buffer.byteLength(body)
+        : body instanceof Blob
+          ? body.size
+          : body instanceof ArrayBuffer || body instanceof Uint8Array
+            ? body.byteLength
+            : (await headBlob(pathname))?.size ?? 0;
+    return {
+      pathname: blob.pathname,
+      url: blob.url,
+      size,
+      contentType: blob.contentType,
+      uploadedAt: new Date().toISOString(),
+    };
+  },
+
+  head: headBlob,
+
+  list: async (prefix) => {
+    ensureBlobToken();
+    const objects: StoredObject[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix, cursor, ...getBlobAuth() });
+      for (const blob of page.blobs) {
+        objects.push({
+          pathname: blob.pathname,
+          url: blob.url,
+          size: blob.size,
+          contentType: "",
+          uploadedAt: blob.uploadedAt.toISOString(),
+        });
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+    return objects;
+  },
+
+  read: async (pathname, range) => {
+    const blob = await headBlob(pathname);
+    if (!blob) return null;
+    const response = await fetch(blob.url, {
+      cache: "no-store",
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to read blob ${pathname} (${response.status})`);
+    }
+    return response.body;
+  },
+
+  del: async (pathnames) => {
+    ensureBlobToken();
+    if (pathnames.length === 0) return;
+    await del(pathnames, getBlobAuth());
+  },
+});
@@ -0,0 +1,38 @@
+import { RequestError } from "./errors";
+
+export const MAX_TAGS_PER_VIDEO = 20;
+export const MAX_TAG_LENGTH = 50;
+
+export const isTagCaseInsensitive = () =>
+  process.env.TAGS_CASE_INSENSITIVE === "true" ||
+  process.env.TAGS_CASE_INSENSITIVE === "1";
+
+export const toTagKey = (tag: string) => tag.toLowerCase();
+
+export const toTagMatchKey = (tag: string) =>
+  isTagCaseInsensitive() ? toTagKey(tag) : tag;
+
+export const normalizeTag = (tag: string) => {
+  const trimmed = tag.trim().replace(/\s+/g, " ");
+  return isTagCaseInsensitive() ? toTagKey(trimmed) : trimmed;
+};
+
+export const isValidTag = (tag: string) =>
+  tag.length > 0 && tag.length <= MAX_TAG_LENGTH && !tag.includes(",");
+
+export const invalidTag = (field: string) =>
+  new RequestError(
+    `Tags must be 1–${MAX_TAG_LENGTH} characters without commas.`,
+    400,
+    { code: "invalid_tag", field }
+  );
+
+export const dedupeTags = (tags: string[]) => {
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = toTagMatchKey(tag);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
@@ -0,0 +1,64 @@
+export type DiffSegment = {
+  kind: "same" | "added" | "removed";
+  text: string;
+};
+
+const MAX_DIFF_CELLS = 1_000_000;
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+const pushSegment = (
+  segments: DiffSegment[],
+  kind: DiffSegment["kind"],
+  text: string
+) => {
+  const last = segments[segments.length - 1];
+  if (last?.kind === kind) {
+    last.text += text;
+  } else {
+    segments.push({ kind, text });
+  }
+};
+
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  if (before === after) return before ? [{ kind: "same", text: before }] : [];
+  const from = tokenize(before);
+  const to = tokenize(after);
+  if ((from.length + 1) * (to.length + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ kind: "removed" as const, text: before }] : []),
+      ...(after ? [{ kind: "added" as const, text: after }] : []),
+    ];
+  }
+
+  const width = to.length + 1;
+  const lengths = new Uint32Array((from.length + 1) * width);
+  for (let i = from.length - 1; i >= 0; i -= 1) {
+    for (let j = to.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        from[i] === to[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      pushSegment(segments, "same", from[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushSegment(segments, "removed", from[i]);
+      i += 1;
+    } else {
+      pushSegment(segments, "added", to[j]);
+      j += 1;
+    }
+  }
+  for (; i < from.length; i += 1) pushSegment(segments, "removed", from[i]);
+  for (; j < to.length; j += 1) pushSegment(segments, "added", to[j]);
+  return segments;
+};
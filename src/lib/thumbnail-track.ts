@@ -0,0 +1,79 @@
+import type { ThumbnailCue, ThumbnailTrack } from "./types";
+
+export const THUMBNAIL_TRACK_FILE = "thumbnails.vtt";
+
+export const toSpriteFileName = (index: number) =>
+  `sprite-${`${index + 1}`.padStart(3, "0")}.jpg`;
+
+const formatTimestamp = (seconds: number) => {
+  const milliseconds = Math.round(seconds * 1000);
+  const hours = Math.floor(milliseconds / 3_600_000);
+  const minutes = Math.floor((milliseconds % 3_600_000) / 60_000);
+  const rest = (milliseconds % 60_000) / 1000;
+  return `${`${hours}`.padStart(2, "0")}:${`${minutes}`.padStart(
+    2,
+    "0"
+  )}:${rest.toFixed(3).padStart(6, "0")}`;
+};
+
+const parseTimestamp = (value: string) => {
+  const parts = value.trim().split(":").map(Number);
+  if (parts.some((part) => !Number.isFinite(part))) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const buildThumbnailVtt = (track: ThumbnailTrack, duration: number) => {
+  const perSprite = track.columns * track.rows;
+  const frames = Math.min(
+    Math.ceil(duration / track.interval),
+    track.sprites * perSprite
+  );
+  const cues = Array.from({ length: frames }, (_, index) => {
+    const tile = index % perSprite;
+    const x = (tile % track.columns) * track.width;
+    const y = Math.floor(tile / track.columns) * track.height;
+    const start = index * track.interval;
+    const end = Math.min(start + track.interval, duration);
+    return [
+      `${formatTimestamp(start)} --> ${formatTimestamp(end)}`,
+      `${toSpriteFileName(Math.floor(index / perSprite))}#xywh=${x},${y},${track.width},${track.height}`,
+    ].join("\n");
+  });
+  return ["WEBVTT", ...cues, ""].join("\n\n");
+};
+
+export const parseThumbnailVtt = (
+  text: string,
+  baseUrl: string
+): ThumbnailCue[] =>
+  text
+    .split(/\r?\n\r?\n/)
+    .map((block) => block.trim().split(/\r?\n/))
+    .flatMap((lines) => {
+      const timingIndex = lines.findIndex((line) => line.includes("-->"));
+      const target = lines[timingIndex + 1];
+      if (timingIndex < 0 || !target) return [];
+      const [startText, endText] = lines[timingIndex].split("-->");
+      const start = parseTimestamp(startText);
+      const end = parseTimestamp(endText);
+      const [file, fragment] = target.trim().split("#xywh=");
+      const box = fragment?.split(",").map(Number);
+      if (
+        start === null ||
+        end === null ||
+        !box ||
+        box.length !== 4 ||
+        box.some((value) => !Number.isFinite(value))
+      ) {
+        return [];
+      }
+      const [x, y, width, height] = box;
+      return [
+        { start, end, url: new URL(file, baseUrl).toString(), x, y, width, height },
+      ];
+    });
+
+export const findThumbnailCue = (cues: ThumbnailCue[], time: number) =>
+  cues.find((cue) => time >= cue.start && time < cue.end) ??
+  cues[cues.length - 1] ??
+  null;
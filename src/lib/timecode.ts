@@ -0,0 +1,17 @@
+export const formatTimecode = (seconds: number) => {
+  const total = Math.max(Math.floor(seconds), 0);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = `${total % 60}`.padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${`${minutes}`.padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+};
+
+export const parseTimecode = (value: string) => {
+  const trimmed = value.trim();
+  if (!/^\d+(?::\d{1,2}){0,2}(?:\.\d+)?$/.test(trimmed)) return null;
+  const parts = trimmed.split(":").map(Number);
+  if (parts.slice(1).some((part) => part >= 60)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
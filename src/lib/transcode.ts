@@ -0,0 +1,223 @@
+import { mkdir, readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { downloadSource, runFfmpeg, toEven, withWorkDir } from "./ffmpeg";
+import type { JobContext } from "./job-queue";
+import { getStorage } from "./storage";
+import type { PersistedVideoRecord, RenditionVariant } from "./types";
+import {
+  deleteRenditionFiles,
+  readVideoRecord,
+  renditionPrefix,
+  setVideoRenditions,
+} from "./video-store";
+import { toHlsPath } from "./video-urls";
+
+type LadderRung = {
+  name: string;
+  height: number;
+  videoBitrate: number;
+  audioBitrate: number;
+};
+
+const LADDER: LadderRung[] = [
+  { name: "1080p", height: 1080, videoBitrate: 5000, audioBitrate: 192 },
+  { name: "720p", height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: "480p", height: 480, videoBitrate: 1400, audioBitrate: 128 },
+  { name: "360p", height: 360, videoBitrate: 800, audioBitrate: 96 },
+];
+
+const DEFAULT_SOURCE_HEIGHT = 720;
+const SEGMENT_SECONDS = 6;
+
+const HLS_CONTENT_TYPES: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+};
+
+export const isAutoTranscodeEnabled = () =>
+  process.env.HLS_AUTO_TRANSCODE === "true";
+
+const selectLadder = (record: PersistedVideoRecord): LadderRung[] => {
+  const sourceHeight = record.media?.height ?? DEFAULT_SOURCE_HEIGHT;
+  const rungs = LADDER.filter((rung) => rung.height <= sourceHeight);
+  if (rungs.length > 0) return rungs;
+  const height = toEven(sourceHeight);
+  return [{ ...LADDER[LADDER.length - 1], name: `${height}p`, height }];
+};
+
+const toVariant = (
+  record: PersistedVideoRecord,
+  rung: LadderRung
+): RenditionVariant => {
+  const { width, height } = record.media ?? {};
+  const aspectRatio = width && height ? width / height : 16 / 9;
+  return {
+    name: rung.name,
+    width: toEven(rung.height * aspectRatio),
+    height: rung.height,
+    bandwidth: (rung.videoBitrate + rung.audioBitrate) * 1000,
+  };
+};
+
+const hasAudio = (record: PersistedVideoRecord) =>
+  !record.media || Boolean(record.media.audioCodec);
+
+const buildMasterPlaylist = (
+  record: PersistedVideoRecord,
+  variants: RenditionVariant[]
+) => {
+  const codecs = hasAudio(record) ? "avc1.4d4028,mp4a.40.2" : "avc1.4d4028";
+  return [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    ...variants.flatMap((variant) => [
+      `#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},RESOLUTION=${variant.width}x${variant.height},CODECS="${codecs}"`,
+      `${variant.name}/index.m3u8`,
+    ]),
+    "",
+  ].join("\n");
+};
+
+type TranscodeContext = Pick<JobContext, "signal" | "reportProgress">;
+
+const transcodeRung = async (
+  sourcePath: string,
+  outputDir: string,
+  rung: LadderRung,
+  signal: AbortSignal,
+  onTime: (seconds: number) => void
+) => {
+  await mkdir(outputDir, { recursive: true });
+  await runFfmpeg(
+    [
+      "-i",
+      sourcePath,
+      "-map",
+      "0:v:0",
+      "-map",
+      "0:a:0?",
+      "-vf",
+      `scale=-2:${rung.height}`,
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-profile:v",
+      "main",
+      "-pix_fmt",
+      "yuv420p",
+      "-b:v",
+      `${rung.videoBitrate}k`,
+      "-maxrate",
+      `${Math.round(rung.videoBitrate * 1.07)}k`,
+      "-bufsize",
+      `${rung.videoBitrate * 2}k`,
+      "-g",
+      "48",
+      "-keyint_min",
+      "48",
+      "-sc_threshold",
+      "0",
+      "-c:a",
+      "aac",
+      "-b:a",
+      `${rung.audioBitrate}k`,
+      "-ac",
+      "2",
+      "-f",
+      "hls",
+      "-hls_time",
+      `${SEGMENT_SECONDS}`,
+      "-hls_playlist_type",
+      "vod",
+      "-hls_segment_filename",
+      path.join(outputDir, "segment-%04d.ts"),
+      path.join(outputDir, "index.m3u8"),
+    ],
+    signal,
+    onTime
+  );
+};
+
+const uploadDirectory = async (localDir: string, prefix: string) => {
+  const storage = getStorage();
+  for (const fileName of (await readdir(localDir)).sort()) {
+    const contentType = HLS_CONTENT_TYPES[path.extname(fileName)];
+    if (!contentType) continue;
+    await storage.put(
+      `${prefix}${fileName}`,
+      await readFile(path.join(localDir, fileName)),
+      { contentType }
+    );
+  }
+};
+
+const writeRenditions = async (
+  id: string,
+  workDir: string,
+  { signal, reportProgress }: TranscodeContext
+) => {
+  const record = await readVideoRecord(id);
+  const rungs = selectLadder(record);
+  const variants = rungs.map((rung) => toVariant(record, rung));
+  await setVideoRenditions(id, {
+    status: "processing",
+    variants,
+    updatedAt: new Date().toISOString(),
+  });
+
+  const sourcePath = path.join(workDir, "source");
+  await downloadSource(record, sourcePath);
+  await deleteRenditionFiles(id);
+
+  const duration = record.media?.durationSeconds;
+  let progressUpdate = Promise.resolve();
+  const report = (progress: number) => {
+    progressUpdate = progressUpdate
+      .then(() => reportProgress(progress))
+      .catch(() => undefined);
+  };
+
+  const prefix = renditionPrefix(id);
+  for (const [index, rung] of rungs.entries()) {
+    const outputDir = path.join(workDir, rung.name);
+    await transcodeRung(sourcePath, outputDir, rung, signal, (seconds) => {
+      if (duration) {
+        report((index + Math.min(seconds / duration, 1)) / rungs.length);
+      }
+    });
+    await uploadDirectory(outputDir, `${prefix}${rung.name}/`);
+    report((index + 1) / rungs.length);
+  }
+  await getStorage().put(
+    `${prefix}master.m3u8`,
+    buildMasterPlaylist(record, variants),
+    { contentType: HLS_CONTENT_TYPES[".m3u8"] }
+  );
+  await progressUpdate;
+
+  await setVideoRenditions(id, {
+    status: "ready",
+    masterPlaylistUrl: toHlsPath(id),
+    variants,
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+export const transcodeVideo = (id: string, context: TranscodeContext) =>
+  withWorkDir("video-hls-", (workDir) =>
+    writeRenditions(id, workDir, context)
+  ).catch(async (error) => {
+    await deleteRenditionFiles(id).catch(() => undefined);
+    await setVideoRenditions(id, {
+      status: "failed",
+      variants: [],
+      error: context.signal.aborted
+        ? "Transcoding was cancelled."
+        : error instanceof Error
+          ? error.message
+          : "Transcoding failed.",
+      updatedAt: new Date().toISOString(),
+    }).catch(() => undefined);
+    throw error;
+  });
@@ -1,10 +1,173 @@
+export type VideoContainer = "mp4" | "mov" | "webm" | "matroska";
+
+export type MediaInfo = {
+  container: VideoContainer;
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitrate?: number;
+  probedAt: string;
+};
+
+export type VideoVisibility = "private" | "unlisted" | "public";
+
+export type RenditionStatus = "pending" | "processing" | "ready" | "failed";
+
+export type RenditionVariant = {
+  name: string;
+  width: number;
+  height: number;
+  bandwidth: number;
+};
+
+export type VideoRenditions = {
+  status: RenditionStatus;
+  masterPlaylistUrl?: string;
+  variants: RenditionVariant[];
+  error?: string;
+  updatedAt: string;
+};
+
+export type VideoPoster = {
+  storagePath: string;
+  contentType: string;
+  size: number;
+  timeSeconds: number | null;
+  updatedAt: string;
+};
+
+export type ThumbnailTrack = {
+  interval: number;
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  sprites: number;
+  updatedAt: string;
+};
+
+export type ThumbnailCue = {
+  start: number;
+  end: number;
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type VideoCaption = {
+  id: string;
+  language: string;
+  label: string;
+  storagePath: string;
+  size: number;
+  cueCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CaptionTrack = Pick<VideoCaption, "id" | "language" | "label"> & {
+  src: string;
+};
+
+export type UpdateCaptionPayload = Partial<
+  Pick<VideoCaption, "language" | "label">
+>;
+
+export type VideoChapter = {
+  title: string;
+  startSeconds: number;
+};
+
+export type VideoComment = {
+  id: string;
+  parentId: string | null;
+  authorId: string;
+  authorName: string;
+  body: string;
+  timeSeconds: number | null;
+  resolved: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CreateCommentPayload = {
+  body?: string;
+  timeSeconds?: number | null;
+  parentId?: string | null;
+};
+
+export type UpdateCommentPayload = {
+  body?: string;
+  resolved?: boolean;
+};
+
+export type TimelineMarker = {
+  id: string;
+  kind: "chapter" | "comment";
+  timeSeconds: number;
+  label: string;
+};
+
+export type JobType = "probe" | "thumbnails" | "transcode";
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export type JobRecord = {
+  id: string;
+  type: JobType;
+  videoId: string;
+  ownerId: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  progress: number | null;
+  error: string | null;
+  dependsOn: string | null;
+  runAt: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type JobFilters = {
+  status?: JobStatus[];
+  type?: JobType;
+  videoId?: string;
+};
+
+export type ProcessingStep = Pick<
+  JobRecord,
+  "type" | "status" | "attempts" | "progress" | "error"
+> & {
+  jobId: string;
+};
+
+export type VideoProcessing = {
+  status: JobStatus;
+  steps: ProcessingStep[];
+  updatedAt: string;
+};
+
 export type VideoRecord = {
   id: string;
+  ownerId: string;
   title: string;
   description: string;
   tags: string[];
+  visibility: VideoVisibility;
+  version?: number;
   fileName: string;
-  fileUrl: string;
   contentType: string;
   size: number;
   createdAt: string;
@@ -12,10 +175,346 @@ export type VideoRecord = {
   storagePath: string;
   metadataPath: string;
   metadataUrl?: string;
+  media?: MediaInfo;
+  renditions?: VideoRenditions;
+  poster?: VideoPoster;
+  thumbnails?: ThumbnailTrack;
+  captions?: VideoCaption[];
+  chapters?: VideoChapter[];
+  processing?: VideoProcessing;
+  deletedAt?: string | null;
 };
 
 export type UpdateVideoPayload = Partial<
-  Pick<VideoRecord, "title" | "description" | "tags">
+  Pick<VideoRecord, "title" | "description" | "tags" | "visibility">
 >;
 
 export type PersistedVideoRecord = Omit<VideoRecord, "metadataUrl">;
+
+export type VideoCollection = {
+  id: string;
+  ownerId: string;
+  title: string;
+  description: string;
+  coverVideoId: string | null;
+  videoIds: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CollectionPayload = {
+  title?: string;
+  description?: string;
+  coverVideoId?: string | null;
+  videoIds?: string[];
+};
+
+export type CollectionWithVideos = VideoCollection & {
+  videos: VideoRecord[];
+};
+
+export type TagSummary = {
+  name: string;
+  count: number;
+};
+
+export type MergeTagsPayload = {
+  sources?: string[];
+  target?: string;
+  ignoreCase?: boolean;
+};
+
+export type RenameTagPayload = {
+  from?: string;
+  to?: string;
+  ignoreCase?: boolean;
+};
+
+export type TagRewriteFailure = {
+  id: string;
+  status: number;
+  error: string;
+  code?: string;
+};
+
+export type TagRewriteResult = {
+  updated: string[];
+  failed: TagRewriteFailure[];
+  merges: { sources: string[]; target: string }[];
+};
+
+export type BulkOperation =
+  | { type: "delete" }
+  | { type: "addTags"; tags: string[] }
+  | { type: "removeTags"; tags: string[] }
+  | {
+      type: "setField";
+      field: keyof UpdateVideoPayload;
+      value: string | string[];
+    };
+
+export type BulkOperationPayload = {
+  ids?: string[];
+  filter?: Record<string, string | string[]>;
+  operation?: {
+    type?: string;
+    tags?: string[] | string;
+    field?: string;
+    value?: string | string[];
+  };
+};
+
+export type BulkItemResult =
+  | { id: string; ok: true; video?: VideoRecord }
+  | { id: string; ok: false; status: number; error: string; code?: string };
+
+export type BulkOperationResult = {
+  operation: BulkOperation["type"];
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+};
+
+export type TrashPage = {
+  items: VideoRecord[];
+  retentionDays: number;
+};
+
+export type RevisionField = "title" | "description" | "tags" | "visibility";
+
+export type VideoMetadataSnapshot = Pick<VideoRecord, RevisionField>;
+
+export type VideoRevision = {
+  videoId: string;
+  version: number;
+  actorId: string;
+  actorName: string;
+  fields: RevisionField[];
+  before: VideoMetadataSnapshot;
+  after: VideoMetadataSnapshot;
+  restoredFrom: number | null;
+  createdAt: string;
+};
+
+export type UploadSession = {
+  id: string;
+  ownerId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  offset: number;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CreateUploadPayload = Pick<
+  UploadSession,
+  "fileName" | "contentType" | "size" | "title" | "description"
+> & {
+  tags?: string[] | string;
+};
+
+export type UploadPolicy = {
+  allowedContainers: VideoContainer[];
+  allowedContentTypes: string[];
+  maxFileSize: number;
+  maxTitleLength: number;
+  maxDescriptionLength: number;
+};
+
+export type VideoIndex = {
+  version: 1;
+  updatedAt: string;
+  records: Record<string, VideoRecord>;
+};
+
+export type CaptionTextIndex = {
+  version: 1;
+  updatedAt: string;
+  videos: Record<string, Record<string, string>>;
+};
+
+export type VideoSortField =
+  | "createdAt"
+  | "updatedAt"
+  | "title"
+  | "size"
+  | "duration"
+  | "resolution"
+  | "relevance"
+  | "position";
+
+export type VideoQuery = {
+  q?: string;
+  ownerId?: string;
+  collectionId?: string;
+  limit: number;
+  cursor?: string;
+  sort: VideoSortField;
+  order: "asc" | "desc";
+  tags: string[];
+  contentType?: string;
+  minSize?: number;
+  maxSize?: number;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+};
+
+export type SearchHighlight = {
+  field: "title" | "description" | "tags" | "captions";
+  text: string;
+  ranges: [number, number][];
+};
+
+export type VideoPage = {
+  items: VideoRecord[];
+  nextCursor: string | null;
+  total: number;
+  totalSize: number;
+  highlights?: Record<string, SearchHighlight[]>;
+};
+
+export type UserRole = "admin" | "member";
+
+export type UserRecord = {
+  id: string;
+  username: string;
+  role: UserRole;
+  passwordHash: string;
+  createdAt: string;
+};
+
+export type SessionUser = Pick<UserRecord, "id" | "username" | "role">;
+
+export type AuthSession = {
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export type CredentialsPayload = {
+  username?: string;
+  password?: string;
+};
+
+export type ApiKeyScope =
+  | "videos:read"
+  | "videos:write"
+  | "videos:delete"
+  | "webhooks:manage";
+
+export type ApiKeyRecord = {
+  id: string;
+  ownerId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+};
+
+export type ApiKeySummary = Omit<ApiKeyRecord, "keyHash">;
+
+export type CreateApiKeyPayload = {
+  name?: string;
+  scopes?: string[];
+  expiresAt?: string | null;
+};
+
+export type WebhookEventType =
+  | "video.created"
+  | "video.updated"
+  | "video.deleted";
+
+export type WebhookRecord = {
+  id: string;
+  ownerId: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string;
+  active: boolean;
+  secret: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookSummary = Omit<WebhookRecord, "secret">;
+
+export type WebhookPayload = {
+  url?: string;
+  events?: string[];
+  description?: string;
+  active?: boolean;
+  rotateSecret?: boolean;
+};
+
+export type WebhookChange = RevisionField | "deletedAt";
+
+export type WebhookEvent = {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: {
+    video: VideoRecord;
+    changes: WebhookChange[];
+  };
+};
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt: string | null;
+};
+
+export type ShareLink = {
+  id: string;
+  videoId: string;
+  createdAt: string;
+  expiresAt: string | null;
+  maxViews: number | null;
+  views: number;
+};
+
+export type ShareLinkWithUrl = ShareLink & {
+  url: string;
+  embedUrl: string;
+};
+
+export type CreateShareLinkPayload = {
+  expiresAt?: string | null;
+  maxViews?: number | null;
+};
+
+export type OEmbedResponse = {
+  version: "1.0";
+  type: "video";
+  provider_name: string;
+  provider_url: string;
+  title: string;
+  author_name?: string;
+  width: number;
+  height: number;
+  html: string;
+  thumbnail_url?: string;
+  thumbnail_width?: number;
+  thumbnail_height?: number;
+};
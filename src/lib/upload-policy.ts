@@ -0,0 +1,141 @@
+import { RequestError } from "./errors";
+import { CONTAINER_CONTENT_TYPES, sniffContainer } from "./media-probe";
+import type { UploadPolicy, VideoContainer } from "./types";
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const DEFAULT_POLICY: UploadPolicy = {
+  allowedContainers: ["mp4", "mov", "webm", "matroska"],
+  allowedContentTypes: Object.values(CONTAINER_CONTENT_TYPES),
+  maxFileSize: 5 * 1024 ** 3,
+  maxTitleLength: 200,
+  maxDescriptionLength: 5000,
+};
+
+export const SNIFF_BYTES = 64;
+
+export const parseByteSize = (value: string): number | null => {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/);
+  if (!match) return null;
+  return Math.round(Number(match[1]) * BYTE_UNITS[match[2] ?? "b"]);
+};
+
+const formatByteSize = (bytes: number) => {
+  const [unit, factor] = Object.entries(BYTE_UNITS)
+    .reverse()
+    .find(([, value]) => bytes >= value) ?? ["b", 1];
+  return `${Math.round((bytes / factor) * 10) / 10} ${unit.toUpperCase()}`;
+};
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const getUploadPolicy = (): UploadPolicy => {
+  const containers = process.env.UPLOAD_ALLOWED_CONTAINERS?.split(",")
+    .map((container) => container.trim().toLowerCase())
+    .filter((container): container is VideoContainer =>
+      container in CONTAINER_CONTENT_TYPES
+    );
+  const allowedContainers = containers?.length
+    ? containers
+    : DEFAULT_POLICY.allowedContainers;
+
+  return {
+    allowedContainers,
+    allowedContentTypes: allowedContainers.map(
+      (container) => CONTAINER_CONTENT_TYPES[container]
+    ),
+    maxFileSize:
+      parseByteSize(process.env.UPLOAD_MAX_FILE_SIZE ?? "") ||
+      DEFAULT_POLICY.maxFileSize,
+    maxTitleLength: readPositiveInt(
+      process.env.UPLOAD_MAX_TITLE_LENGTH,
+      DEFAULT_POLICY.maxTitleLength
+    ),
+    maxDescriptionLength: readPositiveInt(
+      process.env.UPLOAD_MAX_DESCRIPTION_LENGTH,
+      DEFAULT_POLICY.maxDescriptionLength
+    ),
+  };
+};
+
+const assertOptionalText = (value: unknown, field: string) => {
+  if (value !== undefined && value !== null && typeof value !== "string") {
+    throw new RequestError(`${field} must be a string.`, 400, {
+      code: "invalid_metadata",
+      field,
+    });
+  }
+  return value || "";
+};
+
+export const assertMetadataAllowed = (
+  metadata: { title?: unknown; description?: unknown },
+  policy = getUploadPolicy()
+) => {
+  const title = assertOptionalText(metadata.title, "title");
+  const description = assertOptionalText(metadata.description, "description");
+  if (title.trim().length > policy.maxTitleLength) {
+    throw new RequestError(
+      `Titles can be at most ${policy.maxTitleLength} characters.`,
+      400,
+      { code: "metadata_too_long", field: "title", limit: policy.maxTitleLength }
+    );
+  }
+  if (description.trim().length > policy.maxDescriptionLength) {
+    throw new RequestError(
+      `Descriptions can be at most ${policy.maxDescriptionLength} characters.`,
+      400,
+      {
+        code: "metadata_too_long",
+        field: "description",
+        limit: policy.maxDescriptionLength,
+      }
+    );
+  }
+};
+
+export const assertSizeAllowed = (size: number, policy = getUploadPolicy()) => {
+  if (size <= 0) {
+    throw new RequestError("A non-empty video file is required.", 400, {
+      code: "empty_file",
+      field: "file",
+    });
+  }
+  if (size > policy.maxFileSize) {
+    throw new RequestError(
+      `Videos can be at most ${formatByteSize(policy.maxFileSize)}.`,
+      413,
+      { code: "file_too_large", field: "file", limit: policy.maxFileSize }
+    );
+  }
+};
+
+export const assertContainerAllowed = (
+  header: Uint8Array,
+  policy = getUploadPolicy()
+): VideoContainer => {
+  const container = sniffContainer(header);
+  if (!container || !policy.allowedContainers.includes(container)) {
+    throw new RequestError(
+      container
+        ? `${container.toUpperCase()} videos are not accepted.`
+        : "The file is not a supported video format.",
+      415,
+      {
+        code: "unsupported_media_type",
+        field: "file",
+        allowed: policy.allowedContainers,
+      }
+    );
+  }
+  return container;
+};
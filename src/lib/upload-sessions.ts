@@ -0,0 +1,248 @@
+import { RequestError } from "./errors";
+import { CONTAINER_CONTENT_TYPES } from "./media-probe";
+import {
+  getStorage,
+  readStorageBytes,
+  readStorageJson,
+  writeStorageJson,
+} from "./storage";
+import type {
+  CreateUploadPayload,
+  SessionUser,
+  UploadSession,
+  VideoContainer,
+  VideoRecord,
+} from "./types";
+import {
+  SNIFF_BYTES,
+  assertContainerAllowed,
+  assertMetadataAllowed,
+  assertSizeAllowed,
+  getUploadPolicy,
+} from "./upload-policy";
+import { canManage } from "./users";
+import { createVideoRecordFromStream, parseTags } from "./video-store";
+
+const UPLOAD_PREFIX = "videos/uploads/";
+
+export const MAX_UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const sessionPath = (id: string) => `${UPLOAD_PREFIX}${id}/session.json`;
+const partPrefix = (id: string) => `${UPLOAD_PREFIX}${id}/parts/`;
+const partPath = (id: string, offset: number) =>
+  `${partPrefix(id)}${`${offset}`.padStart(15, "0")}`;
+
+const assertUploadId = (id: string) => {
+  if (!/^[0-9a-f-]{36}$/i.test(id)) {
+    throw new RequestError("Upload not found.", 404);
+  }
+};
+
+const saveSession = async (session: UploadSession) => {
+  await writeStorageJson(sessionPath(session.id), session);
+  return session;
+};
+
+const concatParts = (pathnames: string[]): ReadableStream<Uint8Array> => {
+  const storage = getStorage();
+  let index = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        if (!reader) {
+          if (index >= pathnames.length) {
+            controller.close();
+            return;
+          }
+          const stream = await storage.read(pathnames[index]);
+          if (!stream) {
+            throw new Error(`Upload part ${pathnames[index]} is missing.`);
+          }
+          index += 1;
+          reader = stream.getReader();
+        }
+        const { done, value } = await reader.read();
+        if (done) {
+          reader = null;
+          continue;
+        }
+        controller.enqueue(value);
+        return;
+      }
+    },
+    async cancel(reason) {
+      await reader?.cancel(reason);
+    },
+  });
+};
+
+export const createUploadSession = async (
+  payload: CreateUploadPayload,
+  user: SessionUser
+): Promise<UploadSession> => {
+  const fileName = `${payload.fileName ?? ""}`.trim();
+  const size = Number(payload.size);
+  if (!fileName) {
+    throw new RequestError("A file name is required.", 400);
+  }
+  if (!Number.isSafeInteger(size) || size <= 0) {
+    throw new RequestError("A positive upload size is required.", 400);
+  }
+  const policy = getUploadPolicy();
+  assertSizeAllowed(size, policy);
+  assertMetadataAllowed(payload, policy);
+  const tags = parseTags(payload.tags);
+
+  const now = new Date().toISOString();
+  return saveSession({
+    id: crypto.randomUUID(),
+    ownerId: user.id,
+    fileName,
+    contentType: payload.contentType || "video/mp4",
+    size,
+    offset: 0,
+    title: payload.title,
+    description: payload.description,
+    tags,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const getUploadSession = async (
+  id: string,
+  user: SessionUser
+): Promise<UploadSession> => {
+  assertUploadId(id);
+  const session = await readStorageJson<UploadSession>(sessionPath(id));
+  if (!session || !canManage(user, session.ownerId)) {
+    throw new RequestError("Upload not found.", 404);
+  }
+  return session;
+};
+
+export const appendUploadChunk = async (
+  id: string,
+  offset: number,
+  chunk: ArrayBuffer,
+  user: SessionUser
+): Promise<UploadSession> => {
+  const session = await getUploadSession(id, user);
+  if (offset !== session.offset) {
+    throw new RequestError("Upload offset does not match.", 409, {
+      offset: session.offset,
+    });
+  }
+  if (chunk.byteLength === 0) {
+    throw new RequestError("Upload chunk is empty.", 400);
+  }
+  if (chunk.byteLength > MAX_UPLOAD_CHUNK_SIZE) {
+    throw new RequestError("Upload chunk is too large.", 413, {
+      maxChunkSize: MAX_UPLOAD_CHUNK_SIZE,
+    });
+  }
+  if (offset + chunk.byteLength > session.size) {
+    throw new RequestError("Upload chunk exceeds the declared size.", 400, {
+      offset: session.offset,
+      size: session.size,
+    });
+  }
+
+  if (offset === 0) {
+    const headerSize = Math.min(SNIFF_BYTES, session.size);
+    if (chunk.byteLength < headerSize) {
+      throw new RequestError(
+        `The first upload chunk must be at least ${headerSize} bytes.`,
+        400,
+        { minChunkSize: headerSize }
+      );
+    }
+    assertContainerAllowed(new Uint8Array(chunk, 0, headerSize));
+  }
+
+  await getStorage().put(partPath(id, offset), chunk, {
+    contentType: "application/octet-stream",
+  });
+
+  return saveSession({
+    ...session,
+    offset: offset + chunk.byteLength,
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+export const finalizeUploadSession = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoRecord> => {
+  const session = await getUploadSession(id, user);
+  if (session.offset !== session.size) {
+    throw new RequestError("Upload is not complete yet.", 409, {
+      offset: session.offset,
+      size: session.size,
+    });
+  }
+
+  const storage = getStorage();
+  const parts = (await storage.list(partPrefix(id))).sort((a, b) =>
+    a.pathname.localeCompare(b.pathname)
+  );
+  let expectedOffset = 0;
+  for (const part of parts) {
+    if (part.pathname !== partPath(id, expectedOffset)) {
+      throw new RequestError("Upload parts are inconsistent.", 409, {
+        offset: expectedOffset,
+      });
+    }
+    expectedOffset += part.size;
+  }
+  if (expectedOffset !== session.size) {
+    throw new RequestError("Upload parts are inconsistent.", 409, {
+      offset: expectedOffset,
+    });
+  }
+
+  const header = parts[0]
+    ? await readStorageBytes(parts[0].pathname, {
+        start: 0,
+        end: Math.min(parts[0].size, SNIFF_BYTES) - 1,
+      })
+    : null;
+  let container: VideoContainer;
+  try {
+    container = assertContainerAllowed(header ?? new Uint8Array());
+  } catch (error) {
+    await abortUploadSession(id, user);
+    throw error;
+  }
+
+  const record = await createVideoRecordFromStream({
+    id: session.id,
+    ownerId: session.ownerId,
+    body: concatParts(parts.map((part) => part.pathname)),
+    fileName: session.fileName,
+    contentType: CONTAINER_CONTENT_TYPES[container],
+    size: session.size,
+    title: session.title,
+    description: session.description,
+    tags: session.tags,
+  });
+
+  await storage.del([...parts.map((part) => part.pathname), sessionPath(id)]);
+  return record;
+};
+
+export const abortUploadSession = async (
+  id: string,
+  user: SessionUser
+): Promise<void> => {
+  const session = await getUploadSession(id, user);
+  const storage = getStorage();
+  const parts = await storage.list(partPrefix(session.id));
+  await storage.del([
+    ...parts.map((part) => part.pathname),
+    sessionPath(session.id),
+  ]);
+};
@@ -0,0 +1,136 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { RequestError } from "./errors";
+import { getStorage, readStorageJson, writeStorageJson } from "./storage";
+import type {
+  CredentialsPayload,
+  SessionUser,
+  UserRecord,
+} from "./types";
+
+const USER_PREFIX = "auth/users/";
+const USERNAME_PREFIX = "auth/usernames/";
+const PASSWORD_KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+
+const deriveKey = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const userPath = (id: string) => `${USER_PREFIX}${id}.json`;
+const usernamePath = (username: string) =>
+  `${USERNAME_PREFIX}${username.toLowerCase()}.json`;
+
+const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`;
+};
+
+const verifyPassword = async (password: string, passwordHash: string) => {
+  const [scheme, salt, expected] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !salt || !expected) return false;
+  const expectedKey = Buffer.from(expected, "base64url");
+  const key = await deriveKey(
+    password,
+    Buffer.from(salt, "base64url"),
+    expectedKey.length
+  );
+  return timingSafeEqual(key, expectedKey);
+};
+
+const readCredentials = ({ username, password }: CredentialsPayload) => ({
+  username: `${username ?? ""}`.trim(),
+  password: `${password ?? ""}`,
+});
+
+export const toSessionUser = ({
+  id,
+  username,
+  role,
+}: UserRecord): SessionUser => ({ id, username, role });
+
+export const canManage = (user: SessionUser, ownerId: string | undefined) =>
+  user.role === "admin" || ownerId === user.id;
+
+let pendingUserCreation: Promise<unknown> = Promise.resolve();
+
+const withUserLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingUserCreation.then(task, task);
+  pendingUserCreation = run.catch(() => undefined);
+  return run;
+};
+
+const hasUsers = async () =>
+  (await getStorage().list(USER_PREFIX)).length > 0;
+
+export const isSignupAllowed = async () =>
+  process.env.AUTH_ALLOW_SIGNUP === "true" || !(await hasUsers());
+
+export const getUser = (id: string) =>
+  readStorageJson<UserRecord>(userPath(id));
+
+export const createUser = async (
+  payload: CredentialsPayload
+): Promise<SessionUser> => {
+  const { username, password } = readCredentials(payload);
+  if (!/^[a-z0-9_.-]{3,32}$/i.test(username)) {
+    throw new RequestError(
+      "Usernames must be 3–32 letters, numbers, dots, dashes, or underscores.",
+      400,
+      { code: "invalid_username", field: "username" }
+    );
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new RequestError(
+      `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`,
+      400,
+      { code: "weak_password", field: "password" }
+    );
+  }
+  const passwordHash = await hashPassword(password);
+
+  return withUserLock(async () => {
+    const isFirstUser = !(await hasUsers());
+    if (!isFirstUser && process.env.AUTH_ALLOW_SIGNUP !== "true") {
+      throw new RequestError("Sign-up is disabled.", 403, {
+        code: "signup_disabled",
+      });
+    }
+    if (await readStorageJson(usernamePath(username))) {
+      throw new RequestError("That username is already taken.", 409, {
+        code: "username_taken",
+        field: "username",
+      });
+    }
+
+    const user: UserRecord = {
+      id: crypto.randomUUID(),
+      username,
+      role: isFirstUser ? "admin" : "member",
+      passwordHash,
+      createdAt: new Date().toISOString(),
+    };
+    await writeStorageJson(userPath(user.id), user);
+    await writeStorageJson(usernamePath(username), { id: user.id });
+    return toSessionUser(user);
+  });
+};
+
+export const authenticateUser = async (
+  payload: CredentialsPayload
+): Promise<SessionUser> => {
+  const { username, password } = readCredentials(payload);
+  const entry = username
+    ? await readStorageJson<{ id: string }>(usernamePath(username))
+    : null;
+  const user = entry ? await getUser(entry.id) : null;
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new RequestError("Incorrect username or password.", 401, {
+      code: "invalid_credentials",
+    });
+  }
+  return toSessionUser(user);
+};
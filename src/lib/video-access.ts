@@ -0,0 +1,76 @@
+import { findRequestUser } from "./auth";
+import { RequestError } from "./errors";
+import {
+  issuePlaybackGrant,
+  readShareToken,
+  redeemShareToken,
+  verifyPlaybackGrant,
+} from "./share-links";
+import type { PersistedVideoRecord, SessionUser } from "./types";
+import { canManage } from "./users";
+import { readVideoRecord } from "./video-store";
+
+type VideoPlayback = {
+  record: PersistedVideoRecord;
+  grant: string | null;
+};
+
+export const isPubliclyViewable = (record: PersistedVideoRecord) =>
+  record.visibility === "public" || record.visibility === "unlisted";
+
+const readAccessibleRecord = async (id: string) => {
+  const record = await readVideoRecord(id);
+  if (isPubliclyViewable(record)) return { record, open: true };
+  const user = await findRequestUser("videos:read");
+  return { record, open: Boolean(user && canManage(user, record.ownerId)) };
+};
+
+export const authorizeVideoAccess = async (
+  id: string,
+  { grant }: { grant?: string | null } = {}
+): Promise<PersistedVideoRecord> => {
+  const { record, open } = await readAccessibleRecord(id);
+  if (open) return record;
+  if (!grant) {
+    throw new RequestError("Video not found.", 404);
+  }
+  await verifyPlaybackGrant(record.id, grant);
+  return record;
+};
+
+export const startVideoPlayback = async (
+  id: string,
+  token: string | null
+): Promise<VideoPlayback> => {
+  const { record, open } = await readAccessibleRecord(id);
+  if (open) return { record, grant: null };
+  if (!token) {
+    throw new RequestError("Video not found.", 404);
+  }
+  const link = await redeemShareToken(record.id, token);
+  return { record, grant: await issuePlaybackGrant(link) };
+};
+
+export const inspectVideoAccess = async (
+  id: string,
+  token: string | null
+): Promise<PersistedVideoRecord> => {
+  const { record, open } = await readAccessibleRecord(id);
+  if (open) return record;
+  if (!token) {
+    throw new RequestError("Video not found.", 404);
+  }
+  await readShareToken(record.id, token);
+  return record;
+};
+
+export const getViewableVideo = async (
+  id: string,
+  user: SessionUser
+): Promise<PersistedVideoRecord> => {
+  const record = await readVideoRecord(id);
+  if (!isPubliclyViewable(record) && !canManage(user, record.ownerId)) {
+    throw new RequestError("Video not found.", 404);
+  }
+  return record;
+};
@@ -0,0 +1,189 @@
+import { RequestError } from "./errors";
+import type {
+  ApiKeyScope,
+  BulkItemResult,
+  BulkOperation,
+  BulkOperationPayload,
+  BulkOperationResult,
+  SessionUser,
+  UpdateVideoPayload,
+  VideoRecord,
+} from "./types";
+import { parseVideoQuery, selectVideoIds } from "./video-query";
+import {
+  deleteVideoRecord,
+  parseTags,
+  updateVideoRecord,
+  updateVideoTags,
+} from "./video-store";
+
+const MAX_BULK_ITEMS = 500;
+
+const SET_FIELDS: (keyof UpdateVideoPayload)[] = [
+  "title",
+  "description",
+  "tags",
+  "visibility",
+];
+
+export const BULK_OPERATION_SCOPES: Record<BulkOperation["type"], ApiKeyScope> =
+  {
+    delete: "videos:delete",
+    addTags: "videos:write",
+    removeTags: "videos:write",
+    setField: "videos:write",
+  };
+
+const invalid = (message: string, field: string) =>
+  new RequestError(message, 400, { code: "invalid_bulk_request", field });
+
+export const parseBulkOperation = (
+  operation: BulkOperationPayload["operation"]
+): BulkOperation => {
+  switch (operation?.type) {
+    case "delete":
+      return { type: "delete" };
+    case "addTags":
+    case "removeTags": {
+      const tags = parseTags(operation.tags);
+      if (tags.length === 0) {
+        throw invalid("Provide at least one tag.", "operation.tags");
+      }
+      return { type: operation.type, tags };
+    }
+    case "setField": {
+      const field = operation.field as keyof UpdateVideoPayload;
+      if (!SET_FIELDS.includes(field)) {
+        throw invalid(
+          `field must be one of ${SET_FIELDS.join(", ")}.`,
+          "operation.field"
+        );
+      }
+      const { value } = operation;
+      if (
+        typeof value !== "string" &&
+        !(field === "tags" && Array.isArray(value))
+      ) {
+        throw invalid(
+          field === "tags"
+            ? "value must be a list of tags or a comma-separated string."
+            : "value must be a string.",
+          "operation.value"
+        );
+      }
+      return { type: "setField", field, value };
+    }
+    default:
+      throw invalid(
+        `operation.type must be one of ${Object.keys(BULK_OPERATION_SCOPES).join(", ")}.`,
+        "operation.type"
+      );
+  }
+};
+
+const toSearchParams = (filter: Record<string, string | string[]>) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(key, `${item}`);
+    }
+  }
+  params.delete("cursor");
+  params.delete("limit");
+  return params;
+};
+
+const selectTargets = async (
+  { ids, filter }: BulkOperationPayload,
+  user: SessionUser
+) => {
+  if ((ids === undefined) === (filter === undefined)) {
+    throw invalid("Provide either ids or a filter, but not both.", "ids");
+  }
+  if (ids !== undefined && !Array.isArray(ids)) {
+    throw invalid("ids must be an array of video ids.", "ids");
+  }
+  if (filter !== undefined && (typeof filter !== "object" || !filter)) {
+    throw invalid("filter must be an object of search parameters.", "filter");
+  }
+
+  const field = ids ? "ids" : "filter";
+  const selected = ids
+    ? [...new Set(ids.map((id) => `${id}`))]
+    : await selectVideoIds(parseVideoQuery(toSearchParams(filter ?? {})), user);
+  if (selected.length === 0) {
+    throw invalid("The selection does not match any videos.", field);
+  }
+  if (selected.length > MAX_BULK_ITEMS) {
+    throw invalid(
+      `A bulk operation can change at most ${MAX_BULK_ITEMS} videos at once.`,
+      field
+    );
+  }
+  return selected;
+};
+
+const applyOperation = async (
+  id: string,
+  operation: BulkOperation,
+  user: SessionUser
+): Promise<VideoRecord | undefined> => {
+  switch (operation.type) {
+    case "delete":
+      await deleteVideoRecord(id, user);
+      return undefined;
+    case "addTags":
+      return updateVideoTags(id, { add: operation.tags }, user);
+    case "removeTags":
+      return updateVideoTags(id, { remove: operation.tags }, user);
+    case "setField":
+      return updateVideoRecord(
+        id,
+        { [operation.field]: operation.value } as UpdateVideoPayload,
+        user
+      );
+  }
+};
+
+const toItemResult = async (
+  id: string,
+  operation: BulkOperation,
+  user: SessionUser
+): Promise<BulkItemResult> => {
+  try {
+    return { id, ok: true, video: await applyOperation(id, operation, user) };
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return {
+        id,
+        ok: false,
+        status: error.status,
+        error: error.message,
+        ...(typeof error.details.code === "string"
+          ? { code: error.details.code }
+          : {}),
+      };
+    }
+    console.error(`Bulk ${operation.type} failed for video ${id}`, error);
+    return { id, ok: false, status: 500, error: "Unexpected error." };
+  }
+};
+
+export const runBulkOperation = async (
+  payload: BulkOperationPayload,
+  operation: BulkOperation,
+  user: SessionUser
+): Promise<BulkOperationResult> => {
+  const ids = await selectTargets(payload, user);
+  const results: BulkItemResult[] = [];
+  for (const id of ids) {
+    results.push(await toItemResult(id, operation, user));
+  }
+  const succeeded = results.filter((result) => result.ok).length;
+  return {
+    operation: operation.type,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+};
@@ -0,0 +1,213 @@
+import { randomUUID } from "node:crypto";
+import { parseCaptionFile } from "./caption-format";
+import {
+  readCaptionTextIndex,
+  removeCaptionText,
+  storeCaptionTexts,
+} from "./caption-index";
+import { RequestError } from "./errors";
+import { getStorage, readStorageBytes } from "./storage";
+import type {
+  SessionUser,
+  UpdateCaptionPayload,
+  VideoCaption,
+  VideoRecord,
+} from "./types";
+import { captionPrefix, getVideoRecord, patchVideoRecord } from "./video-store";
+
+export const MAX_CAPTION_SIZE = 2 * 1024 * 1024;
+const MAX_CAPTIONS_PER_VIDEO = 20;
+const MAX_LABEL_LENGTH = 80;
+
+type AddCaptionInput = {
+  fileName: string;
+  bytes: Uint8Array;
+  language?: unknown;
+  label?: unknown;
+};
+
+const canonicalizeLanguage = (value: string) => {
+  try {
+    return Intl.getCanonicalLocales(value)[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const parseLanguage = (language: unknown) => {
+  const value = typeof language === "string" ? language.trim() : "";
+  const canonical = value ? canonicalizeLanguage(value) : null;
+  if (canonical) return canonical;
+  throw new RequestError(
+    "language must be a BCP 47 language tag such as en or pt-BR.",
+    400,
+    { code: "invalid_language", field: "language" }
+  );
+};
+
+const parseLabel = (label: unknown, language: string) => {
+  const value = typeof label === "string" ? label.trim() : "";
+  if (value.length > MAX_LABEL_LENGTH) {
+    throw new RequestError(
+      `Labels can be at most ${MAX_LABEL_LENGTH} characters.`,
+      400,
+      { code: "invalid_label", field: "label" }
+    );
+  }
+  if (value) return value;
+  try {
+    return (
+      new Intl.DisplayNames(["en"], { type: "language" }).of(language) ??
+      language
+    );
+  } catch {
+    return language;
+  }
+};
+
+const findCaption = (video: VideoRecord, captionId: string) => {
+  const caption = video.captions?.find((entry) => entry.id === captionId);
+  if (!caption) {
+    throw new RequestError("Caption track not found.", 404);
+  }
+  return caption;
+};
+
+export const listVideoCaptions = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoCaption[]> =>
+  (await getVideoRecord(id, user)).captions ?? [];
+
+export const assertCaptionSize = (size: number) => {
+  if (size > MAX_CAPTION_SIZE) {
+    throw new RequestError("Caption files can be at most 2 MB.", 413, {
+      code: "captions_too_large",
+      field: "file",
+    });
+  }
+};
+
+export const addVideoCaption = async (
+  id: string,
+  { fileName, bytes, language, label }: AddCaptionInput,
+  user: SessionUser
+): Promise<VideoCaption> => {
+  const video = await getVideoRecord(id, user);
+  if ((video.captions?.length ?? 0) >= MAX_CAPTIONS_PER_VIDEO) {
+    throw new RequestError(
+      `Videos can have at most ${MAX_CAPTIONS_PER_VIDEO} caption tracks.`,
+      409,
+      { code: "too_many_captions" }
+    );
+  }
+  assertCaptionSize(bytes.byteLength);
+  const parsedLanguage = parseLanguage(language);
+  const parsedLabel = parseLabel(label, parsedLanguage);
+  const { vtt, cueCount, text } = parseCaptionFile(fileName, bytes);
+
+  const captionId = randomUUID();
+  const storagePath = `${captionPrefix(id)}${captionId}.vtt`;
+  const body = new TextEncoder().encode(vtt);
+  const storage = getStorage();
+  await storage.put(storagePath, body, { contentType: "text/vtt" });
+
+  const now = new Date().toISOString();
+  const caption: VideoCaption = {
+    id: captionId,
+    language: parsedLanguage,
+    label: parsedLabel,
+    storagePath,
+    size: body.byteLength,
+    cueCount,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await patchVideoRecord(id, (record) => ({
+    ...record,
+    captions: [...(record.captions ?? []), caption],
+  })).catch(async (error) => {
+    await storage.del([storagePath]);
+    throw error;
+  });
+  await storeCaptionTexts({ [id]: { [captionId]: text } });
+  return caption;
+};
+
+export const updateVideoCaption = async (
+  id: string,
+  captionId: string,
+  payload: UpdateCaptionPayload,
+  user: SessionUser
+): Promise<VideoCaption> => {
+  const current = findCaption(await getVideoRecord(id, user), captionId);
+  const language =
+    payload.language === undefined
+      ? current.language
+      : parseLanguage(payload.language);
+  const label =
+    payload.label === undefined
+      ? current.label
+      : parseLabel(payload.label, language);
+  const updated: VideoCaption = {
+    ...current,
+    language,
+    label,
+    updatedAt: new Date().toISOString(),
+  };
+  await patchVideoRecord(id, (record) => ({
+    ...record,
+    captions: record.captions?.map((caption) =>
+      caption.id === captionId ? updated : caption
+    ),
+  }));
+  return updated;
+};
+
+export const removeVideoCaption = async (
+  id: string,
+  captionId: string,
+  user: SessionUser
+): Promise<void> => {
+  const caption = findCaption(await getVideoRecord(id, user), captionId);
+  await patchVideoRecord(id, (record) => ({
+    ...record,
+    captions: record.captions?.filter((entry) => entry.id !== captionId),
+  }));
+  await getStorage().del([caption.storagePath]);
+  await removeCaptionText(id, captionId);
+};
+
+const extractCaptionText = async (caption: VideoCaption) => {
+  const bytes = await readStorageBytes(caption.storagePath);
+  return bytes ? parseCaptionFile(`${caption.id}.vtt`, bytes).text : "";
+};
+
+export const loadCaptionTexts = async (
+  records: VideoRecord[]
+): Promise<Map<string, string[]>> => {
+  const index = await readCaptionTextIndex();
+  const missing: Record<string, Record<string, string>> = {};
+  const texts = new Map<string, string[]>();
+  for (const record of records) {
+    if (!record.captions?.length) continue;
+    const known = index[record.id] ?? {};
+    const entries: string[] = [];
+    for (const caption of record.captions) {
+      let text = known[caption.id];
+      if (text === undefined) {
+        text = await extractCaptionText(caption).catch((error) => {
+          console.error(`Failed to index captions ${caption.id}`, error);
+          return "";
+        });
+        missing[record.id] = { ...missing[record.id], [caption.id]: text };
+      }
+      entries.push(text);
+    }
+    texts.set(record.id, entries);
+  }
+  if (Object.keys(missing).length > 0) {
+    await storeCaptionTexts(missing);
+  }
+  return texts;
+};
@@ -0,0 +1,76 @@
+import { RequestError } from "./errors";
+import type { SessionUser, VideoChapter } from "./types";
+import { getViewableVideo } from "./video-access";
+import { getVideoRecord, patchVideoRecord } from "./video-store";
+
+const MAX_CHAPTERS = 100;
+const MAX_CHAPTER_TITLE_LENGTH = 100;
+
+const invalidChapters = (message: string, index?: number) =>
+  new RequestError(message, 400, {
+    code: "invalid_chapters",
+    field: "chapters",
+    ...(index === undefined ? {} : { index }),
+  });
+
+const parseChapters = (
+  chapters: unknown,
+  duration: number | undefined
+): VideoChapter[] => {
+  if (!Array.isArray(chapters)) {
+    throw invalidChapters("chapters must be an array.");
+  }
+  if (chapters.length > MAX_CHAPTERS) {
+    throw invalidChapters(`Videos can have at most ${MAX_CHAPTERS} chapters.`);
+  }
+  const parsed = chapters.map((chapter, index): VideoChapter => {
+    const title =
+      typeof chapter?.title === "string" ? chapter.title.trim() : "";
+    if (!title || title.length > MAX_CHAPTER_TITLE_LENGTH) {
+      throw invalidChapters(
+        `Chapter titles must be 1 to ${MAX_CHAPTER_TITLE_LENGTH} characters.`,
+        index
+      );
+    }
+    const startSeconds = Number(chapter?.startSeconds);
+    if (
+      chapter?.startSeconds === null ||
+      !Number.isFinite(startSeconds) ||
+      startSeconds < 0 ||
+      (duration !== undefined && startSeconds >= duration)
+    ) {
+      throw invalidChapters(
+        "Chapter start times must be within the video.",
+        index
+      );
+    }
+    return { title, startSeconds: Math.round(startSeconds * 1000) / 1000 };
+  });
+
+  const sorted = parsed.sort((a, b) => a.startSeconds - b.startSeconds);
+  const duplicate = sorted.findIndex(
+    (chapter, index) =>
+      index > 0 && chapter.startSeconds === sorted[index - 1].startSeconds
+  );
+  if (duplicate >= 0) {
+    throw invalidChapters("Two chapters cannot start at the same time.");
+  }
+  return sorted;
+};
+
+export const listVideoChapters = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoChapter[]> =>
+  (await getViewableVideo(id, user)).chapters ?? [];
+
+export const replaceVideoChapters = async (
+  id: string,
+  chapters: unknown,
+  user: SessionUser
+): Promise<VideoChapter[]> => {
+  const video = await getVideoRecord(id, user);
+  const parsed = parseChapters(chapters, video.media?.durationSeconds);
+  await patchVideoRecord(id, (record) => ({ ...record, chapters: parsed }));
+  return parsed;
+};
@@ -0,0 +1,261 @@
+import {
+  deleteCollectionFile,
+  readAllCollections,
+  readCollection,
+  withCollectionLock,
+  writeCollection,
+} from "./collection-store";
+import { RequestError } from "./errors";
+import type {
+  CollectionPayload,
+  CollectionWithVideos,
+  SessionUser,
+  VideoCollection,
+  VideoRecord,
+} from "./types";
+import { canManage } from "./users";
+import {
+  getVideoRecord,
+  listTrashedVideoRecords,
+  readVideoRecord,
+} from "./video-store";
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_COLLECTION_VIDEOS = 500;
+
+const invalid = (message: string, field: string) =>
+  new RequestError(message, 400, { code: "invalid_collection", field });
+
+const parseTitle = (title: unknown) => {
+  const value = typeof title === "string" ? title.trim() : "";
+  if (!value || value.length > MAX_TITLE_LENGTH) {
+    throw invalid(`title must be 1–${MAX_TITLE_LENGTH} characters.`, "title");
+  }
+  return value;
+};
+
+const parseDescription = (description: unknown) => {
+  if (description === undefined || description === null) return "";
+  if (
+    typeof description !== "string" ||
+    description.length > MAX_DESCRIPTION_LENGTH
+  ) {
+    throw invalid(
+      `description must be at most ${MAX_DESCRIPTION_LENGTH} characters.`,
+      "description"
+    );
+  }
+  return description.trim();
+};
+
+const parseVideoIds = async (videoIds: unknown, user: SessionUser) => {
+  if (
+    !Array.isArray(videoIds) ||
+    !videoIds.every((id) => typeof id === "string")
+  ) {
+    throw invalid("videoIds must be an array of video ids.", "videoIds");
+  }
+  if (videoIds.length > MAX_COLLECTION_VIDEOS) {
+    throw invalid(
+      `A collection can hold at most ${MAX_COLLECTION_VIDEOS} videos.`,
+      "videoIds"
+    );
+  }
+  if (new Set(videoIds).size !== videoIds.length) {
+    throw invalid("videoIds must not contain duplicates.", "videoIds");
+  }
+  for (const id of videoIds) {
+    await getVideoRecord(id, user).catch(() => {
+      throw invalid(`Video ${id} was not found.`, "videoIds");
+    });
+  }
+  return videoIds as string[];
+};
+
+const parseCoverVideoId = (coverVideoId: unknown, videoIds: string[]) => {
+  if (!coverVideoId) return null;
+  if (typeof coverVideoId !== "string" || !videoIds.includes(coverVideoId)) {
+    throw invalid(
+      "coverVideoId must be one of the collection's videos.",
+      "coverVideoId"
+    );
+  }
+  return coverVideoId;
+};
+
+const getOwnedCollection = async (id: string, user: SessionUser) => {
+  const collection = await readCollection(id);
+  if (!collection || !canManage(user, collection.ownerId)) {
+    throw new RequestError("Collection not found.", 404);
+  }
+  return collection;
+};
+
+const readTrashedIds = async () =>
+  new Set((await listTrashedVideoRecords()).map((record) => record.id));
+
+const withoutTrashedVideos = (
+  collection: VideoCollection,
+  trashedIds: Set<string>
+): VideoCollection => ({
+  ...collection,
+  videoIds: collection.videoIds.filter((id) => !trashedIds.has(id)),
+  coverVideoId:
+    collection.coverVideoId && trashedIds.has(collection.coverVideoId)
+      ? null
+      : collection.coverVideoId,
+});
+
+const toVisibleCollection = async (collection: VideoCollection) =>
+  withoutTrashedVideos(collection, await readTrashedIds());
+
+const resolveVideos = async (videoIds: string[]) => {
+  const videos: VideoRecord[] = [];
+  for (const id of videoIds) {
+    const record = await readVideoRecord(id).catch(() => null);
+    if (record) videos.push(record);
+  }
+  return videos;
+};
+
+export const listCollections = async (
+  user: SessionUser
+): Promise<VideoCollection[]> => {
+  const trashedIds = await readTrashedIds();
+  return (await readAllCollections())
+    .filter((collection) => canManage(user, collection.ownerId))
+    .map((collection) => withoutTrashedVideos(collection, trashedIds))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getCollection = async (id: string, user: SessionUser) =>
+  toVisibleCollection(await getOwnedCollection(id, user));
+
+export const getCollectionWithVideos = async (
+  id: string,
+  user: SessionUser
+): Promise<CollectionWithVideos> => {
+  const collection = await getCollection(id, user);
+  return { ...collection, videos: await resolveVideos(collection.videoIds) };
+};
+
+export const createCollection = async (
+  payload: CollectionPayload,
+  user: SessionUser
+): Promise<VideoCollection> => {
+  const title = parseTitle(payload.title);
+  const description = parseDescription(payload.description);
+  const videoIds =
+    payload.videoIds === undefined
+      ? []
+      : await parseVideoIds(payload.videoIds, user);
+  const now = new Date().toISOString();
+  return withCollectionLock(() =>
+    writeCollection({
+      id: crypto.randomUUID(),
+      ownerId: user.id,
+      title,
+      description,
+      coverVideoId: parseCoverVideoId(payload.coverVideoId, videoIds),
+      videoIds,
+      createdAt: now,
+      updatedAt: now,
+    })
+  );
+};
+
+export const updateCollection = async (
+  id: string,
+  payload: CollectionPayload,
+  user: SessionUser
+): Promise<VideoCollection> => {
+  await getOwnedCollection(id, user);
+  const videoIds =
+    payload.videoIds === undefined
+      ? undefined
+      : await parseVideoIds(payload.videoIds, user);
+  const trashedIds = await readTrashedIds();
+  const updated = await withCollectionLock(async () => {
+    const current = await getOwnedCollection(id, user);
+    const nextVideoIds = videoIds
+      ? [
+          ...videoIds,
+          ...current.videoIds.filter(
+            (entry) => trashedIds.has(entry) && !videoIds.includes(entry)
+          ),
+        ]
+      : current.videoIds;
+    const coverVideoId =
+      payload.coverVideoId === undefined
+        ? nextVideoIds.includes(current.coverVideoId ?? "")
+          ? current.coverVideoId
+          : null
+        : parseCoverVideoId(payload.coverVideoId, nextVideoIds);
+    return writeCollection({
+      ...current,
+      title:
+        payload.title === undefined ? current.title : parseTitle(payload.title),
+      description:
+        payload.description === undefined
+          ? current.description
+          : parseDescription(payload.description),
+      coverVideoId,
+      videoIds: nextVideoIds,
+      updatedAt: new Date().toISOString(),
+    });
+  });
+  return withoutTrashedVideos(updated, trashedIds);
+};
+
+export const addVideoToCollection = async (
+  id: string,
+  videoId: string,
+  user: SessionUser
+): Promise<VideoCollection> => {
+  await getOwnedCollection(id, user);
+  await parseVideoIds([videoId], user);
+  const updated = await withCollectionLock(async () => {
+    const current = await getOwnedCollection(id, user);
+    if (current.videoIds.includes(videoId)) return current;
+    if (current.videoIds.length >= MAX_COLLECTION_VIDEOS) {
+      throw invalid(
+        `A collection can hold at most ${MAX_COLLECTION_VIDEOS} videos.`,
+        "videoIds"
+      );
+    }
+    return writeCollection({
+      ...current,
+      videoIds: [...current.videoIds, videoId],
+      updatedAt: new Date().toISOString(),
+    });
+  });
+  return toVisibleCollection(updated);
+};
+
+export const removeVideoFromCollection = async (
+  id: string,
+  videoId: string,
+  user: SessionUser
+): Promise<VideoCollection> => {
+  const updated = await withCollectionLock(async () => {
+    const current = await getOwnedCollection(id, user);
+    if (!current.videoIds.includes(videoId)) {
+      throw new RequestError("Video is not in this collection.", 404);
+    }
+    return writeCollection({
+      ...current,
+      videoIds: current.videoIds.filter((entry) => entry !== videoId),
+      coverVideoId:
+        current.coverVideoId === videoId ? null : current.coverVideoId,
+      updatedAt: new Date().toISOString(),
+    });
+  });
+  return toVisibleCollection(updated);
+};
+
+export const deleteCollection = (id: string, user: SessionUser) =>
+  withCollectionLock(async () => {
+    await getOwnedCollection(id, user);
+    await deleteCollectionFile(id);
+  });
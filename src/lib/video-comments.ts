@@ -0,0 +1,216 @@
+import { randomUUID } from "node:crypto";
+import { RequestError } from "./errors";
+import { readStorageJson, writeStorageJson } from "./storage";
+import type {
+  CreateCommentPayload,
+  SessionUser,
+  UpdateCommentPayload,
+  VideoComment,
+} from "./types";
+import { canManage } from "./users";
+import { getViewableVideo } from "./video-access";
+import { commentsPath, migrateVideoComments } from "./video-store";
+
+const MAX_COMMENTS_PER_VIDEO = 500;
+const MAX_COMMENT_LENGTH = 2000;
+
+let pendingCommentUpdate: Promise<unknown> = Promise.resolve();
+
+const withCommentLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingCommentUpdate.then(task, task);
+  pendingCommentUpdate = run.catch(() => undefined);
+  return run;
+};
+
+const readStoredComments = (id: string) =>
+  readStorageJson<VideoComment[]>(commentsPath(id));
+
+const migrateComments = async (id: string) => {
+  await migrateVideoComments(id);
+  return (await readStoredComments(id)) ?? [];
+};
+
+const readComments = async (id: string) =>
+  (await readStoredComments(id)) ??
+  withCommentLock(() => migrateComments(id));
+
+const updateComments = (
+  id: string,
+  update: (comments: VideoComment[]) => VideoComment[]
+) =>
+  withCommentLock(async () => {
+    const comments =
+      (await readStoredComments(id)) ?? (await migrateComments(id));
+    await writeStorageJson(commentsPath(id), update(comments));
+  });
+
+const parseBody = (body: unknown) => {
+  const value = typeof body === "string" ? body.trim() : "";
+  if (!value || value.length > MAX_COMMENT_LENGTH) {
+    throw new RequestError(
+      `Comments must be 1 to ${MAX_COMMENT_LENGTH} characters.`,
+      400,
+      { code: "invalid_comment", field: "body" }
+    );
+  }
+  return value;
+};
+
+const parseTime = (time: unknown, duration: number | undefined) => {
+  if (time === undefined || time === null) return null;
+  const value = Number(time);
+  if (
+    !Number.isFinite(value) ||
+    value < 0 ||
+    (duration !== undefined && value > duration)
+  ) {
+    throw new RequestError(
+      "timeSeconds must be a position within the video.",
+      400,
+      { code: "invalid_time", field: "timeSeconds" }
+    );
+  }
+  return Math.round(value * 1000) / 1000;
+};
+
+const sortComments = (comments: VideoComment[]) =>
+  [...comments].sort(
+    (a, b) =>
+      (a.timeSeconds ?? Infinity) - (b.timeSeconds ?? Infinity) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+
+const collectThread = (comments: VideoComment[], rootId: string) => {
+  const ids = new Set([rootId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const comment of comments) {
+      if (
+        comment.parentId &&
+        ids.has(comment.parentId) &&
+        !ids.has(comment.id)
+      ) {
+        ids.add(comment.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+};
+
+const findComment = (comments: VideoComment[], commentId: string) => {
+  const comment = comments.find((entry) => entry.id === commentId);
+  if (!comment) {
+    throw new RequestError("Comment not found.", 404);
+  }
+  return comment;
+};
+
+export const listVideoComments = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoComment[]> => {
+  const video = await getViewableVideo(id, user);
+  return sortComments(await readComments(video.id));
+};
+
+export const addVideoComment = async (
+  id: string,
+  payload: CreateCommentPayload,
+  user: SessionUser
+): Promise<VideoComment> => {
+  const video = await getViewableVideo(id, user);
+  const body = parseBody(payload.body);
+  const parentId = payload.parentId || null;
+  const parent = parentId
+    ? findComment(await readComments(video.id), parentId)
+    : null;
+  const now = new Date().toISOString();
+  const comment: VideoComment = {
+    id: randomUUID(),
+    parentId,
+    authorId: user.id,
+    authorName: user.username,
+    body,
+    timeSeconds: parent
+      ? parent.timeSeconds
+      : parseTime(payload.timeSeconds, video.media?.durationSeconds),
+    resolved: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await updateComments(video.id, (comments) => {
+    if (comments.length >= MAX_COMMENTS_PER_VIDEO) {
+      throw new RequestError(
+        `Videos can have at most ${MAX_COMMENTS_PER_VIDEO} comments.`,
+        409,
+        { code: "too_many_comments" }
+      );
+    }
+    if (parentId && !comments.some((entry) => entry.id === parentId)) {
+      throw new RequestError("Comment not found.", 404);
+    }
+    return [...comments, comment];
+  });
+  return comment;
+};
+
+export const updateVideoComment = async (
+  id: string,
+  commentId: string,
+  payload: UpdateCommentPayload,
+  user: SessionUser
+): Promise<VideoComment> => {
+  const video = await getViewableVideo(id, user);
+  const current = findComment(await readComments(video.id), commentId);
+  const isAuthor = current.authorId === user.id;
+  const isManager = canManage(user, video.ownerId);
+  if (payload.body !== undefined && !isAuthor) {
+    throw new RequestError("Only the author can edit a comment.", 403, {
+      code: "forbidden",
+    });
+  }
+  if (payload.resolved !== undefined && !isAuthor && !isManager) {
+    throw new RequestError(
+      "Only the author or the video owner can resolve a comment.",
+      403,
+      { code: "forbidden" }
+    );
+  }
+
+  const updated: VideoComment = {
+    ...current,
+    body: payload.body === undefined ? current.body : parseBody(payload.body),
+    resolved:
+      payload.resolved === undefined
+        ? current.resolved
+        : payload.resolved === true,
+    updatedAt: new Date().toISOString(),
+  };
+  await updateComments(video.id, (comments) =>
+    comments.map((comment) => (comment.id === commentId ? updated : comment))
+  );
+  return updated;
+};
+
+export const removeVideoComment = async (
+  id: string,
+  commentId: string,
+  user: SessionUser
+): Promise<void> => {
+  const video = await getViewableVideo(id, user);
+  const comment = findComment(await readComments(video.id), commentId);
+  if (comment.authorId !== user.id && !canManage(user, video.ownerId)) {
+    throw new RequestError(
+      "Only the author or the video owner can delete a comment.",
+      403,
+      { code: "forbidden" }
+    );
+  }
+  await updateComments(video.id, (comments) => {
+    const thread = collectThread(comments, commentId);
+    return comments.filter((entry) => !thread.has(entry.id));
+  });
+};
@@ -0,0 +1,47 @@
+import { readStorageJson, writeStorageJson } from "./storage";
+import type { VideoIndex, VideoRecord } from "./types";
+
+const VIDEO_INDEX_PATH = "videos/index.json";
+
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+const withIndexLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingWrite.then(task, task);
+  pendingWrite = run.catch(() => undefined);
+  return run;
+};
+
+export const readVideoIndex = () =>
+  readStorageJson<VideoIndex>(VIDEO_INDEX_PATH);
+
+export const writeVideoIndex = (records: VideoRecord[]) =>
+  withIndexLock(async () => {
+    const index: VideoIndex = {
+      version: 1,
+      updatedAt: new Date().toISOString(),
+      records: Object.fromEntries(records.map((record) => [record.id, record])),
+    };
+    await writeStorageJson(VIDEO_INDEX_PATH, index);
+    return index;
+  });
+
+const mutateVideoIndex = (mutate: (records: VideoIndex["records"]) => void) =>
+  withIndexLock(async () => {
+    const index = await readVideoIndex();
+    if (!index) return;
+    mutate(index.records);
+    await writeStorageJson(VIDEO_INDEX_PATH, {
+      ...index,
+      updatedAt: new Date().toISOString(),
+    } satisfies VideoIndex);
+  });
+
+export const upsertIndexedVideo = (record: VideoRecord) =>
+  mutateVideoIndex((records) => {
+    records[record.id] = record;
+  });
+
+export const removeIndexedVideo = (id: string) =>
+  mutateVideoIndex((records) => {
+    delete records[id];
+  });
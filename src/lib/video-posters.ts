@@ -0,0 +1,153 @@
+import { randomBytes } from "node:crypto";
+import { RequestError } from "./errors";
+import { getStorage } from "./storage";
+import type { SessionUser, VideoRecord } from "./types";
+import { getVideoRecord, patchVideoRecord } from "./video-store";
+
+const POSTER_PREFIX = "videos/posters/";
+
+export const MAX_POSTER_SIZE = 5 * 1024 * 1024;
+
+const IMAGE_FORMATS = [
+  {
+    contentType: "image/jpeg",
+    extension: "jpg",
+    matches: (bytes: Uint8Array) =>
+      bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  },
+  {
+    contentType: "image/png",
+    extension: "png",
+    matches: (bytes: Uint8Array) =>
+      bytes[0] === 0x89 &&
+      bytes[1] === 0x50 &&
+      bytes[2] === 0x4e &&
+      bytes[3] === 0x47,
+  },
+  {
+    contentType: "image/webp",
+    extension: "webp",
+    matches: (bytes: Uint8Array) =>
+      new TextDecoder().decode(bytes.subarray(0, 4)) === "RIFF" &&
+      new TextDecoder().decode(bytes.subarray(8, 12)) === "WEBP",
+  },
+];
+
+const parseTime = (time: unknown) => {
+  if (time === undefined || time === null || time === "") return null;
+  const value = Number(time);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new RequestError("time must be a non-negative number of seconds.", 400, {
+      code: "invalid_time",
+      field: "time",
+    });
+  }
+  return value;
+};
+
+export const assertPosterSize = (size: number) => {
+  if (size > MAX_POSTER_SIZE) {
+    throw new RequestError("Posters can be at most 5 MB.", 413, {
+      code: "poster_too_large",
+    });
+  }
+};
+
+export const readPosterBody = async (
+  body: ReadableStream<Uint8Array> | null
+): Promise<Uint8Array> => {
+  if (!body) return new Uint8Array();
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_POSTER_SIZE) {
+      await reader.cancel();
+      assertPosterSize(size);
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+};
+
+export const storeVideoPoster = async (
+  id: string,
+  bytes: Uint8Array,
+  timeSeconds: number | null,
+  { onlyIfMissing = false }: { onlyIfMissing?: boolean } = {}
+): Promise<VideoRecord> => {
+  assertPosterSize(bytes.byteLength);
+  const format = IMAGE_FORMATS.find((candidate) => candidate.matches(bytes));
+  if (!format) {
+    throw new RequestError("Posters must be JPEG, PNG, or WebP images.", 415, {
+      code: "unsupported_image",
+    });
+  }
+
+  const storage = getStorage();
+  const storagePath = `${POSTER_PREFIX}${id}-${randomBytes(6).toString(
+    "hex"
+  )}.${format.extension}`;
+  await storage.put(storagePath, bytes, { contentType: format.contentType });
+
+  let replaced: string | null = null;
+  const updated = await patchVideoRecord(id, (record) => {
+    if (onlyIfMissing && record.poster) {
+      replaced = storagePath;
+      return record;
+    }
+    replaced = record.poster?.storagePath ?? null;
+    return {
+      ...record,
+      poster: {
+        storagePath,
+        contentType: format.contentType,
+        size: bytes.byteLength,
+        timeSeconds,
+        updatedAt: new Date().toISOString(),
+      },
+    };
+  }).catch(async (error) => {
+    await storage.del([storagePath]);
+    throw error;
+  });
+  if (replaced) {
+    await storage.del([replaced]);
+  }
+  return updated;
+};
+
+export const uploadVideoPoster = async (
+  id: string,
+  bytes: Uint8Array,
+  time: unknown,
+  user: SessionUser
+): Promise<VideoRecord> => {
+  await getVideoRecord(id, user);
+  return storeVideoPoster(id, bytes, parseTime(time));
+};
+
+export const removeVideoPoster = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoRecord> => {
+  await getVideoRecord(id, user);
+  let removed: string | null = null;
+  const updated = await patchVideoRecord(id, ({ poster, ...record }) => {
+    removed = poster?.storagePath ?? null;
+    return record;
+  });
+  if (removed) {
+    await getStorage().del([removed]);
+  }
+  return updated;
+};
@@ -0,0 +1,265 @@
+import { RequestError } from "./errors";
+import { isFfmpegAvailable } from "./ffmpeg";
+import {
+  cancelJob,
+  enqueueJob,
+  getJob,
+  isJobFinished,
+  listJobs,
+  startJobWorker,
+  type JobHandler,
+} from "./job-queue";
+import { isAutoTranscodeEnabled, transcodeVideo } from "./transcode";
+import type {
+  JobFilters,
+  JobRecord,
+  JobStatus,
+  JobType,
+  ProcessingStep,
+  SessionUser,
+  VideoProcessing,
+  VideoRecord,
+} from "./types";
+import { canManage } from "./users";
+import {
+  getVideoRecord,
+  patchVideoRecord,
+  probeVideoRecord,
+  readVideoRecord,
+  setVideoRenditions,
+} from "./video-store";
+import { generateThumbnails } from "./video-thumbnails";
+
+const JOB_TYPES: JobType[] = ["probe", "thumbnails", "transcode"];
+const JOB_STATUSES: JobStatus[] = [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+];
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  probe: async ({ job }) => {
+    await probeVideoRecord(job.videoId);
+  },
+  thumbnails: ({ job, signal, reportProgress }) =>
+    generateThumbnails(job.videoId, { signal, reportProgress }),
+  transcode: ({ job, signal, reportProgress }) =>
+    transcodeVideo(job.videoId, { signal, reportProgress }),
+};
+
+const toStep = (job: JobRecord): ProcessingStep => ({
+  jobId: job.id,
+  type: job.type,
+  status: job.status,
+  attempts: job.attempts,
+  progress: job.progress,
+  error: job.error,
+});
+
+const summarizeSteps = (steps: ProcessingStep[]): JobStatus => {
+  const statuses = steps.map((step) => step.status);
+  if (statuses.includes("running")) return "running";
+  if (statuses.includes("queued")) return "queued";
+  if (statuses.includes("failed")) return "failed";
+  if (statuses.includes("cancelled")) return "cancelled";
+  return "succeeded";
+};
+
+const mergeStep = (
+  processing: VideoProcessing | undefined,
+  job: JobRecord
+): VideoProcessing | undefined => {
+  const steps = processing?.steps ?? [];
+  const existing = steps.find((step) => step.type === job.type);
+  if (existing && existing.jobId !== job.id && job.attempts > 0) {
+    return processing;
+  }
+  const nextSteps = [
+    ...steps.filter((step) => step.type !== job.type),
+    toStep(job),
+  ].sort((a, b) => JOB_TYPES.indexOf(a.type) - JOB_TYPES.indexOf(b.type));
+  return {
+    status: summarizeSteps(nextSteps),
+    steps: nextSteps,
+    updatedAt: job.updatedAt,
+  };
+};
+
+const syncVideoProcessing = async (job: JobRecord) => {
+  await patchVideoRecord(job.videoId, (record) => ({
+    ...record,
+    processing: mergeStep(record.processing, job),
+  })).catch((error) => {
+    if (!(error instanceof RequestError && error.status === 404)) throw error;
+  });
+};
+
+export const startVideoProcessing = () =>
+  startJobWorker({ handlers: JOB_HANDLERS, onChange: syncVideoProcessing });
+
+const queueTranscode = async (
+  video: Pick<VideoRecord, "id" | "ownerId">,
+  dependsOn: string | null = null
+) => {
+  await setVideoRenditions(video.id, {
+    status: "pending",
+    variants: [],
+    updatedAt: new Date().toISOString(),
+  });
+  return enqueueJob({
+    type: "transcode",
+    videoId: video.id,
+    ownerId: video.ownerId,
+    dependsOn,
+  });
+};
+
+export const enqueueVideoProcessing = async (
+  video: VideoRecord
+): Promise<VideoRecord> => {
+  startVideoProcessing();
+  const probe = await enqueueJob({
+    type: "probe",
+    videoId: video.id,
+    ownerId: video.ownerId,
+  });
+  if (await isFfmpegAvailable()) {
+    await enqueueJob({
+      type: "thumbnails",
+      videoId: video.id,
+      ownerId: video.ownerId,
+      dependsOn: probe.id,
+    });
+    if (isAutoTranscodeEnabled()) {
+      await queueTranscode(video, probe.id);
+    }
+  }
+  return { ...video, ...(await readVideoRecord(video.id)) };
+};
+
+const assertCanProcess = async (
+  id: string,
+  type: JobType,
+  {
+    unavailable,
+    unavailableCode,
+    inProgress,
+  }: { unavailable: string; unavailableCode: string; inProgress: string }
+) => {
+  if (!(await isFfmpegAvailable())) {
+    throw new RequestError(
+      `${unavailable} is unavailable because ffmpeg could not be found.`,
+      503,
+      { code: unavailableCode }
+    );
+  }
+  const active = await listJobs(
+    (job) => job.videoId === id && job.type === type && !isJobFinished(job)
+  );
+  if (active.length > 0) {
+    throw new RequestError(inProgress, 409, {
+      code: `${type}_in_progress`,
+      jobId: active[0].id,
+    });
+  }
+};
+
+export const requestTranscode = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoRecord> => {
+  const video = await getVideoRecord(id, user);
+  await assertCanProcess(id, "transcode", {
+    unavailable: "Transcoding",
+    unavailableCode: "transcoding_unavailable",
+    inProgress: "This video is already being transcoded.",
+  });
+
+  startVideoProcessing();
+  await queueTranscode(video);
+  return readVideoRecord(id);
+};
+
+export const requestThumbnails = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoRecord> => {
+  const video = await getVideoRecord(id, user);
+  await assertCanProcess(id, "thumbnails", {
+    unavailable: "Thumbnail generation",
+    unavailableCode: "thumbnails_unavailable",
+    inProgress: "Thumbnails for this video are already being generated.",
+  });
+
+  startVideoProcessing();
+  await enqueueJob({
+    type: "thumbnails",
+    videoId: video.id,
+    ownerId: video.ownerId,
+  });
+  return readVideoRecord(id);
+};
+
+export const parseJobFilters = (searchParams: URLSearchParams): JobFilters => {
+  const status = searchParams
+    .getAll("status")
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  const invalidStatus = status.find(
+    (value) => !JOB_STATUSES.includes(value as JobStatus)
+  );
+  if (invalidStatus) {
+    throw new RequestError(
+      `Status must be one of ${JOB_STATUSES.join(", ")}.`,
+      400,
+      { code: "invalid_status", field: "status" }
+    );
+  }
+  const type = searchParams.get("type");
+  const videoId = searchParams.get("videoId");
+  if (type && !JOB_TYPES.includes(type as JobType)) {
+    throw new RequestError(`Type must be one of ${JOB_TYPES.join(", ")}.`, 400, {
+      code: "invalid_type",
+      field: "type",
+    });
+  }
+  return {
+    ...(status.length > 0 ? { status: status as JobStatus[] } : {}),
+    ...(type ? { type: type as JobType } : {}),
+    ...(videoId ? { videoId } : {}),
+  };
+};
+
+export const listVideoJobs = (
+  filters: JobFilters,
+  user: SessionUser
+): Promise<JobRecord[]> =>
+  listJobs(
+    (job) =>
+      canManage(user, job.ownerId) &&
+      (!filters.status || filters.status.includes(job.status)) &&
+      (!filters.type || job.type === filters.type) &&
+      (!filters.videoId || job.videoId === filters.videoId)
+  );
+
+export const getVideoJob = async (
+  id: string,
+  user: SessionUser
+): Promise<JobRecord> => {
+  const job = await getJob(id);
+  if (!canManage(user, job.ownerId)) {
+    throw new RequestError("Job not found.", 404);
+  }
+  return job;
+};
+
+export const cancelVideoJob = async (
+  id: string,
+  user: SessionUser
+): Promise<JobRecord> => {
+  await getVideoJob(id, user);
+  return cancelJob(id);
+};
@@ -0,0 +1,280 @@
+import { RequestError } from "./errors";
+import { parseByteSize } from "./upload-policy";
+import type {
+  SessionUser,
+  VideoPage,
+  VideoQuery,
+  VideoRecord,
+  VideoSortField,
+} from "./types";
+import { loadCaptionTexts } from "./video-captions";
+import { getCollection } from "./video-collections";
+import { highlightVideo, parseSearchQuery, scoreVideo } from "./video-search";
+import { listVideoRecords } from "./video-store";
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+
+const SORT_FIELDS: VideoSortField[] = [
+  "createdAt",
+  "updatedAt",
+  "title",
+  "size",
+  "duration",
+  "resolution",
+  "relevance",
+  "position",
+];
+
+type CursorPayload = {
+  sort: VideoSortField;
+  order: VideoQuery["order"];
+  value: string | number;
+  id: string;
+};
+
+const invalid = (message: string, field: string) =>
+  new RequestError(message, 400, { code: "invalid_query", field });
+
+const sortValue = (
+  record: VideoRecord,
+  sort: VideoSortField,
+  ranks?: Map<string, number>
+): string | number => {
+  switch (sort) {
+    case "relevance":
+    case "position":
+      return ranks?.get(record.id) ?? 0;
+    case "title":
+      return record.title.toLowerCase();
+    case "size":
+      return record.size;
+    case "duration":
+      return record.media?.durationSeconds ?? -1;
+    case "resolution":
+      return (record.media?.width ?? 0) * (record.media?.height ?? 0);
+    default:
+      return new Date(record[sort]).getTime();
+  }
+};
+
+const compareKeys = (
+  a: { value: string | number; id: string },
+  b: { value: string | number; id: string }
+) => {
+  if (a.value < b.value) return -1;
+  if (a.value > b.value) return 1;
+  return a.id.localeCompare(b.id);
+};
+
+const encodeCursor = (payload: CursorPayload) =>
+  Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+const invalidCursor = (message: string) =>
+  new RequestError(message, 400, { code: "invalid_cursor", field: "cursor" });
+
+const parseCursorJson = (cursor: string): unknown => {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw invalidCursor("The cursor is malformed.");
+  }
+};
+
+const decodeCursor = (cursor: string, query: VideoQuery): CursorPayload => {
+  const payload = parseCursorJson(cursor);
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw invalidCursor("The cursor is malformed.");
+  }
+  const { sort, order, value, id } = payload as Record<string, unknown>;
+  if (sort !== query.sort || order !== query.order) {
+    throw invalidCursor("The cursor does not match the requested sort.");
+  }
+  const validValue =
+    query.sort === "title"
+      ? typeof value === "string"
+      : typeof value === "number" && Number.isFinite(value);
+  if (!validValue || typeof id !== "string" || !id) {
+    throw invalidCursor("The cursor is malformed.");
+  }
+  return {
+    sort: query.sort,
+    order: query.order,
+    value: value as string | number,
+    id,
+  };
+};
+
+const parseDate = (value: string | null, field: string) => {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw invalid(`${field} must be an ISO date.`, field);
+  }
+  return new Date(time).toISOString();
+};
+
+const parseSize = (value: string | null, field: string) => {
+  if (!value) return undefined;
+  const bytes = parseByteSize(value);
+  if (bytes === null) {
+    throw invalid(`${field} must be a byte size such as 500mb.`, field);
+  }
+  return bytes;
+};
+
+export const parseVideoQuery = (params: URLSearchParams): VideoQuery => {
+  const limit = Number(params.get("limit") ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw invalid(`limit must be between 1 and ${MAX_LIMIT}.`, "limit");
+  }
+  const q = params.get("q")?.trim() || undefined;
+  const collectionId = params.get("collection") || undefined;
+  const defaultSort = q ? "relevance" : collectionId ? "position" : "updatedAt";
+  const sort = (params.get("sort") ?? defaultSort) as VideoSortField;
+  if (!SORT_FIELDS.includes(sort)) {
+    throw invalid(`sort must be one of ${SORT_FIELDS.join(", ")}.`, "sort");
+  }
+  if (sort === "position" && !collectionId) {
+    throw invalid("sort=position requires a collection.", "sort");
+  }
+  const order =
+    params.get("order") ??
+    (sort === "title" || sort === "position" ? "asc" : "desc");
+  if (order !== "asc" && order !== "desc") {
+    throw invalid("order must be asc or desc.", "order");
+  }
+
+  return {
+    q,
+    ownerId: params.get("owner") || undefined,
+    collectionId,
+    limit,
+    cursor: params.get("cursor") || undefined,
+    sort,
+    order,
+    tags: params.getAll("tag").map((tag) => tag.trim()).filter(Boolean),
+    contentType: params.get("contentType") || undefined,
+    minSize: parseSize(params.get("minSize"), "minSize"),
+    maxSize: parseSize(params.get("maxSize"), "maxSize"),
+    createdAfter: parseDate(params.get("createdAfter"), "createdAfter"),
+    createdBefore: parseDate(params.get("createdBefore"), "createdBefore"),
+    updatedAfter: parseDate(params.get("updatedAfter"), "updatedAfter"),
+    updatedBefore: parseDate(params.get("updatedBefore"), "updatedBefore"),
+  };
+};
+
+export const matchesVideoFilters = (record: VideoRecord, query: VideoQuery) => {
+  const tags = record.tags.map((tag) => tag.toLowerCase());
+  return (
+    (!query.ownerId || record.ownerId === query.ownerId) &&
+    query.tags.every((tag) => tags.includes(tag.toLowerCase())) &&
+    (!query.contentType || record.contentType === query.contentType) &&
+    (query.minSize === undefined || record.size >= query.minSize) &&
+    (query.maxSize === undefined || record.size <= query.maxSize) &&
+    (!query.createdAfter || record.createdAt >= query.createdAfter) &&
+    (!query.createdBefore || record.createdAt <= query.createdBefore) &&
+    (!query.updatedAfter || record.updatedAt >= query.updatedAfter) &&
+    (!query.updatedBefore || record.updatedAt <= query.updatedBefore)
+  );
+};
+
+export const paginateVideos = (
+  records: VideoRecord[],
+  query: VideoQuery,
+  ranks?: Map<string, number>
+): VideoPage => {
+  const direction = query.order === "asc" ? 1 : -1;
+  const keyed = records
+    .map((record) => ({
+      record,
+      key: { value: sortValue(record, query.sort, ranks), id: record.id },
+    }))
+    .sort((a, b) => compareKeys(a.key, b.key) * direction);
+
+  let start = 0;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, query);
+    start = keyed.findIndex(
+      ({ key }) => compareKeys(key, cursor) * direction > 0
+    );
+    if (start === -1) start = keyed.length;
+  }
+
+  const page = keyed.slice(start, start + query.limit);
+  const last = page.at(-1);
+  return {
+    items: page.map(({ record }) => record),
+    nextCursor:
+      last && start + query.limit < keyed.length
+        ? encodeCursor({
+            sort: query.sort,
+            order: query.order,
+            value: last.key.value,
+            id: last.key.id,
+          })
+        : null,
+    total: records.length,
+    totalSize: records.reduce((sum, record) => sum + record.size, 0),
+  };
+};
+
+const filterVideoRecords = async (query: VideoQuery, user: SessionUser) => {
+  const search = query.q ? parseSearchQuery(query.q) : null;
+  const scores = new Map<string, number>();
+  const positions = query.collectionId
+    ? new Map(
+        (await getCollection(query.collectionId, user)).videoIds.map(
+          (id, index) => [id, index]
+        )
+      )
+    : null;
+  const candidates = (await listVideoRecords(user)).filter(
+    (record) =>
+      (!positions || positions.has(record.id)) &&
+      matchesVideoFilters(record, query)
+  );
+  const captionTexts = search?.hasText
+    ? await loadCaptionTexts(candidates)
+    : new Map<string, string[]>();
+  const records = candidates.filter((record) => {
+    if (!search) return true;
+    const score = scoreVideo(record, search, captionTexts.get(record.id));
+    if (score === null) return false;
+    scores.set(record.id, score);
+    return true;
+  });
+  return {
+    records,
+    ranks: query.sort === "position" ? (positions ?? undefined) : scores,
+    search,
+    captionTexts,
+  };
+};
+
+export const selectVideoIds = async (
+  query: VideoQuery,
+  user: SessionUser
+): Promise<string[]> =>
+  (await filterVideoRecords(query, user)).records.map((record) => record.id);
+
+export const queryVideoRecords = async (
+  query: VideoQuery,
+  user: SessionUser
+): Promise<VideoPage> => {
+  const { records, ranks, search, captionTexts } = await filterVideoRecords(
+    query,
+    user
+  );
+  const page = paginateVideos(records, query, ranks);
+  if (!search?.hasText) return page;
+  return {
+    ...page,
+    highlights: Object.fromEntries(
+      page.items.map((record) => [
+        record.id,
+        highlightVideo(record, search, captionTexts.get(record.id)),
+      ])
+    ),
+  };
+};
@@ -0,0 +1,98 @@
+import { getStorage, readStorageJson, writeStorageJson } from "./storage";
+import type {
+  PersistedVideoRecord,
+  RevisionField,
+  SessionUser,
+  VideoMetadataSnapshot,
+  VideoRevision,
+} from "./types";
+import { getRecordVersion } from "./video-version";
+
+const VIDEO_REVISION_PREFIX = "videos/meta/";
+const MAX_REVISIONS_PER_VIDEO = 100;
+
+export const REVISION_FIELDS: RevisionField[] = [
+  "title",
+  "description",
+  "tags",
+  "visibility",
+];
+
+const revisionPrefix = (videoId: string) =>
+  `${VIDEO_REVISION_PREFIX}${videoId}/revisions/`;
+const revisionPath = (videoId: string, version: number) =>
+  `${revisionPrefix(videoId)}${`${version}`.padStart(10, "0")}.json`;
+
+export const toMetadataSnapshot = (
+  record: VideoMetadataSnapshot
+): VideoMetadataSnapshot => ({
+  title: record.title,
+  description: record.description,
+  tags: [...record.tags],
+  visibility: record.visibility ?? "private",
+});
+
+export const diffSnapshots = (
+  before: VideoMetadataSnapshot,
+  after: VideoMetadataSnapshot
+) =>
+  REVISION_FIELDS.filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+
+const pruneRevisions = async (videoId: string) => {
+  const storage = getStorage();
+  const blobs = (await storage.list(revisionPrefix(videoId)))
+    .map((blob) => blob.pathname)
+    .sort();
+  const excess = blobs.length - MAX_REVISIONS_PER_VIDEO;
+  if (excess > 0) await storage.del(blobs.slice(0, excess));
+};
+
+export const storeVideoRevision = async (
+  before: PersistedVideoRecord,
+  after: PersistedVideoRecord,
+  actor: SessionUser,
+  restoredFrom: number | null = null
+): Promise<VideoRevision | null> => {
+  const previous = toMetadataSnapshot(before);
+  const next = toMetadataSnapshot(after);
+  const fields = diffSnapshots(previous, next);
+  if (fields.length === 0) return null;
+
+  const revision: VideoRevision = {
+    videoId: after.id,
+    version: getRecordVersion(after),
+    actorId: actor.id,
+    actorName: actor.username,
+    fields,
+    before: previous,
+    after: next,
+    restoredFrom,
+    createdAt: after.updatedAt,
+  };
+  await writeStorageJson(revisionPath(after.id, revision.version), revision);
+  await pruneRevisions(after.id);
+  return revision;
+};
+
+export const readVideoRevisions = async (
+  videoId: string
+): Promise<VideoRevision[]> => {
+  const blobs = await getStorage().list(revisionPrefix(videoId));
+  const revisions = await Promise.all(
+    blobs.map((blob) => readStorageJson<VideoRevision>(blob.pathname))
+  );
+  return revisions
+    .filter((revision): revision is VideoRevision => Boolean(revision))
+    .sort((a, b) => b.version - a.version);
+};
+
+export const readVideoRevision = (videoId: string, version: number) =>
+  readStorageJson<VideoRevision>(revisionPath(videoId, version));
+
+export const deleteRevisionFiles = async (videoId: string) => {
+  const storage = getStorage();
+  const blobs = await storage.list(revisionPrefix(videoId));
+  await storage.del(blobs.map((blob) => blob.pathname));
+};
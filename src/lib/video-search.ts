@@ -0,0 +1,434 @@
+import { RequestError } from "./errors";
+import { parseByteSize } from "./upload-policy";
+import type { SearchHighlight, VideoRecord } from "./types";
+
+type Comparison = ">" | ">=" | "<" | "<=" | ":";
+
+type SearchClause = { negate: boolean; position: number } & (
+  | { kind: "term"; value: string }
+  | { kind: "phrase"; tokens: string[] }
+  | { kind: "tag" | "type" | "codec"; value: string }
+  | { kind: "size" | "duration"; op: Comparison; value: number }
+  | { kind: "created" | "updated"; from?: number; to?: number }
+);
+
+export type SearchQuery = {
+  clauses: SearchClause[];
+  hasText: boolean;
+};
+
+type SearchField = {
+  field: SearchHighlight["field"];
+  text: string;
+  weight: number;
+};
+
+type WordSpan = {
+  word: string;
+  start: number;
+  end: number;
+};
+
+const QUALIFIERS = new Set([
+  "tag",
+  "type",
+  "codec",
+  "size",
+  "duration",
+  "created",
+  "updated",
+]);
+
+const SNIPPET_LENGTH = 160;
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+
+const wordSpans = (text: string): WordSpan[] =>
+  [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    word: normalize(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+export const tokenize = (text: string) => wordSpans(text).map(({ word }) => word);
+
+const syntaxError = (message: string, position: number) =>
+  new RequestError(`${message} (at character ${position + 1})`, 400, {
+    code: "invalid_search",
+    field: "q",
+    position,
+  });
+
+const parseDuration = (value: string) => {
+  const clock = value.match(/^(?:(\d+):)?(\d+):(\d{1,2})$/);
+  if (clock) {
+    return (
+      Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+    );
+  }
+  const match = value.match(/^(\d+(?:\.\d+)?)(h|m|s)?$/);
+  if (!match) return null;
+  const factor = match[2] === "h" ? 3600 : match[2] === "m" ? 60 : 1;
+  return Number(match[1]) * factor;
+};
+
+const parsePeriod = (value: string) => {
+  const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (match) {
+    const [year, month, day] = [Number(match[1]), match[2], match[3]];
+    if (
+      (month && (Number(month) < 1 || Number(month) > 12)) ||
+      (day && (Number(day) < 1 || Number(day) > 31))
+    ) {
+      return null;
+    }
+    const start = Date.UTC(year, month ? Number(month) - 1 : 0, day ? Number(day) : 1);
+    const end = day
+      ? Date.UTC(year, Number(month) - 1, Number(day) + 1)
+      : month
+        ? Date.UTC(year, Number(month), 1)
+        : Date.UTC(year + 1, 0, 1);
+    return { start, end };
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : { start: time, end: time + 1 };
+};
+
+const parseDateClause = (
+  op: Comparison,
+  value: string,
+  position: number
+): { from?: number; to?: number } => {
+  if (op === ":" && value.includes("..")) {
+    const [fromText, toText] = value.split("..");
+    const from = fromText ? parsePeriod(fromText) : null;
+    const to = toText ? parsePeriod(toText) : null;
+    if ((fromText && !from) || (toText && !to) || (!fromText && !toText)) {
+      throw syntaxError(`Invalid date range "${value}"`, position);
+    }
+    return { from: from?.start, to: to?.end };
+  }
+  const period = parsePeriod(value);
+  if (!period) {
+    throw syntaxError(`Invalid date "${value}"`, position);
+  }
+  switch (op) {
+    case ">":
+      return { from: period.end };
+    case ">=":
+      return { from: period.start };
+    case "<":
+      return { to: period.start };
+    case "<=":
+      return { to: period.end };
+    default:
+      return { from: period.start, to: period.end };
+  }
+};
+
+const readQuoted = (input: string, start: number) => {
+  const end = input.indexOf('"', start + 1);
+  if (end === -1) {
+    throw syntaxError("Unterminated quote", start);
+  }
+  return { text: input.slice(start + 1, end), next: end + 1 };
+};
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const clauses: SearchClause[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index += 1;
+      continue;
+    }
+
+    const position = index;
+    const negate = input[index] === "-";
+    if (negate) index += 1;
+    if (index >= input.length || /\s/.test(input[index])) {
+      throw syntaxError("Expected a term after \"-\"", position);
+    }
+
+    if (input[index] === '"') {
+      const { text, next } = readQuoted(input, index);
+      const tokens = tokenize(text);
+      if (tokens.length === 0) {
+        throw syntaxError("Empty phrase", position);
+      }
+      clauses.push({ kind: "phrase", tokens, negate, position });
+      index = next;
+      continue;
+    }
+
+    const word = input.slice(index).match(/^[^\s"]+/)?.[0] ?? "";
+    const qualifier = word.match(/^([a-z]+)(>=|<=|>|<|:)/i);
+    if (!qualifier) {
+      const tokens = tokenize(word);
+      if (tokens.length === 1) {
+        clauses.push({ kind: "term", value: tokens[0], negate, position });
+      } else if (tokens.length > 1) {
+        clauses.push({ kind: "phrase", tokens, negate, position });
+      }
+      index += word.length;
+      continue;
+    }
+
+    const key = qualifier[1].toLowerCase();
+    const op = qualifier[2] as Comparison;
+    if (!QUALIFIERS.has(key)) {
+      throw syntaxError(
+        `Unknown filter "${qualifier[1]}". Use tag, type, codec, size, duration, created, or updated`,
+        position
+      );
+    }
+    index += qualifier[0].length;
+    let value: string;
+    if (input[index] === '"') {
+      const quoted = readQuoted(input, index);
+      value = quoted.text;
+      index = quoted.next;
+    } else {
+      value = input.slice(index).match(/^[^\s"]*/)?.[0] ?? "";
+      index += value.length;
+    }
+    if (!value) {
+      throw syntaxError(`Missing value for "${key}"`, position);
+    }
+
+    if (key === "tag" || key === "type" || key === "codec") {
+      if (op !== ":") {
+        throw syntaxError(`"${key}" only supports ":"`, position);
+      }
+      clauses.push({ kind: key, value: normalize(value), negate, position });
+    } else if (key === "size" || key === "duration") {
+      const amount =
+        key === "size" ? parseByteSize(value) : parseDuration(value.toLowerCase());
+      if (amount === null) {
+        throw syntaxError(
+          key === "size"
+            ? `Invalid size "${value}". Use a value such as 100mb`
+            : `Invalid duration "${value}". Use a value such as 90s, 5m, or 1:30`,
+          position
+        );
+      }
+      clauses.push({ kind: key, op, value: amount, negate, position });
+    } else {
+      clauses.push({
+        kind: key as "created" | "updated",
+        ...parseDateClause(op, value, position),
+        negate,
+        position,
+      });
+    }
+  }
+
+  return {
+    clauses,
+    hasText: clauses.some(
+      (clause) =>
+        !clause.negate && (clause.kind === "term" || clause.kind === "phrase")
+    ),
+  };
+};
+
+export const searchableFields = (
+  record: VideoRecord,
+  captionTexts: string[] = []
+): SearchField[] => [
+  { field: "title", text: record.title, weight: 3 },
+  ...record.tags.map((tag) => ({ field: "tags" as const, text: tag, weight: 2 })),
+  { field: "description", text: record.description, weight: 1 },
+  ...captionTexts.map((text) => ({
+    field: "captions" as const,
+    text,
+    weight: 1,
+  })),
+];
+
+const compare = (actual: number, op: Comparison, expected: number) => {
+  switch (op) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+const phraseMatches = (words: string[], tokens: string[]) => {
+  const matches: number[] = [];
+  for (let start = 0; start + tokens.length <= words.length; start += 1) {
+    if (tokens.every((token, offset) => words[start + offset] === token)) {
+      matches.push(start);
+    }
+  }
+  return matches;
+};
+
+const scoreText = (
+  fields: { field: SearchField; words: string[] }[],
+  clause: Extract<SearchClause, { kind: "term" | "phrase" }>
+) =>
+  fields.reduce((score, { field, words }) => {
+    if (clause.kind === "phrase") {
+      return score + phraseMatches(words, clause.tokens).length * field.weight * 2;
+    }
+    return (
+      score +
+      words.reduce(
+        (sum, word) =>
+          word === clause.value
+            ? sum + field.weight
+            : word.startsWith(clause.value)
+              ? sum + field.weight / 2
+              : sum,
+        0
+      )
+    );
+  }, 0);
+
+const matchesClause = (
+  record: VideoRecord,
+  clause: Exclude<SearchClause, { kind: "term" | "phrase" }>
+) => {
+  switch (clause.kind) {
+    case "tag":
+      return record.tags.some((tag) => normalize(tag) === clause.value);
+    case "type":
+      return (
+        normalize(record.contentType) === clause.value ||
+        record.media?.container === clause.value ||
+        normalize(record.contentType).endsWith(`/${clause.value}`)
+      );
+    case "codec":
+      return (
+        record.media?.videoCodec === clause.value ||
+        record.media?.audioCodec === clause.value
+      );
+    case "size":
+      return compare(record.size, clause.op, clause.value);
+    case "duration":
+      return (
+        record.media?.durationSeconds !== undefined &&
+        compare(record.media.durationSeconds, clause.op, clause.value)
+      );
+    default: {
+      const time = new Date(
+        clause.kind === "created" ? record.createdAt : record.updatedAt
+      ).getTime();
+      return (
+        (clause.from === undefined || time >= clause.from) &&
+        (clause.to === undefined || time < clause.to)
+      );
+    }
+  }
+};
+
+export const scoreVideo = (
+  record: VideoRecord,
+  search: SearchQuery,
+  captionTexts: string[] = []
+): number | null => {
+  const fields = searchableFields(record, captionTexts).map((field) => ({
+    field,
+    words: tokenize(field.text),
+  }));
+  let score = 0;
+
+  for (const clause of search.clauses) {
+    if (clause.kind === "term" || clause.kind === "phrase") {
+      const clauseScore = scoreText(fields, clause);
+      if (clause.negate ? clauseScore > 0 : clauseScore === 0) return null;
+      score += clauseScore;
+    } else if (matchesClause(record, clause) === clause.negate) {
+      return null;
+    }
+  }
+
+  return score;
+};
+
+const highlightRanges = (text: string, search: SearchQuery) => {
+  const spans = wordSpans(text);
+  const words = spans.map(({ word }) => word);
+  const ranges: [number, number][] = [];
+  for (const clause of search.clauses) {
+    if (clause.negate) continue;
+    if (clause.kind === "term") {
+      for (const span of spans) {
+        if (span.word.startsWith(clause.value)) {
+          ranges.push([span.start, span.end]);
+        }
+      }
+    } else if (clause.kind === "phrase") {
+      for (const start of phraseMatches(words, clause.tokens)) {
+        ranges.push([
+          spans[start].start,
+          spans[start + clause.tokens.length - 1].end,
+        ]);
+      }
+    }
+  }
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged.at(-1);
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
+
+const toSnippet = (text: string, ranges: [number, number][]) => {
+  if (text.length <= SNIPPET_LENGTH) return { text, ranges };
+  const start = Math.max(
+    0,
+    Math.min(ranges[0][0] - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH)
+  );
+  const offset = Math.floor(start);
+  const prefix = offset > 0 ? "…" : "";
+  const suffix = offset + SNIPPET_LENGTH < text.length ? "…" : "";
+  return {
+    text: `${prefix}${text.slice(offset, offset + SNIPPET_LENGTH)}${suffix}`,
+    ranges: ranges
+      .filter(([from]) => from >= offset && from < offset + SNIPPET_LENGTH)
+      .map(([from, to]): [number, number] => [
+        from - offset + prefix.length,
+        Math.min(to, offset + SNIPPET_LENGTH) - offset + prefix.length,
+      ]),
+  };
+};
+
+export const highlightVideo = (
+  record: VideoRecord,
+  search: SearchQuery,
+  captionTexts: string[] = []
+): SearchHighlight[] => {
+  if (!search.hasText) return [];
+  return searchableFields(record, captionTexts).flatMap(({ field, text }) => {
+    const ranges = highlightRanges(text, search);
+    if (ranges.length === 0) return [];
+    return [
+      {
+        field,
+        ...(field === "description" || field === "captions"
+          ? toSnippet(text, ranges)
+          : { text, ranges }),
+      },
+    ];
+  });
+};
@@ -1,17 +1,65 @@
-import { del, list, put } from "@vercel/blob";
+import { randomBytes } from "node:crypto";
+import { removeVideoCaptionTexts } from "./caption-index";
+import { removeVideoFromCollections } from "./collection-store";
+import { RequestError } from "./errors";
+import { matchesEtag } from "./http-range";
+import { cancelJobsForVideo } from "./job-queue";
+import { CONTAINER_CONTENT_TYPES, probeStoredMedia } from "./media-probe";
+import {
+  getStorage,
+  readStorageJson,
+  writeStorageJson,
+  type StorageBody,
+} from "./storage";
+import { deleteShareLinks } from "./share-links";
+import {
+  MAX_TAGS_PER_VIDEO,
+  dedupeTags,
+  invalidTag,
+  isValidTag,
+  normalizeTag,
+  toTagMatchKey,
+} from "./tag-policy";
+import {
+  SNIFF_BYTES,
+  assertContainerAllowed,
+  assertMetadataAllowed,
+  assertSizeAllowed,
+  getUploadPolicy,
+} from "./upload-policy";
 import type {
   PersistedVideoRecord,
+  SessionUser,
   UpdateVideoPayload,
+  VideoComment,
   VideoRecord,
+  VideoRenditions,
+  VideoRevision,
+  VideoVisibility,
 } from "./types";
+import { canManage } from "./users";
+import {
+  readVideoIndex,
+  removeIndexedVideo,
+  upsertIndexedVideo,
+  writeVideoIndex,
+} from "./video-index";
+import {
+  deleteRevisionFiles,
+  readVideoRevision,
+  readVideoRevisions,
+  storeVideoRevision,
+  toMetadataSnapshot,
+} from "./video-revisions";
+import { getRecordVersion, toVersionEtag } from "./video-version";
+import { notifyWebhooks } from "./webhooks";
 
 const VIDEO_FILE_PREFIX = "videos/files/";
 const VIDEO_METADATA_PREFIX = "videos/meta/";
-
-const getBlobAuth = () =>
-  process.env.BLOB_READ_WRITE_TOKEN
-    ? { token: process.env.BLOB_READ_WRITE_TOKEN }
-    : {};
+const VIDEO_HLS_PREFIX = "videos/hls/";
+const VIDEO_THUMBNAIL_PREFIX = "videos/thumbnails/";
+const INDEX_REBUILD_CONCURRENCY = 8;
+const VISIBILITIES: VideoVisibility[] = ["private", "unlisted", "public"];
 
 const sanitizeFileName = (fileName: string) =>
   fileName
@@ -19,131 +67,356 @@ const sanitizeFileName = (fileName: string) =>
     .replace(/\s+/g, "-")
     .replace(/[^a-z0-9.\-]/g, "");
 
-const ensureBlobToken = () => {
-  if (!process.env.BLOB_READ_WRITE_TOKEN && process.env.NODE_ENV !== "production") {
-    throw new Error(
-      "BLOB_READ_WRITE_TOKEN is required when running locally. Generate one with `npx vercel blob token`."
+export const parseTags = (tags: unknown): string[] => {
+  if (!tags) return [];
+  const values = Array.isArray(tags) ? tags : `${tags}`.split(",");
+  const normalized = values
+    .map((tag) => normalizeTag(`${tag}`))
+    .filter((tag) => tag.length > 0);
+  if (!normalized.every(isValidTag)) throw invalidTag("tags");
+  return dedupeTags(normalized).slice(0, MAX_TAGS_PER_VIDEO);
+};
+
+const parseVisibility = (visibility: unknown): VideoVisibility => {
+  if (!VISIBILITIES.includes(visibility as VideoVisibility)) {
+    throw new RequestError(
+      `Visibility must be one of ${VISIBILITIES.join(", ")}.`,
+      400,
+      { code: "invalid_visibility", field: "visibility" }
     );
   }
+  return visibility as VideoVisibility;
 };
 
-const parseTags = (tags: unknown): string[] => {
-  if (!tags) return [];
-  if (Array.isArray(tags)) {
-    return tags
-      .map((tag) => `${tag}`.trim())
-      .filter((tag) => tag.length > 0)
-      .slice(0, 20);
-  }
-  return `${tags}`
-    .split(",")
-    .map((tag) => tag.trim())
-    .filter((tag) => tag.length > 0)
-    .slice(0, 20);
+const probeOrSkip = (storagePath: string, size: number) =>
+  probeStoredMedia(storagePath, size).catch((error) => {
+    console.error(`Failed to probe ${storagePath}`, error);
+    return null;
+  });
+
+let pendingRecordUpdate: Promise<unknown> = Promise.resolve();
+
+const withRecordLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingRecordUpdate.then(task, task);
+  pendingRecordUpdate = run.catch(() => undefined);
+  return run;
 };
 
-type CreateVideoOptions = {
-  file: File;
+const persistVideoRecord = async (
+  record: PersistedVideoRecord
+): Promise<VideoRecord> => {
+  const metadataBlob = await writeStorageJson(record.metadataPath, record);
+  const stored = { ...record, metadataUrl: metadataBlob.url };
+  await upsertIndexedVideo(stored);
+  return stored;
+};
+
+type VideoMetadataInput = {
+  ownerId: string;
   title?: string;
   description?: string;
   tags?: string[] | string;
 };
 
-const fetchJson = async <T>(url: string): Promise<T> => {
-  const response = await fetch(url, { cache: "no-store" });
-  if (!response.ok) {
-    throw new Error(`Failed to fetch blob json (${response.status})`);
+type CreateVideoOptions = VideoMetadataInput & {
+  file: File;
+};
+
+type CreateVideoFromStreamOptions = VideoMetadataInput & {
+  id?: string;
+  body: ReadableStream<Uint8Array>;
+  fileName: string;
+  contentType: string;
+  size: number;
+};
+
+type StoreVideoOptions = VideoMetadataInput & {
+  id: string;
+  body: StorageBody;
+  fileName: string;
+  contentType: string;
+  size: number;
+};
+
+type LookupOptions = {
+  includeTrashed?: boolean;
+};
+
+type LegacyVideoFields = {
+  fileUrl?: string;
+  comments?: VideoComment[];
+};
+
+const withoutLegacyFields = <T extends PersistedVideoRecord>(
+  record: T & LegacyVideoFields
+): T => {
+  const stored = { ...record };
+  delete stored.fileUrl;
+  delete stored.comments;
+  if (stored.captions) {
+    stored.captions = stored.captions.map(
+      ({
+        id,
+        language,
+        label,
+        storagePath,
+        size,
+        cueCount,
+        createdAt,
+        updatedAt,
+      }) => ({
+        id,
+        language,
+        label,
+        storagePath,
+        size,
+        cueCount,
+        createdAt,
+        updatedAt,
+      })
+    );
+  }
+  return stored;
+};
+
+const getMetadataForId = async (
+  id: string,
+  { includeTrashed = false }: LookupOptions = {}
+) => {
+  if (!/^[0-9a-f-]{36}$/i.test(id)) {
+    throw new RequestError("Video not found.", 404);
+  }
+  const record = await readStorageJson<
+    PersistedVideoRecord & LegacyVideoFields
+  >(`${VIDEO_METADATA_PREFIX}${id}.json`);
+  if (!record || (record.deletedAt && !includeTrashed)) {
+    throw new RequestError("Video not found.", 404);
   }
-  return (await response.json()) as T;
+  return { record: withoutLegacyFields(record) };
 };
 
-const getMetadataBlobForId = async (id: string) => {
-  ensureBlobToken();
-  const metadataPath = `${VIDEO_METADATA_PREFIX}${id}.json`;
-  const { blobs } = await list({
-    prefix: metadataPath,
-    ...getBlobAuth(),
+const getOwnedMetadata = async (
+  id: string,
+  user: SessionUser,
+  options: LookupOptions = {}
+) => {
+  const metadata = await getMetadataForId(id, options);
+  if (!canManage(user, metadata.record.ownerId)) {
+    throw new RequestError("Video not found.", 404);
+  }
+  return metadata;
+};
+
+export const getVideoRecord = async (
+  id: string,
+  user: SessionUser,
+  options: LookupOptions = {}
+): Promise<PersistedVideoRecord> =>
+  (await getOwnedMetadata(id, user, options)).record;
+
+export const readVideoRecord = async (
+  id: string
+): Promise<PersistedVideoRecord> => (await getMetadataForId(id)).record;
+
+export const renditionPrefix = (id: string) => `${VIDEO_HLS_PREFIX}${id}/`;
+
+export const patchVideoRecord = (
+  id: string,
+  patch: (record: PersistedVideoRecord) => PersistedVideoRecord,
+  options: LookupOptions = {}
+): Promise<VideoRecord> =>
+  withRecordLock(async () => {
+    await migrateLegacyComments(id);
+    const { record } = await getMetadataForId(id, options);
+    return persistVideoRecord(patch(record));
   });
-  const metadataBlob = blobs.at(0);
-  if (!metadataBlob) {
-    throw new Error("Video not found");
+
+export const setVideoRenditions = (
+  id: string,
+  renditions: VideoRenditions
+): Promise<VideoRecord> =>
+  patchVideoRecord(id, (record) => ({ ...record, renditions }));
+
+export const probeVideoRecord = async (id: string): Promise<VideoRecord> => {
+  const { record } = await getMetadataForId(id);
+  const media = await probeStoredMedia(record.storagePath, record.size);
+  return patchVideoRecord(id, (current) =>
+    media
+      ? {
+          ...current,
+          contentType: CONTAINER_CONTENT_TYPES[media.container],
+          media,
+        }
+      : current
+  );
+};
+
+export const deleteRenditionFiles = async (id: string) => {
+  const storage = getStorage();
+  const blobs = await storage.list(renditionPrefix(id));
+  await storage.del(blobs.map((blob) => blob.pathname));
+};
+
+export const captionPrefix = (id: string) =>
+  `${VIDEO_METADATA_PREFIX}${id}/captions/`;
+
+export const deleteCaptionFiles = async (id: string) => {
+  const storage = getStorage();
+  const blobs = await storage.list(captionPrefix(id));
+  await storage.del(blobs.map((blob) => blob.pathname));
+};
+
+export const commentsPath = (id: string) =>
+  `${VIDEO_METADATA_PREFIX}${id}/comments.json`;
+
+const migrateLegacyComments = async (id: string) => {
+  const path = `${VIDEO_METADATA_PREFIX}${id}.json`;
+  const record = await readStorageJson<
+    PersistedVideoRecord & LegacyVideoFields
+  >(path);
+  if (!record?.comments) return;
+  if (
+    record.comments.length > 0 &&
+    !(await getStorage().head(commentsPath(id)))
+  ) {
+    await writeStorageJson(commentsPath(id), record.comments);
   }
-  const record = await fetchJson<PersistedVideoRecord>(metadataBlob.url);
-  return {
-    record,
-    metadataBlob,
-  };
+  const migrated = { ...record };
+  delete migrated.comments;
+  await writeStorageJson(path, migrated);
 };
 
-export const createVideoRecord = async ({
-  file,
+export const migrateVideoComments = (id: string) =>
+  withRecordLock(() => migrateLegacyComments(id));
+
+export const thumbnailPrefix = (id: string) =>
+  `${VIDEO_THUMBNAIL_PREFIX}${id}/`;
+
+export const deleteThumbnailFiles = async (id: string) => {
+  const storage = getStorage();
+  const blobs = await storage.list(thumbnailPrefix(id));
+  await storage.del(blobs.map((blob) => blob.pathname));
+};
+
+const storeVideoRecord = async ({
+  id,
+  ownerId,
+  body,
+  fileName,
+  contentType,
+  size,
   title,
   description,
   tags,
-}: CreateVideoOptions): Promise<VideoRecord> => {
-  ensureBlobToken();
-  if (!file || file.size === 0) {
-    throw new Error("A non-empty video file is required.");
-  }
-
-  const id = crypto.randomUUID();
-  const cleanedName = sanitizeFileName(file.name) || `${id}.mp4`;
-  const storagePath = `${VIDEO_FILE_PREFIX}${id}-${cleanedName}`;
+}: StoreVideoOptions): Promise<VideoRecord> => {
+  const cleanedName = sanitizeFileName(fileName) || `${id}.mp4`;
+  const storagePath = `${VIDEO_FILE_PREFIX}${id}-${randomBytes(8).toString(
+    "hex"
+  )}-${cleanedName}`;
   const now = new Date().toISOString();
   const normalizedTags = parseTags(tags);
 
-  const fileBlob = await put(storagePath, file, {
-    access: "public",
-    contentType: file.type || "video/mp4",
-    ...getBlobAuth(),
-  });
+  await getStorage().put(storagePath, body, { contentType });
 
   const persistedRecord: PersistedVideoRecord = {
     id,
-    title: title?.trim() || file.name,
+    ownerId,
+    title: title?.trim() || fileName,
     description: description?.trim() || "",
     tags: normalizedTags,
-    fileName: file.name,
-    fileUrl: fileBlob.url,
-    contentType: file.type || "video/mp4",
-    size: file.size,
+    visibility: "private",
+    version: 1,
+    fileName,
+    contentType,
+    size,
     createdAt: now,
     updatedAt: now,
     storagePath,
     metadataPath: `${VIDEO_METADATA_PREFIX}${id}.json`,
   };
 
-  const metadataBlob = await put(
-    persistedRecord.metadataPath,
-    JSON.stringify(persistedRecord),
-    {
-      access: "public",
-      contentType: "application/json",
-      ...getBlobAuth(),
-    }
+  const stored = await persistVideoRecord(persistedRecord);
+  await notifyWebhooks("video.created", stored);
+  return stored;
+};
+
+export const createVideoRecord = async ({
+  file,
+  ...metadata
+}: CreateVideoOptions): Promise<VideoRecord> => {
+  const policy = getUploadPolicy();
+  assertSizeAllowed(file?.size ?? 0, policy);
+  assertMetadataAllowed(metadata, policy);
+  const container = assertContainerAllowed(
+    new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()),
+    policy
   );
 
-  return {
-    ...persistedRecord,
-    metadataUrl: metadataBlob.url,
-  };
+  return storeVideoRecord({
+    ...metadata,
+    id: crypto.randomUUID(),
+    body: file,
+    fileName: file.name,
+    contentType: CONTAINER_CONTENT_TYPES[container],
+    size: file.size,
+  });
 };
 
-export const listVideoRecords = async (): Promise<VideoRecord[]> => {
-  ensureBlobToken();
-  const { blobs } = await list({
-    prefix: VIDEO_METADATA_PREFIX,
-    ...getBlobAuth(),
+export const createVideoRecordFromStream = async ({
+  id,
+  contentType,
+  ...options
+}: CreateVideoFromStreamOptions): Promise<VideoRecord> => {
+  assertSizeAllowed(options.size);
+
+  return storeVideoRecord({
+    ...options,
+    id: id ?? crypto.randomUUID(),
+    contentType: contentType || "video/mp4",
   });
+};
+
+export const rebuildVideoIndex = async (): Promise<VideoRecord[]> => {
+  const blobs = (await getStorage().list(VIDEO_METADATA_PREFIX)).filter(
+    (blob) =>
+      /^[^/]+\.json$/.test(blob.pathname.slice(VIDEO_METADATA_PREFIX.length))
+  );
+  const records: VideoRecord[] = [];
+
+  for (let start = 0; start < blobs.length; start += INDEX_REBUILD_CONCURRENCY) {
+    const batch = await Promise.all(
+      blobs
+        .slice(start, start + INDEX_REBUILD_CONCURRENCY)
+        .map(async (blob): Promise<VideoRecord | null> => {
+          const metadata = await readStorageJson<PersistedVideoRecord>(
+            blob.pathname
+          );
+          return metadata
+            ? { ...withoutLegacyFields(metadata), metadataUrl: blob.url }
+            : null;
+        })
+    );
+    records.push(
+      ...batch.filter((record): record is VideoRecord => record !== null)
+    );
+  }
 
-  const records = await Promise.all(
-    blobs.map(async (blob) => {
-      const metadata = await fetchJson<PersistedVideoRecord>(blob.url);
-      return {
-        ...metadata,
-        metadataUrl: blob.url,
-      } satisfies VideoRecord;
-    })
+  await writeVideoIndex(records);
+  return records;
+};
+
+const readAllVideoRecords = async (): Promise<VideoRecord[]> => {
+  const index = await readVideoIndex();
+  return index
+    ? Object.values(index.records).map(withoutLegacyFields)
+    : rebuildVideoIndex();
+};
+
+export const listVideoRecords = async (
+  user: SessionUser
+): Promise<VideoRecord[]> => {
+  const records = (await readAllVideoRecords()).filter(
+    (record) => !record.deletedAt && canManage(user, record.ownerId)
   );
 
   return records.sort(
@@ -152,38 +425,242 @@ export const listVideoRecords = async (): Promise<VideoRecord[]> => {
   );
 };
 
+type MetadataUpdateOptions = {
+  ifMatch?: string | null;
+  restoredFrom?: number | null;
+};
+
+const applyMetadataUpdate = async (
+  id: string,
+  user: SessionUser,
+  update: (record: PersistedVideoRecord) => UpdateVideoPayload,
+  { ifMatch = null, restoredFrom = null }: MetadataUpdateOptions = {}
+): Promise<VideoRecord> => {
+  let before: PersistedVideoRecord | null = null;
+  const updated = await patchVideoRecord(id, (record) => {
+    if (ifMatch && !matchesEtag(ifMatch, toVersionEtag(record))) {
+      throw new RequestError(
+        "This video was changed by someone else. Review their changes and try again.",
+        409,
+        { code: "version_conflict", current: record }
+      );
+    }
+    before = record;
+    return {
+      ...record,
+      ...update(record),
+      version: getRecordVersion(record) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+  });
+  const revision = before
+    ? await storeVideoRevision(before, updated, user, restoredFrom)
+    : null;
+  if (revision) {
+    await notifyWebhooks("video.updated", updated, revision.fields);
+  }
+  return updated;
+};
+
 export const updateVideoRecord = async (
   id: string,
-  payload: UpdateVideoPayload
+  payload: UpdateVideoPayload,
+  user: SessionUser,
+  ifMatch: string | null = null
 ): Promise<VideoRecord> => {
-  const { record, metadataBlob } = await getMetadataBlobForId(id);
-  const normalizedTags = payload.tags ? parseTags(payload.tags) : record.tags;
+  assertMetadataAllowed(payload);
+  await getOwnedMetadata(id, user);
+  const visibility =
+    payload.visibility === undefined
+      ? undefined
+      : parseVisibility(payload.visibility);
 
-  const updatedRecord: PersistedVideoRecord = {
-    ...record,
-    title: payload.title?.trim() || record.title,
-    description: payload.description?.trim() ?? record.description,
-    tags: normalizedTags,
-    updatedAt: new Date().toISOString(),
-  };
+  return applyMetadataUpdate(
+    id,
+    user,
+    (record) => ({
+      title: payload.title?.trim() || record.title,
+      description: payload.description?.trim() ?? record.description,
+      tags: payload.tags ? parseTags(payload.tags) : record.tags,
+      visibility: visibility ?? record.visibility ?? "private",
+    }),
+    { ifMatch }
+  );
+};
 
-  await put(
-    updatedRecord.metadataPath,
-    JSON.stringify(updatedRecord),
-    {
-      access: "public",
-      contentType: "application/json",
-      ...getBlobAuth(),
-    }
+export const rewriteVideoTags = async (
+  id: string,
+  rewrite: (tags: string[]) => string[],
+  user: SessionUser
+): Promise<VideoRecord> => {
+  await getOwnedMetadata(id, user);
+  return applyMetadataUpdate(id, user, (record) => ({
+    tags: dedupeTags(rewrite(record.tags)),
+  }));
+};
+
+export const updateVideoTags = (
+  id: string,
+  { add = [], remove = [] }: { add?: string[]; remove?: string[] },
+  user: SessionUser
+): Promise<VideoRecord> => {
+  const removed = new Set(remove.map(toTagMatchKey));
+  return rewriteVideoTags(
+    id,
+    (tags) => {
+      const next = dedupeTags([
+        ...tags.filter((tag) => !removed.has(toTagMatchKey(tag))),
+        ...add,
+      ]);
+      if (next.length > MAX_TAGS_PER_VIDEO) {
+        throw new RequestError(
+          `Videos can have at most ${MAX_TAGS_PER_VIDEO} tags.`,
+          400,
+          { code: "too_many_tags", field: "tags", limit: MAX_TAGS_PER_VIDEO }
+        );
+      }
+      return next;
+    },
+    user
+  );
+};
+
+export const listVideoRevisions = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoRevision[]> => {
+  await getOwnedMetadata(id, user);
+  return readVideoRevisions(id);
+};
+
+export const restoreVideoRevision = async (
+  id: string,
+  version: number,
+  user: SessionUser,
+  ifMatch: string | null = null
+): Promise<VideoRecord> => {
+  await getOwnedMetadata(id, user);
+  const revision = Number.isSafeInteger(version)
+    ? await readVideoRevision(id, version)
+    : null;
+  if (!revision) {
+    throw new RequestError("Revision not found.", 404);
+  }
+  return applyMetadataUpdate(
+    id,
+    user,
+    () => toMetadataSnapshot(revision.after),
+    { ifMatch, restoredFrom: revision.version }
   );
+};
 
-  return {
-    ...updatedRecord,
-    metadataUrl: metadataBlob.url,
-  };
+export const deleteVideoRecord = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoRecord> => {
+  await getOwnedMetadata(id, user);
+  await cancelJobsForVideo(id);
+  const record = await patchVideoRecord(id, (current) => ({
+    ...current,
+    deletedAt: new Date().toISOString(),
+  }));
+  await notifyWebhooks("video.deleted", record);
+  return record;
+};
+
+export const listTrashedVideoRecords = async (
+  filter: (record: VideoRecord) => boolean = () => true
+): Promise<VideoRecord[]> =>
+  (await readAllVideoRecords())
+    .filter((record) => record.deletedAt && filter(record))
+    .sort((a, b) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? ""));
+
+const getTrashedMetadata = async (id: string, user: SessionUser) => {
+  const metadata = await getOwnedMetadata(id, user, { includeTrashed: true });
+  if (!metadata.record.deletedAt) {
+    throw new RequestError("Video is not in the trash.", 404);
+  }
+  return metadata;
+};
+
+export const restoreVideoRecord = async (
+  id: string,
+  user: SessionUser
+): Promise<VideoRecord> => {
+  await getTrashedMetadata(id, user);
+  const restored = await patchVideoRecord(
+    id,
+    (record) => ({ ...record, deletedAt: null }),
+    { includeTrashed: true }
+  );
+  await notifyWebhooks("video.updated", restored, ["deletedAt"]);
+  return restored;
+};
+
+export const purgeVideoRecord = async (
+  record: PersistedVideoRecord
+): Promise<boolean> => {
+  const { id } = record;
+  const trashed = await withRecordLock(async () => {
+    const latest = await readStorageJson<PersistedVideoRecord>(
+      record.metadataPath
+    );
+    if (!latest?.deletedAt || latest.deletedAt !== record.deletedAt) {
+      return null;
+    }
+    await getStorage().del([latest.metadataPath]);
+    await removeIndexedVideo(id);
+    return latest;
+  });
+  if (!trashed) return false;
+  await cancelJobsForVideo(id);
+  await getStorage().del([
+    trashed.storagePath,
+    commentsPath(id),
+    ...(trashed.poster ? [trashed.poster.storagePath] : []),
+  ]);
+  await deleteShareLinks(id);
+  await deleteRenditionFiles(id);
+  await deleteThumbnailFiles(id);
+  await deleteCaptionFiles(id);
+  await removeVideoCaptionTexts(id);
+  await deleteRevisionFiles(id);
+  await removeVideoFromCollections(id);
+  return true;
+};
+
+export const purgeTrashedVideoRecord = async (
+  id: string,
+  user: SessionUser
+): Promise<void> => {
+  const { record } = await getTrashedMetadata(id, user);
+  if (!(await purgeVideoRecord(record))) {
+    throw new RequestError("Video is not in the trash.", 404);
+  }
 };
 
-export const deleteVideoRecord = async (id: string): Promise<void> => {
-  const { record, metadataBlob } = await getMetadataBlobForId(id);
-  await del([record.fileUrl, metadataBlob.url], getBlobAuth());
+export const backfillMediaInfo = async ({
+  force = false,
+}: { force?: boolean } = {}) => {
+  const records = await readAllVideoRecords();
+  const probed: string[] = [];
+  const failed: string[] = [];
+
+  for (const { id, media: existing, deletedAt } of records) {
+    if (deletedAt || (existing && !force)) continue;
+    const { record } = await getMetadataForId(id);
+    const media = await probeOrSkip(record.storagePath, record.size);
+    if (!media) {
+      failed.push(id);
+      continue;
+    }
+    await patchVideoRecord(id, (current) => ({
+      ...current,
+      contentType: CONTAINER_CONTENT_TYPES[media.container],
+      media,
+    }));
+    probed.push(id);
+  }
+
+  return { probed, failed };
 };
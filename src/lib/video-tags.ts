@@ -0,0 +1,136 @@
+import { RequestError } from "./errors";
+import {
+  invalidTag,
+  isTagCaseInsensitive,
+  isValidTag,
+  normalizeTag,
+  toTagKey,
+} from "./tag-policy";
+import type {
+  MergeTagsPayload,
+  SessionUser,
+  TagRewriteFailure,
+  TagRewriteResult,
+  TagSummary,
+} from "./types";
+import { listVideoRecords, rewriteVideoTags } from "./video-store";
+
+const parseTagName = (value: unknown, field: string) => {
+  const tag = typeof value === "string" ? normalizeTag(value) : "";
+  if (!isValidTag(tag)) throw invalidTag(field);
+  return tag;
+};
+
+const countTags = async (user: SessionUser) => {
+  const counts = new Map<string, number>();
+  for (const record of await listVideoRecords(user)) {
+    for (const tag of record.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return counts;
+};
+
+export const listTags = async (
+  user: SessionUser,
+  query = ""
+): Promise<TagSummary[]> => {
+  const needle = toTagKey(query.trim());
+  return [...(await countTags(user))]
+    .filter(([name]) => !needle || toTagKey(name).includes(needle))
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+const rewriteLibraryTags = async (
+  user: SessionUser,
+  merges: TagRewriteResult["merges"],
+  ignoreCase: boolean
+): Promise<TagRewriteResult> => {
+  const targets = new Map<string, string>();
+  for (const { sources, target } of merges) {
+    for (const source of sources) {
+      targets.set(ignoreCase ? toTagKey(source) : source, target);
+    }
+  }
+  const targetFor = (tag: string) =>
+    targets.get(ignoreCase ? toTagKey(tag) : tag);
+
+  const updated: string[] = [];
+  const failed: TagRewriteFailure[] = [];
+  for (const record of await listVideoRecords(user)) {
+    if (!record.tags.some((tag) => targetFor(tag) !== undefined)) continue;
+    try {
+      await rewriteVideoTags(
+        record.id,
+        (tags) => tags.map((tag) => targetFor(tag) ?? tag),
+        user
+      );
+      updated.push(record.id);
+    } catch (error) {
+      if (!(error instanceof RequestError)) {
+        console.error(`Failed to rewrite tags for video ${record.id}`, error);
+      }
+      failed.push(
+        error instanceof RequestError
+          ? {
+              id: record.id,
+              status: error.status,
+              error: error.message,
+              ...(typeof error.details.code === "string"
+                ? { code: error.details.code }
+                : {}),
+            }
+          : { id: record.id, status: 500, error: "Unexpected error." }
+      );
+    }
+  }
+  return { updated, failed, merges };
+};
+
+export const mergeTags = (
+  user: SessionUser,
+  { sources, target, ignoreCase = isTagCaseInsensitive() }: MergeTagsPayload
+) => {
+  if (!Array.isArray(sources) || sources.length === 0) {
+    throw new RequestError("sources must list at least one tag.", 400, {
+      code: "invalid_tag",
+      field: "sources",
+    });
+  }
+  const merge = {
+    sources: sources.map((source) => parseTagName(source, "sources")),
+    target: parseTagName(target, "target"),
+  };
+  return rewriteLibraryTags(user, [merge], Boolean(ignoreCase));
+};
+
+export const normalizeTagCase = async (
+  user: SessionUser
+): Promise<TagRewriteResult> => {
+  const groups = new Map<string, TagSummary[]>();
+  for (const [name, count] of await countTags(user)) {
+    const key = toTagKey(name);
+    groups.set(key, [...(groups.get(key) ?? []), { name, count }]);
+  }
+
+  const merges = [...groups]
+    .map(([key, variants]) => {
+      const target = isTagCaseInsensitive()
+        ? key
+        : [...variants].sort(
+            (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+          )[0].name;
+      return {
+        sources: variants
+          .map((variant) => variant.name)
+          .filter((name) => name !== target),
+        target,
+      };
+    })
+    .filter((merge) => merge.sources.length > 0);
+
+  return merges.length > 0
+    ? rewriteLibraryTags(user, merges, false)
+    : { updated: [], failed: [], merges };
+};
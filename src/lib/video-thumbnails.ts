@@ -0,0 +1,149 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { downloadSource, runFfmpeg, toEven, withWorkDir } from "./ffmpeg";
+import type { JobContext } from "./job-queue";
+import { getStorage } from "./storage";
+import {
+  THUMBNAIL_TRACK_FILE,
+  buildThumbnailVtt,
+  toSpriteFileName,
+} from "./thumbnail-track";
+import type { PersistedVideoRecord, ThumbnailTrack } from "./types";
+import { storeVideoPoster } from "./video-posters";
+import {
+  deleteThumbnailFiles,
+  patchVideoRecord,
+  readVideoRecord,
+  thumbnailPrefix,
+} from "./video-store";
+
+const THUMBNAIL_WIDTH = 160;
+const SPRITE_COLUMNS = 10;
+const SPRITE_ROWS = 10;
+const TARGET_FRAMES = 100;
+const POSTER_MAX_WIDTH = 1280;
+const POSTER_MAX_OFFSET_SECONDS = 10;
+
+type ThumbnailContext = Pick<JobContext, "signal" | "reportProgress">;
+
+const planTrack = (
+  record: PersistedVideoRecord,
+  duration: number
+): Omit<ThumbnailTrack, "sprites" | "updatedAt"> => {
+  const { width, height } = record.media ?? {};
+  const aspectRatio = width && height ? width / height : 16 / 9;
+  return {
+    interval: Math.max(1, Math.ceil(duration / TARGET_FRAMES)),
+    width: THUMBNAIL_WIDTH,
+    height: toEven(THUMBNAIL_WIDTH / aspectRatio),
+    columns: SPRITE_COLUMNS,
+    rows: SPRITE_ROWS,
+  };
+};
+
+const capturePoster = async (
+  id: string,
+  sourcePath: string,
+  workDir: string,
+  duration: number,
+  signal: AbortSignal
+) => {
+  const time = Math.round(Math.min(duration * 0.1, POSTER_MAX_OFFSET_SECONDS) * 10) / 10;
+  const posterPath = path.join(workDir, "poster.jpg");
+  await runFfmpeg(
+    [
+      "-ss",
+      `${time}`,
+      "-i",
+      sourcePath,
+      "-frames:v",
+      "1",
+      "-vf",
+      `scale='min(${POSTER_MAX_WIDTH},iw)':-2`,
+      "-q:v",
+      "3",
+      posterPath,
+    ],
+    signal
+  );
+  await storeVideoPoster(id, await readFile(posterPath), time, {
+    onlyIfMissing: true,
+  });
+};
+
+const writeThumbnails = async (
+  id: string,
+  workDir: string,
+  { signal, reportProgress }: ThumbnailContext
+) => {
+  const record = await readVideoRecord(id);
+  const duration = record.media?.durationSeconds;
+  if (!duration) return;
+
+  const sourcePath = path.join(workDir, "source");
+  await downloadSource(record, sourcePath);
+  if (!record.poster) {
+    await capturePoster(id, sourcePath, workDir, duration, signal);
+  }
+
+  const plan = planTrack(record, duration);
+  let progressUpdate = Promise.resolve();
+  await runFfmpeg(
+    [
+      "-i",
+      sourcePath,
+      "-an",
+      "-vf",
+      [
+        `fps=1/${plan.interval}`,
+        `scale=${plan.width}:${plan.height}:force_original_aspect_ratio=decrease`,
+        `pad=${plan.width}:${plan.height}:(ow-iw)/2:(oh-ih)/2`,
+        `tile=${plan.columns}x${plan.rows}`,
+      ].join(","),
+      "-q:v",
+      "5",
+      path.join(workDir, "sprite-%03d.jpg"),
+    ],
+    signal,
+    (seconds) => {
+      progressUpdate = progressUpdate
+        .then(() => reportProgress(Math.min(seconds / duration, 1)))
+        .catch(() => undefined);
+    }
+  );
+  await progressUpdate;
+
+  const sprites = (await readdir(workDir))
+    .filter((fileName) => /^sprite-\d{3}\.jpg$/.test(fileName))
+    .sort();
+  if (sprites.length === 0) {
+    throw new Error("ffmpeg did not produce any thumbnail sprites.");
+  }
+
+  const track: ThumbnailTrack = {
+    ...plan,
+    sprites: sprites.length,
+    updatedAt: new Date().toISOString(),
+  };
+  const storage = getStorage();
+  const prefix = thumbnailPrefix(id);
+  await deleteThumbnailFiles(id);
+  for (const [index, fileName] of sprites.entries()) {
+    await storage.put(
+      `${prefix}${toSpriteFileName(index)}`,
+      await readFile(path.join(workDir, fileName)),
+      { contentType: "image/jpeg" }
+    );
+  }
+  await storage.put(
+    `${prefix}${THUMBNAIL_TRACK_FILE}`,
+    buildThumbnailVtt(track, duration),
+    { contentType: "text/vtt" }
+  );
+  await patchVideoRecord(id, (current) => ({ ...current, thumbnails: track }));
+};
+
+export const generateThumbnails = (id: string, context: ThumbnailContext) =>
+  withWorkDir("video-thumbnails-", (workDir) =>
+    writeThumbnails(id, workDir, context)
+  );
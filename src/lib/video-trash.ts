@@ -0,0 +1,63 @@
+import type { SessionUser, TrashPage, VideoRecord } from "./types";
+import { canManage } from "./users";
+import { listTrashedVideoRecords, purgeVideoRecord } from "./video-store";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TrashPurgeState = {
+  timer: ReturnType<typeof setInterval> | null;
+};
+
+const globalForTrashPurge = globalThis as typeof globalThis & {
+  __videoTrashPurge?: TrashPurgeState;
+};
+
+export const getTrashRetentionDays = () => {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isSafeInteger(days) && days > 0 ? days : 30;
+};
+
+const purgeAll = async (records: VideoRecord[]) => {
+  const purged: string[] = [];
+  for (const record of records) {
+    if (await purgeVideoRecord(record)) purged.push(record.id);
+  }
+  return purged;
+};
+
+export const listTrash = async (user: SessionUser): Promise<TrashPage> => ({
+  items: await listTrashedVideoRecords((record) =>
+    canManage(user, record.ownerId)
+  ),
+  retentionDays: getTrashRetentionDays(),
+});
+
+export const emptyTrash = async (user: SessionUser) => ({
+  purged: await purgeAll(
+    await listTrashedVideoRecords((record) => canManage(user, record.ownerId))
+  ),
+});
+
+export const purgeExpiredTrash = async () => {
+  const cutoff = Date.now() - getTrashRetentionDays() * DAY_MS;
+  return purgeAll(
+    await listTrashedVideoRecords(
+      (record) => new Date(record.deletedAt ?? 0).getTime() <= cutoff
+    )
+  );
+};
+
+const runPurge = () =>
+  purgeExpiredTrash().catch((error) =>
+    console.error("Trash purge failed", error)
+  );
+
+export const startTrashPurge = () => {
+  globalForTrashPurge.__videoTrashPurge ??= { timer: null };
+  const state = globalForTrashPurge.__videoTrashPurge;
+  if (state.timer) return;
+  void runPurge();
+  state.timer = setInterval(() => void runPurge(), PURGE_INTERVAL_MS);
+  state.timer.unref?.();
+};
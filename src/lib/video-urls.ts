@@ -0,0 +1,74 @@
+import type { CaptionTrack, VideoRecord } from "./types";
+
+const withQuery = (
+  path: string,
+  params: Record<string, string | null | undefined>
+) => {
+  const search = new URLSearchParams(
+    Object.entries(params).filter(
+      (entry): entry is [string, string] => Boolean(entry[1])
+    )
+  ).toString();
+  return search ? `${path}?${search}` : path;
+};
+
+const withToken = (path: string, token?: string | null) =>
+  withQuery(path, { token });
+
+const withGrant = (path: string, grant?: string | null) =>
+  withQuery(path, { grant });
+
+export const toWatchPath = (id: string, token?: string | null) =>
+  withToken(`/watch/${id}`, token);
+
+export const toEmbedPath = (id: string, token?: string | null) =>
+  withToken(`/embed/${id}`, token);
+
+export const toStreamPath = (id: string, grant?: string | null) =>
+  withGrant(`/api/videos/${id}/stream`, grant);
+
+export const toHlsPath = (id: string, grant?: string | null) =>
+  withGrant(`/api/videos/${id}/hls/master.m3u8`, grant);
+
+export const toHlsSource = (
+  video: Pick<VideoRecord, "id" | "renditions">,
+  grant?: string | null
+) => (video.renditions?.status === "ready" ? toHlsPath(video.id, grant) : null);
+
+export const toPosterSource = (
+  video: Pick<VideoRecord, "id" | "poster">,
+  grant?: string | null
+) =>
+  video.poster
+    ? withQuery(`/api/videos/${video.id}/poster`, {
+        v: `${new Date(video.poster.updatedAt).getTime()}`,
+        grant,
+      })
+    : null;
+
+export const toThumbnailTrackSource = (
+  video: Pick<VideoRecord, "id" | "thumbnails">,
+  grant?: string | null
+) =>
+  video.thumbnails
+    ? withQuery(`/api/videos/${video.id}/thumbnails/thumbnails.vtt`, {
+        v: `${new Date(video.thumbnails.updatedAt).getTime()}`,
+        grant,
+      })
+    : null;
+
+export const toCaptionTracks = (
+  video: Pick<VideoRecord, "id" | "captions">,
+  grant?: string | null
+): CaptionTrack[] =>
+  (video.captions ?? []).map(({ id, language, label, updatedAt }) => ({
+    id,
+    language,
+    label,
+    src: withQuery(`/api/videos/${video.id}/captions/${id}`, {
+      v: `${new Date(updatedAt).getTime()}`,
+      grant,
+    }),
+  }));
+
+export const toCollectionPath = (id: string) => `/collections/${id}`;
@@ -0,0 +1,7 @@
+import type { VideoRecord } from "./types";
+
+export const getRecordVersion = (record: Pick<VideoRecord, "version">) =>
+  record.version ?? 1;
+
+export const toVersionEtag = (record: Pick<VideoRecord, "version">) =>
+  `"${getRecordVersion(record)}"`;
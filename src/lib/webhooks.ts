@@ -0,0 +1,542 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { RequestError } from "./errors";
+import {
+  isPublicAddress,
+  pinLookup,
+  resolveHostAddresses,
+  resolvePublicAddresses,
+  toHostname,
+} from "./network-policy";
+import { getStorage, readStorageJson, writeStorageJson } from "./storage";
+import type {
+  SessionUser,
+  VideoRecord,
+  WebhookChange,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookPayload,
+  WebhookRecord,
+  WebhookSummary,
+} from "./types";
+import { getUser } from "./users";
+
+const WEBHOOK_PREFIX = "auth/webhooks/";
+const DELIVERY_PREFIX = "videos/webhooks/";
+const SECRET_PREFIX = "whsec_";
+const MAX_URL_LENGTH = 2000;
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_DELIVERIES_PER_WEBHOOK = 100;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const POLL_INTERVAL_MS = 1000;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  "video.created",
+  "video.updated",
+  "video.deleted",
+];
+
+type WebhookWorkerState = {
+  timer: ReturnType<typeof setTimeout> | null;
+  started: boolean;
+  running: boolean;
+  rerun: boolean;
+};
+
+const globalForWebhooks = globalThis as typeof globalThis & {
+  __videoWebhookWorker?: WebhookWorkerState;
+};
+
+const getWorkerState = () => {
+  globalForWebhooks.__videoWebhookWorker ??= {
+    timer: null,
+    started: false,
+    running: false,
+    rerun: false,
+  };
+  return globalForWebhooks.__videoWebhookWorker;
+};
+
+let pendingWebhookUpdate: Promise<unknown> = Promise.resolve();
+
+const withWebhookLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = pendingWebhookUpdate.then(task, task);
+  pendingWebhookUpdate = run.catch(() => undefined);
+  return run;
+};
+
+const getMaxAttempts = () => {
+  const attempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+  return Number.isSafeInteger(attempts) && attempts > 0 ? attempts : 8;
+};
+
+const webhookPath = (id: string) => `${WEBHOOK_PREFIX}${id}.json`;
+const deliveryPrefix = (webhookId: string) =>
+  `${DELIVERY_PREFIX}${webhookId}/`;
+const deliveryPath = (webhookId: string, deliveryId: string) =>
+  `${deliveryPrefix(webhookId)}${deliveryId}.json`;
+
+const createSecret = () =>
+  `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+
+const toSummary = (webhook: WebhookRecord): WebhookSummary => ({
+  id: webhook.id,
+  ownerId: webhook.ownerId,
+  url: webhook.url,
+  events: webhook.events,
+  description: webhook.description,
+  active: webhook.active,
+  createdAt: webhook.createdAt,
+  updatedAt: webhook.updatedAt,
+});
+
+const backoffDelay = (attempts: number) =>
+  Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+const invalid = (message: string, field: string) =>
+  new RequestError(message, 400, { code: "invalid_webhook", field });
+
+const parseUrl = async (url: unknown) => {
+  const value = typeof url === "string" ? url.trim() : "";
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(value);
+  } catch {
+    parsed = null;
+  }
+  if (
+    !parsed ||
+    !["http:", "https:"].includes(parsed.protocol) ||
+    value.length > MAX_URL_LENGTH
+  ) {
+    throw invalid("url must be an http or https URL.", "url");
+  }
+  const addresses = await resolveHostAddresses(toHostname(parsed)).catch(
+    () => []
+  );
+  if (addresses.length === 0) {
+    throw invalid("url must point to a host that resolves.", "url");
+  }
+  if (!addresses.every(({ address }) => isPublicAddress(address))) {
+    throw invalid(
+      "url must not point to a private or reserved address.",
+      "url"
+    );
+  }
+  return parsed.toString();
+};
+
+const parseEvents = (events: unknown): WebhookEventType[] => {
+  const requested = Array.isArray(events)
+    ? events.map((event) => `${event}`)
+    : [];
+  if (
+    requested.length === 0 ||
+    requested.some(
+      (event) => !WEBHOOK_EVENTS.includes(event as WebhookEventType)
+    )
+  ) {
+    throw invalid(
+      `events must be one or more of ${WEBHOOK_EVENTS.join(", ")}.`,
+      "events"
+    );
+  }
+  return WEBHOOK_EVENTS.filter((event) => requested.includes(event));
+};
+
+const parseDescription = (description: unknown) => {
+  if (description === undefined || description === null) return "";
+  if (
+    typeof description !== "string" ||
+    description.length > MAX_DESCRIPTION_LENGTH
+  ) {
+    throw invalid(
+      `description must be at most ${MAX_DESCRIPTION_LENGTH} characters.`,
+      "description"
+    );
+  }
+  return description.trim();
+};
+
+const parseActive = (active: unknown) => {
+  if (typeof active !== "boolean") {
+    throw invalid("active must be true or false.", "active");
+  }
+  return active;
+};
+
+const readAllWebhooks = async (): Promise<WebhookRecord[]> => {
+  const blobs = await getStorage().list(WEBHOOK_PREFIX);
+  const webhooks = await Promise.all(
+    blobs.map((blob) => readStorageJson<WebhookRecord>(blob.pathname))
+  );
+  return webhooks.filter(
+    (webhook): webhook is WebhookRecord => webhook !== null
+  );
+};
+
+const readWebhook = (id: string) =>
+  /^[0-9a-f-]{36}$/i.test(id)
+    ? readStorageJson<WebhookRecord>(webhookPath(id))
+    : Promise.resolve(null);
+
+const getOwnedWebhook = async (id: string, user: SessionUser) => {
+  const webhook = await readWebhook(id);
+  if (!webhook || webhook.ownerId !== user.id) {
+    throw new RequestError("Webhook not found.", 404);
+  }
+  return webhook;
+};
+
+const readDeliveries = async (prefix: string): Promise<WebhookDelivery[]> => {
+  const blobs = await getStorage().list(prefix);
+  const deliveries = await Promise.all(
+    blobs.map((blob) => readStorageJson<WebhookDelivery>(blob.pathname))
+  );
+  return deliveries
+    .filter((delivery): delivery is WebhookDelivery => delivery !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const saveDelivery = async (delivery: WebhookDelivery) => {
+  await writeStorageJson(
+    deliveryPath(delivery.webhookId, delivery.id),
+    delivery
+  );
+  return delivery;
+};
+
+const pruneDeliveries = async (webhookId: string) => {
+  const finished = (await readDeliveries(deliveryPrefix(webhookId))).filter(
+    (delivery) => delivery.status !== "pending"
+  );
+  const expired = finished.slice(MAX_DELIVERIES_PER_WEBHOOK);
+  if (expired.length > 0) {
+    await getStorage().del(
+      expired.map((delivery) => deliveryPath(webhookId, delivery.id))
+    );
+  }
+};
+
+const queueDelivery = async (
+  webhookId: string,
+  event: WebhookDelivery["event"],
+  redeliveryOf: string | null = null
+) => {
+  const now = new Date().toISOString();
+  const delivery = await saveDelivery({
+    id: randomUUID(),
+    webhookId,
+    event,
+    status: "pending",
+    attempts: 0,
+    maxAttempts: getMaxAttempts(),
+    nextAttemptAt: now,
+    responseStatus: null,
+    error: null,
+    redeliveryOf,
+    createdAt: now,
+    updatedAt: now,
+    deliveredAt: null,
+  });
+  await pruneDeliveries(webhookId);
+  wakeWebhookWorker(0);
+  return delivery;
+};
+
+const signBody = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+const postJson = async (
+  url: string,
+  headers: Record<string, string>,
+  body: string
+) => {
+  const target = new URL(url);
+  const addresses = await resolvePublicAddresses(toHostname(target));
+  const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise<number>((resolve, reject) => {
+    const request = send(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: pinLookup(addresses),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+};
+
+const sendDelivery = (webhook: WebhookRecord, delivery: WebhookDelivery) => {
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  return postJson(
+    webhook.url,
+    {
+      "Content-Type": "application/json",
+      "User-Agent": "VideoLibrary-Webhooks/1.0",
+      "X-Webhook-Id": delivery.id,
+      "X-Webhook-Event": delivery.event.type,
+      "X-Webhook-Timestamp": `${timestamp}`,
+      "X-Webhook-Signature": `sha256=${signBody(
+        webhook.secret,
+        timestamp,
+        body
+      )}`,
+    },
+    body
+  );
+};
+
+const attemptDelivery = async (delivery: WebhookDelivery) => {
+  const webhook = await readWebhook(delivery.webhookId);
+  if (!webhook) {
+    await getStorage().del([deliveryPath(delivery.webhookId, delivery.id)]);
+    return;
+  }
+  const attempts = delivery.attempts + 1;
+  const now = new Date().toISOString();
+  if (!webhook.active) {
+    await saveDelivery({
+      ...delivery,
+      status: "failed",
+      nextAttemptAt: null,
+      error: "The webhook is disabled.",
+      updatedAt: now,
+    });
+    return;
+  }
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    responseStatus = await sendDelivery(webhook, delivery);
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `The endpoint responded with HTTP ${responseStatus}.`;
+    }
+  } catch (sendError) {
+    error =
+      sendError instanceof Error ? sendError.message : "The request failed.";
+  }
+
+  const retry = error !== null && attempts < delivery.maxAttempts;
+  await saveDelivery({
+    ...delivery,
+    attempts,
+    responseStatus,
+    error,
+    status: error === null ? "succeeded" : retry ? "pending" : "failed",
+    nextAttemptAt: retry
+      ? new Date(Date.now() + backoffDelay(attempts)).toISOString()
+      : null,
+    deliveredAt: error === null ? now : delivery.deliveredAt,
+    updatedAt: now,
+  });
+};
+
+const tick = async () => {
+  const state = getWorkerState();
+  state.timer = null;
+  if (state.running) {
+    state.rerun = true;
+    return;
+  }
+  state.running = true;
+  state.rerun = false;
+  let nextDelay: number | null = null;
+  try {
+    const due = (await readDeliveries(DELIVERY_PREFIX))
+      .filter(
+        (delivery) =>
+          delivery.status === "pending" &&
+          new Date(delivery.nextAttemptAt ?? 0).getTime() <= Date.now()
+      )
+      .reverse();
+    for (const delivery of due) {
+      await attemptDelivery(delivery).catch((error) =>
+        console.error(`Failed to deliver webhook ${delivery.id}`, error)
+      );
+    }
+    const waiting = (await readDeliveries(DELIVERY_PREFIX))
+      .filter((delivery) => delivery.status === "pending")
+      .map((delivery) =>
+        Math.max(
+          new Date(delivery.nextAttemptAt ?? 0).getTime() - Date.now(),
+          0
+        )
+      );
+    nextDelay = waiting.length > 0 ? Math.min(...waiting) : null;
+  } catch (error) {
+    console.error("Webhook worker tick failed", error);
+    nextDelay = POLL_INTERVAL_MS;
+  } finally {
+    state.running = false;
+  }
+  if (state.rerun) {
+    wakeWebhookWorker(0);
+  } else if (nextDelay !== null) {
+    wakeWebhookWorker(Math.max(nextDelay, POLL_INTERVAL_MS));
+  }
+};
+
+const wakeWebhookWorker = (delay: number) => {
+  const state = getWorkerState();
+  if (!state.started) return;
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = setTimeout(() => void tick(), delay);
+  state.timer.unref?.();
+};
+
+export const startWebhookDelivery = () => {
+  const state = getWorkerState();
+  if (state.started) return;
+  state.started = true;
+  wakeWebhookWorker(0);
+};
+
+const canReceive = async (
+  webhook: WebhookRecord,
+  type: WebhookEventType,
+  record: VideoRecord
+) => {
+  if (!webhook.active || !webhook.events.includes(type)) return false;
+  if (webhook.ownerId === record.ownerId) return true;
+  return (await getUser(webhook.ownerId))?.role === "admin";
+};
+
+export const notifyWebhooks = async (
+  type: WebhookEventType,
+  record: VideoRecord,
+  changes: WebhookChange[] = []
+) => {
+  try {
+    const event = {
+      id: randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data: { video: record, changes },
+    };
+    for (const webhook of await readAllWebhooks()) {
+      if (await canReceive(webhook, type, record)) {
+        await queueDelivery(webhook.id, event);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to queue ${type} webhooks for ${record.id}`, error);
+  }
+};
+
+export const listWebhooks = async (
+  user: SessionUser
+): Promise<WebhookSummary[]> =>
+  (await readAllWebhooks())
+    .filter((webhook) => webhook.ownerId === user.id)
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const getWebhook = async (
+  id: string,
+  user: SessionUser
+): Promise<WebhookSummary> => toSummary(await getOwnedWebhook(id, user));
+
+export const createWebhook = async (
+  payload: WebhookPayload,
+  user: SessionUser
+): Promise<WebhookRecord> => {
+  const now = new Date().toISOString();
+  const webhook: WebhookRecord = {
+    id: randomUUID(),
+    ownerId: user.id,
+    url: await parseUrl(payload.url),
+    events:
+      payload.events === undefined
+        ? WEBHOOK_EVENTS
+        : parseEvents(payload.events),
+    description: parseDescription(payload.description),
+    active: payload.active === undefined ? true : parseActive(payload.active),
+    secret: createSecret(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await writeStorageJson(webhookPath(webhook.id), webhook);
+  return webhook;
+};
+
+export const updateWebhook = (
+  id: string,
+  payload: WebhookPayload,
+  user: SessionUser
+): Promise<WebhookSummary & { secret?: string }> =>
+  withWebhookLock(async () => {
+    const current = await getOwnedWebhook(id, user);
+    const updated: WebhookRecord = {
+      ...current,
+      url:
+        payload.url === undefined ? current.url : await parseUrl(payload.url),
+      events:
+        payload.events === undefined
+          ? current.events
+          : parseEvents(payload.events),
+      description:
+        payload.description === undefined
+          ? current.description
+          : parseDescription(payload.description),
+      active:
+        payload.active === undefined
+          ? current.active
+          : parseActive(payload.active),
+      secret: payload.rotateSecret === true ? createSecret() : current.secret,
+      updatedAt: new Date().toISOString(),
+    };
+    await writeStorageJson(webhookPath(id), updated);
+    return payload.rotateSecret === true ? updated : toSummary(updated);
+  });
+
+export const deleteWebhook = (id: string, user: SessionUser) =>
+  withWebhookLock(async () => {
+    await getOwnedWebhook(id, user);
+    const storage = getStorage();
+    const deliveries = await storage.list(deliveryPrefix(id));
+    await storage.del([
+      webhookPath(id),
+      ...deliveries.map((blob) => blob.pathname),
+    ]);
+  });
+
+export const listWebhookDeliveries = async (
+  id: string,
+  user: SessionUser
+): Promise<WebhookDelivery[]> => {
+  await getOwnedWebhook(id, user);
+  return readDeliveries(deliveryPrefix(id));
+};
+
+export const redeliverWebhook = async (
+  id: string,
+  deliveryId: string,
+  user: SessionUser
+): Promise<WebhookDelivery> => {
+  const webhook = await getOwnedWebhook(id, user);
+  const original = /^[0-9a-f-]{36}$/i.test(deliveryId)
+    ? await readStorageJson<WebhookDelivery>(deliveryPath(id, deliveryId))
+    : null;
+  if (!original) {
+    throw new RequestError("Delivery not found.", 404);
+  }
+  if (!webhook.active) {
+    throw new RequestError("Enable the webhook before redelivering.", 409, {
+      code: "webhook_disabled",
+    });
+  }
+  return queueDelivery(id, original.event, original.id);
+};